@@ -4,14 +4,22 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useConsultationEvents } from "@/hooks/use-consultation-events";
+import { useUploadOutbox } from "@/hooks/use-upload-outbox";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Customers from "@/pages/customers";
+import PatientPage from "@/pages/patient";
 import ConsultationDetail from "@/pages/consultation-detail";
+import Account from "@/pages/account";
+import Team from "@/pages/team";
+import Glossary from "@/pages/glossary";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, can } = useAuth();
+  useConsultationEvents(isAuthenticated && can("consultations:read"));
+  useUploadOutbox(can("consultations:record") ? user?.id : undefined);
 
   return (
     <Switch>
@@ -21,7 +29,11 @@ function Router() {
         <>
           <Route path="/" component={Home} />
           <Route path="/customers" component={Customers} />
+          <Route path="/patients/:id" component={PatientPage} />
           <Route path="/consultation/:id" component={ConsultationDetail} />
+          <Route path="/account" component={Account} />
+          <Route path="/team" component={Team} />
+          <Route path="/glossary" component={Glossary} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { FilePlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { AddendumWithAuthor, Consultation } from "@shared/schema";
+
+type ConsultationAddendaProps = {
+  consultation: Consultation;
+  canEdit: boolean;
+};
+
+// Dated notes added after the SOAP note was signed. They can't be edited or removed.
+export default function ConsultationAddenda({ consultation, canEdit }: ConsultationAddendaProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [text, setText] = useState("");
+  const queryKey = [`/api/consultations/${consultation.id}/addenda`];
+
+  const { data: addenda = [] } = useQuery<AddendumWithAuthor[]>({
+    queryKey,
+    enabled: consultation.isFinalized,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/consultations/${consultation.id}/addenda`, {
+        method: "POST",
+        body: JSON.stringify({ text }),
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setText("");
+      toast({ title: "Addendum added" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to add addendum: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!consultation.isFinalized) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FilePlus className="w-5 h-5 mr-2" />
+          Addenda
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {addenda.length === 0 ? (
+          <p className="text-sm text-gray-500">No addenda.</p>
+        ) : (
+          <ul className="space-y-3">
+            {addenda.map((addendum) => (
+              <li key={addendum.id} className="rounded border p-3">
+                <p className="text-xs text-gray-500">
+                  {new Date(addendum.createdAt).toLocaleString()} · {addendum.authorName || "Unknown user"}
+                </p>
+                <p className="mt-1 whitespace-pre-wrap text-sm text-gray-800">{addendum.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {canEdit && (
+          <div className="space-y-2">
+            <Textarea
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              placeholder="Information learned after the note was signed, e.g. lab results or a phone follow-up"
+              rows={3}
+              maxLength={5000}
+            />
+            <div className="flex justify-end">
+              <Button onClick={() => addMutation.mutate()} disabled={!text.trim() || addMutation.isPending}>
+                {addMutation.isPending ? "Adding..." : "Add Addendum"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
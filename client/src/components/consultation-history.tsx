@@ -6,13 +6,17 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Eye, Download, Trash2, CheckCircle, Clock, AlertCircle, ArrowUpDown } from "lucide-react";
+import { Eye, Download, Trash2, ArrowUpDown, RotateCcw, Sparkles } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useReprocessConsultation, retryAction } from "@/hooks/use-reprocess-consultation";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Link } from "wouter";
+import ConsultationStatusBadge from "@/components/consultation-status-badge";
 import type { Consultation } from "@shared/schema";
+import { formatSoapNote } from "@shared/soap";
 
 export default function ConsultationHistory() {
   const [sortBy, setSortBy] = useState<'date-desc' | 'date-asc' | 'name'>('date-desc');
@@ -20,10 +24,11 @@ export default function ConsultationHistory() {
   const [filterDate, setFilterDate] = useState('');
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const reprocessMutation = useReprocessConsultation();
 
   const { data: consultations, isLoading } = useQuery<Consultation[]>({
     queryKey: ["/api/consultations"],
-    refetchInterval: 5000, // Refresh every 5 seconds to check for completed transcriptions
   });
 
   const sortedConsultations = useMemo(() => {
@@ -110,38 +115,6 @@ export default function ConsultationHistory() {
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return (
-          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
-            <CheckCircle className="mr-1" size={12} />
-            Completed
-          </Badge>
-        );
-      case 'processing':
-        return (
-          <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
-            <Clock className="mr-1" size={12} />
-            Processing
-          </Badge>
-        );
-      case 'failed':
-        return (
-          <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
-            <AlertCircle className="mr-1" size={12} />
-            Failed
-          </Badge>
-        );
-      default:
-        return (
-          <Badge variant="secondary">
-            {status}
-          </Badge>
-        );
-    }
-  };
-
   if (isLoading) {
     return (
       <Card>
@@ -216,14 +189,14 @@ export default function ConsultationHistory() {
                   </div>
                   <p className="text-sm text-gray-600 mb-2">
                     {consultation.finalSoapNote
-                      ? consultation.finalSoapNote.substring(0, 120) + "..."
+                      ? consultation.finalSoapNote.subjective.substring(0, 120) + "..."
                       : consultation.fullTranscription
                         ? consultation.fullTranscription.substring(0, 120) + "..."
                         : "Processing transcription..."
                     }
                   </p>
                   <div className="flex items-center space-x-4">
-                    {getStatusBadge(consultation.status)}
+                    <ConsultationStatusBadge consultation={consultation} />
                     {consultation.isFinalized && (
                       <Badge className="bg-slate-200 text-slate-700 hover:bg-slate-200">
                         Finalized
@@ -233,8 +206,35 @@ export default function ConsultationHistory() {
                       Duration: {formatDuration(consultation.duration)}
                     </span>
                   </div>
+                  {consultation.status === 'failed' && consultation.failureReason && (
+                    <p className="text-xs text-red-600 mt-2">{consultation.failureReason}</p>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2 ml-4">
+                  {can("consultations:edit") && consultation.status === 'failed' && !consultation.isFinalized && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs"
+                      onClick={() => reprocessMutation.mutate({ id: consultation.id, action: retryAction(consultation) })}
+                      disabled={reprocessMutation.isPending}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                  {can("consultations:edit") && consultation.status === 'completed' && !consultation.isFinalized && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-2 text-gray-400 hover:text-primary"
+                      title="Regenerate SOAP note"
+                      onClick={() => reprocessMutation.mutate({ id: consultation.id, action: "regenerate-soap" })}
+                      disabled={reprocessMutation.isPending}
+                    >
+                      <Sparkles size={16} />
+                    </Button>
+                  )}
                   <Link href={`/consultation/${consultation.id}`}>
                     <Button
                       variant="outline"
@@ -283,8 +283,7 @@ export default function ConsultationHistory() {
                             <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg max-h-96 overflow-y-auto">
                               <h4 className="font-medium mb-3">SOAP Note</h4>
                               <div className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">
-                                {consultation.finalSoapNote ||
-                                  consultation.aiSoapNote ||
+                                {formatSoapNote(consultation.finalSoapNote || consultation.aiSoapNote) ||
                                   "SOAP note is being generated..."}
                               </div>
                             </div>
@@ -320,16 +319,18 @@ export default function ConsultationHistory() {
                   >
                     <Download size={16} />
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteMutation.mutate(consultation.id)}
-                    disabled={deleteMutation.isPending}
-                    className="p-2 text-gray-400 hover:text-red-500"
-                    title="Delete"
-                  >
-                    <Trash2 size={16} />
-                  </Button>
+                  {can("consultations:delete") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(consultation.id)}
+                      disabled={deleteMutation.isPending || consultation.isFinalized}
+                      className="p-2 text-gray-400 hover:text-red-500"
+                      title={consultation.isFinalized ? "Signed consultations can't be deleted" : "Delete"}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Clock, AlertCircle } from "lucide-react";
+import type { Consultation } from "@shared/schema";
+import { PROCESSING_STAGE_LABELS, getProcessingStage } from "@shared/jobs";
+
+type ConsultationStatusBadgeProps = {
+  consultation: Pick<Consultation, "status" | "processingStage">;
+};
+
+// Status of a consultation, naming the current step while it is processing.
+export default function ConsultationStatusBadge({ consultation }: ConsultationStatusBadgeProps) {
+  const stage = getProcessingStage(consultation);
+  switch (stage) {
+    case "completed":
+      return (
+        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+          <CheckCircle className="mr-1" size={12} />
+          {PROCESSING_STAGE_LABELS[stage]}
+        </Badge>
+      );
+    case "failed":
+      return (
+        <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+          <AlertCircle className="mr-1" size={12} />
+          {PROCESSING_STAGE_LABELS[stage]}
+        </Badge>
+      );
+    default:
+      return (
+        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+          <Clock className="mr-1 animate-pulse" size={12} />
+          {PROCESSING_STAGE_LABELS[stage]}
+        </Badge>
+      );
+  }
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Activity, Sparkles, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { Consultation, PatientVitals, VitalsSuggestion } from "@shared/schema";
+import { VITAL_SIGNS, VITAL_SIGN_INFO, formatVital, type VitalSign } from "@shared/vitals";
+
+type ConsultationVitalsProps = {
+  consultation: Consultation;
+  canEdit: boolean;
+};
+
+type VitalsForm = Record<VitalSign, string>;
+
+const EMPTY_FORM: VitalsForm = {
+  weightKg: "",
+  temperatureC: "",
+  heartRate: "",
+  respiratoryRate: "",
+  bodyConditionScore: "",
+};
+
+function toForm(suggested: VitalsSuggestion): VitalsForm {
+  const form = { ...EMPTY_FORM };
+  for (const sign of VITAL_SIGNS) {
+    if (suggested[sign] !== undefined) form[sign] = String(suggested[sign]);
+  }
+  return form;
+}
+
+export default function ConsultationVitals({ consultation, canEdit }: ConsultationVitalsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<VitalsForm>(EMPTY_FORM);
+  const [isSuggested, setIsSuggested] = useState(false);
+  const queryKey = [`/api/consultations/${consultation.id}/vitals`];
+
+  const { data } = useQuery<{ vitals: PatientVitals[]; suggested: VitalsSuggestion }>({
+    queryKey,
+  });
+
+  // Pre-fill values heard in the transcript until vitals have been recorded.
+  useEffect(() => {
+    if (data && data.vitals.length === 0 && Object.keys(data.suggested).length > 0) {
+      setForm(toForm(data.suggested));
+      setIsSuggested(true);
+    }
+  }, [data]);
+
+  const invalidateVitals = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/patients/${consultation.patientRecordId}/vitals`] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const values = Object.fromEntries(
+        VITAL_SIGNS.filter((sign) => form[sign].trim()).map((sign) => [sign, Number(form[sign])]),
+      );
+      return await apiRequest(`/api/patients/${consultation.patientRecordId}/vitals`, {
+        method: "POST",
+        body: JSON.stringify({ ...values, consultationId: consultation.id }),
+      });
+    },
+    onSuccess: () => {
+      invalidateVitals();
+      setForm(EMPTY_FORM);
+      setIsSuggested(false);
+      toast({
+        title: "Saved",
+        description: "Vitals recorded successfully.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to record vitals: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (vitalsId: number) => {
+      return await apiRequest(`/api/vitals/${vitalsId}`, { method: "DELETE" });
+    },
+    onSuccess: invalidateVitals,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to delete vitals: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Vitals belong to a patient record; legacy consultations may not have one.
+  if (!consultation.patientRecordId) {
+    return null;
+  }
+
+  const hasValues = VITAL_SIGNS.some((sign) => form[sign].trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Activity className="w-5 h-5 mr-2" />
+          Vitals
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data?.vitals.map((entry) => (
+          <div key={entry.id} className="flex items-start justify-between text-sm bg-gray-50 rounded p-2">
+            <div className="space-y-0.5">
+              {VITAL_SIGNS.filter((sign) => entry[sign] !== null).map((sign) => (
+                <p key={sign}>
+                  <span className="text-gray-500">{VITAL_SIGN_INFO[sign].label}:</span>{" "}
+                  {formatVital(sign, entry[sign])}
+                </p>
+              ))}
+            </div>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(entry.id)}
+                disabled={deleteMutation.isPending}
+                className="p-1 text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {canEdit && (
+          <>
+            {isSuggested && (
+              <p className="flex items-center text-xs text-amber-700 bg-amber-50 rounded p-2">
+                <Sparkles className="w-4 h-4 mr-2 shrink-0" />
+                Suggested from the transcript. Check the values before saving.
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              {VITAL_SIGNS.map((sign) => (
+                <div key={sign} className="space-y-1">
+                  <Label htmlFor={`vital-${sign}`} className="text-xs">
+                    {VITAL_SIGN_INFO[sign].label} ({VITAL_SIGN_INFO[sign].unit})
+                  </Label>
+                  <Input
+                    id={`vital-${sign}`}
+                    type="number"
+                    inputMode="decimal"
+                    step="any"
+                    min={VITAL_SIGN_INFO[sign].min}
+                    max={VITAL_SIGN_INFO[sign].max}
+                    value={form[sign]}
+                    onChange={(e) => setForm({ ...form, [sign]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => saveMutation.mutate()}
+              disabled={!hasValues || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Record Vitals"}
+            </Button>
+          </>
+        )}
+
+        {!canEdit && data?.vitals.length === 0 && (
+          <p className="text-sm text-gray-500">No vitals recorded for this consultation</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CreatePatient, OwnerInput } from "@shared/schema";
+import {
+  SPECIES,
+  SPECIES_LABELS,
+  SEXES,
+  SEX_LABELS,
+  formatAge,
+  isValidMicrochip,
+  type Species,
+  type Sex,
+} from "@shared/signalment";
+
+export type OwnerFormValues = Partial<OwnerInput>;
+export type PatientFormValues = Partial<Omit<CreatePatient, "ownerId" | "owner">>;
+
+// Neuter status is tri-state: yes, no, or not recorded.
+const NEUTERED_OPTIONS = [
+  { value: "yes", label: "Neutered" },
+  { value: "no", label: "Entire" },
+  { value: "unknown", label: "Unknown" },
+];
+
+function toNeuteredOption(neutered: boolean | null | undefined) {
+  return neutered === true ? "yes" : neutered === false ? "no" : "unknown";
+}
+
+function fromNeuteredOption(option: string) {
+  return option === "yes" ? true : option === "no" ? false : null;
+}
+
+// Mirrors the server's required fields so dialogs can validate before submitting.
+export function getPatientFormError(value: PatientFormValues): string | null {
+  if (!value.patientId?.trim() || !value.name?.trim() || !value.species) {
+    return "Patient ID, animal name and species are required";
+  }
+  if (value.microchipNumber?.trim() && !isValidMicrochip(value.microchipNumber)) {
+    return "Microchip number must be 15 digits (ISO), 9 digits or 10 hexadecimal characters";
+  }
+  return null;
+}
+
+type FieldsProps<T> = {
+  value: T;
+  onChange: (value: T) => void;
+  // Prefixes input ids so both field sets can appear in one dialog.
+  idPrefix?: string;
+  compact?: boolean;
+};
+
+export function OwnerFields({ value, onChange, idPrefix = "owner", compact = false }: FieldsProps<OwnerFormValues>) {
+  return (
+    <div className={compact ? "space-y-4" : "grid grid-cols-2 gap-4"}>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Name`}>Owner Name *</Label>
+        <Input
+          id={`${idPrefix}Name`}
+          value={value.name || ""}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          placeholder="Enter owner name"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Phone`}>Phone</Label>
+        <Input
+          id={`${idPrefix}Phone`}
+          value={value.phone || ""}
+          onChange={(e) => onChange({ ...value, phone: e.target.value })}
+          placeholder="Phone number"
+        />
+      </div>
+      {!compact && (
+        <>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor={`${idPrefix}Email`}>Email</Label>
+            <Input
+              id={`${idPrefix}Email`}
+              type="email"
+              value={value.email || ""}
+              onChange={(e) => onChange({ ...value, email: e.target.value })}
+              placeholder="owner@email.com"
+            />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor={`${idPrefix}Address`}>Address</Label>
+            <Textarea
+              id={`${idPrefix}Address`}
+              value={value.address || ""}
+              onChange={(e) => onChange({ ...value, address: e.target.value })}
+              placeholder="Owner address"
+              rows={2}
+            />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor={`${idPrefix}Notes`}>Owner Notes</Label>
+            <Textarea
+              id={`${idPrefix}Notes`}
+              value={value.notes || ""}
+              onChange={(e) => onChange({ ...value, notes: e.target.value })}
+              placeholder="Billing preferences, contact notes, etc."
+              rows={2}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function PatientFields({ value, onChange, idPrefix = "patient", compact = false }: FieldsProps<PatientFormValues>) {
+  return (
+    <div className={compact ? "space-y-4" : "grid grid-cols-2 gap-4"}>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Id`}>Patient ID *</Label>
+        <Input
+          id={`${idPrefix}Id`}
+          value={value.patientId || ""}
+          onChange={(e) => onChange({ ...value, patientId: e.target.value })}
+          placeholder="Patient ID"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Name`}>Animal Name *</Label>
+        <Input
+          id={`${idPrefix}Name`}
+          value={value.name || ""}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          placeholder="Animal's name"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Species`}>Species *</Label>
+        <Select
+          value={value.species || ""}
+          onValueChange={(species) => onChange({ ...value, species: species as Species })}
+        >
+          <SelectTrigger id={`${idPrefix}Species`}>
+            <SelectValue placeholder="Select species" />
+          </SelectTrigger>
+          <SelectContent>
+            {SPECIES.map((species) => (
+              <SelectItem key={species} value={species}>
+                {SPECIES_LABELS[species]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Breed`}>Breed</Label>
+        <Input
+          id={`${idPrefix}Breed`}
+          value={value.breed || ""}
+          onChange={(e) => onChange({ ...value, breed: e.target.value })}
+          placeholder="Breed"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Sex`}>Sex</Label>
+        <Select
+          value={value.sex || ""}
+          onValueChange={(sex) => onChange({ ...value, sex: sex as Sex })}
+        >
+          <SelectTrigger id={`${idPrefix}Sex`}>
+            <SelectValue placeholder="Select sex" />
+          </SelectTrigger>
+          <SelectContent>
+            {SEXES.map((sex) => (
+              <SelectItem key={sex} value={sex}>
+                {SEX_LABELS[sex]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Neutered`}>Neuter Status</Label>
+        <Select
+          value={toNeuteredOption(value.neutered)}
+          onValueChange={(option) => onChange({ ...value, neutered: fromNeuteredOption(option) })}
+        >
+          <SelectTrigger id={`${idPrefix}Neutered`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NEUTERED_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}DateOfBirth`}>Date of Birth</Label>
+        <Input
+          id={`${idPrefix}DateOfBirth`}
+          type="date"
+          value={value.dateOfBirth || ""}
+          max={new Date().toISOString().slice(0, 10)}
+          onChange={(e) => onChange({ ...value, dateOfBirth: e.target.value || null })}
+        />
+        {value.dateOfBirth && formatAge(value.dateOfBirth) && (
+          <p className="text-xs text-gray-500">Age: {formatAge(value.dateOfBirth)}</p>
+        )}
+      </div>
+      {!compact && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}Colour`}>Colour / Markings</Label>
+            <Input
+              id={`${idPrefix}Colour`}
+              value={value.colour || ""}
+              onChange={(e) => onChange({ ...value, colour: e.target.value })}
+              placeholder="e.g. Black with white chest"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}Microchip`}>Microchip Number</Label>
+            <Input
+              id={`${idPrefix}Microchip`}
+              value={value.microchipNumber || ""}
+              onChange={(e) => onChange({ ...value, microchipNumber: e.target.value })}
+              placeholder="15-digit ISO number"
+            />
+            {value.microchipNumber?.trim() && !isValidMicrochip(value.microchipNumber) && (
+              <p className="text-xs text-red-600">Expected 15 digits, 9 digits or 10 hex characters</p>
+            )}
+          </div>
+        </>
+      )}
+      {!compact && (
+        <div className="col-span-2 space-y-2">
+          <Label htmlFor={`${idPrefix}Notes`}>Notes</Label>
+          <Textarea
+            id={`${idPrefix}Notes`}
+            value={value.notes || ""}
+            onChange={(e) => onChange({ ...value, notes: e.target.value })}
+            placeholder="Additional notes about the animal"
+            rows={2}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight, PackageCheck, Pill, Plus, Printer, Square, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { PrescriptionWithHistory } from "@shared/schema";
+import {
+  MEDICATION_ROUTES,
+  MEDICATION_ROUTE_LABELS,
+  formatDirections,
+  getPrescriptionEndDate,
+  isCurrentPrescription,
+  type MedicationRoute,
+} from "@shared/prescriptions";
+import { toDateString } from "@shared/vaccinations";
+
+type PatientPrescriptionsProps = {
+  patientId: number;
+  // When set, new prescriptions are linked to this consultation and only its prescriptions are listed.
+  consultationId?: number;
+};
+
+type PrescriptionForm = {
+  drug: string;
+  strength: string;
+  dose: string;
+  route: MedicationRoute;
+  frequency: string;
+  durationDays: string;
+  quantity: string;
+  refills: string;
+  startDate: string;
+  instructions: string;
+};
+
+function emptyForm(): PrescriptionForm {
+  return {
+    drug: "",
+    strength: "",
+    dose: "",
+    route: "oral",
+    frequency: "",
+    durationDays: "",
+    quantity: "",
+    refills: "0",
+    startDate: toDateString(new Date()),
+    instructions: "",
+  };
+}
+
+function downloadFile(url: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = '';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export default function PatientPrescriptions({ patientId, consultationId }: PatientPrescriptionsProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PrescriptionForm>(emptyForm);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  const canPrescribe = can("prescriptions:prescribe");
+  const canDispense = can("consultations:edit");
+  const patientKey = [`/api/patients/${patientId}/prescriptions`];
+  const consultationKey = [`/api/consultations/${consultationId}/prescriptions`];
+
+  const { data: prescriptions, isLoading } = useQuery<PrescriptionWithHistory[]>({
+    queryKey: consultationId ? consultationKey : patientKey,
+    staleTime: 0,
+  });
+
+  const invalidatePrescriptions = () => {
+    queryClient.invalidateQueries({ queryKey: patientKey });
+    if (consultationId) {
+      queryClient.invalidateQueries({ queryKey: consultationKey });
+    }
+  };
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ` + getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/patients/${patientId}/prescriptions`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...form,
+          strength: form.strength || null,
+          durationDays: form.durationDays ? Number(form.durationDays) : null,
+          refills: Number(form.refills || 0),
+          instructions: form.instructions || null,
+          consultationId: consultationId ?? null,
+        }),
+      });
+    },
+    onSuccess: () => {
+      invalidatePrescriptions();
+      setForm(emptyForm());
+    },
+    onError: onError("create prescription"),
+  });
+
+  const dispenseMutation = useMutation({
+    mutationFn: async (prescriptionId: number) => {
+      return await apiRequest(`/api/prescriptions/${prescriptionId}/dispense`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      });
+    },
+    onSuccess: () => {
+      invalidatePrescriptions();
+      toast({
+        title: "Dispensed",
+        description: "Refill recorded successfully.",
+      });
+    },
+    onError: onError("record refill"),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (prescriptionId: number) => {
+      return await apiRequest(`/api/prescriptions/${prescriptionId}/stop`, { method: "POST" });
+    },
+    onSuccess: invalidatePrescriptions,
+    onError: onError("stop prescription"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (prescriptionId: number) => {
+      return await apiRequest(`/api/prescriptions/${prescriptionId}`, { method: "DELETE" });
+    },
+    onSuccess: invalidatePrescriptions,
+    onError: onError("delete prescription"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // A consultation lists everything prescribed during it; the patient view leads with current medications.
+  const current = (prescriptions || []).filter((prescription) => consultationId || isCurrentPrescription(prescription));
+  const past = consultationId ? [] : (prescriptions || []).filter((prescription) => !isCurrentPrescription(prescription));
+  const idPrefix = `prescription-${consultationId ?? patientId}`;
+  const isFormComplete = [form.drug, form.dose, form.frequency, form.quantity, form.startDate].every((value) => value.trim());
+
+  const renderPrescription = (prescription: PrescriptionWithHistory) => {
+    const isCurrent = isCurrentPrescription(prescription);
+    const endDate = getPrescriptionEndDate(prescription);
+    const isExpanded = expandedId === prescription.id;
+    return (
+      <div key={prescription.id} className="p-2 border rounded">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start">
+            <Pill className="w-4 h-4 mr-2 mt-0.5 text-gray-400 shrink-0" />
+            <div>
+              <div className="flex items-center gap-2">
+                <span className={`text-sm font-medium ${isCurrent ? "" : "text-gray-400"}`}>
+                  {[prescription.drug, prescription.strength].filter(Boolean).join(" ")}
+                </span>
+                {!endDate && <Badge variant="outline" className="text-xs">Long-term</Badge>}
+                {prescription.stoppedAt && <Badge variant="secondary" className="text-xs">Stopped</Badge>}
+              </div>
+              <p className="text-xs text-gray-600">{formatDirections(prescription)}</p>
+              <p className="text-xs text-gray-500">
+                {[
+                  `Started ${prescription.startDate}`,
+                  prescription.stoppedAt ? `stopped ${prescription.stoppedAt}` : endDate && `until ${endDate}`,
+                  `Qty ${prescription.quantity}`,
+                  `${prescription.refillsRemaining} of ${prescription.refills} refills left`,
+                  prescription.prescriberName && `by ${prescription.prescriberName}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              {prescription.instructions && <p className="text-xs text-gray-500 italic">{prescription.instructions}</p>}
+            </div>
+          </div>
+          <div className="flex shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Print label"
+              onClick={() => downloadFile(`/api/prescriptions/${prescription.id}/label`)}
+              className="p-1"
+            >
+              <Printer className="w-4 h-4" />
+            </Button>
+            {canDispense && isCurrent && prescription.refillsRemaining > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Dispense refill"
+                onClick={() => dispenseMutation.mutate(prescription.id)}
+                disabled={dispenseMutation.isPending}
+                className="p-1"
+              >
+                <PackageCheck className="w-4 h-4" />
+              </Button>
+            )}
+            {canPrescribe && isCurrent && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Stop medication"
+                onClick={() => stopMutation.mutate(prescription.id)}
+                disabled={stopMutation.isPending}
+                className="p-1"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            )}
+            {canPrescribe && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(prescription.id)}
+                disabled={deleteMutation.isPending}
+                className="p-1 text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <button
+          type="button"
+          className="flex items-center mt-1 text-xs text-gray-500 hover:text-gray-700"
+          onClick={() => setExpandedId(isExpanded ? null : prescription.id)}
+        >
+          {isExpanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+          Dispensed {prescription.dispensings.length} time{prescription.dispensings.length === 1 ? "" : "s"}
+        </button>
+        {isExpanded && (
+          <ul className="mt-1 ml-4 space-y-0.5 text-xs text-gray-600">
+            {prescription.dispensings.map((dispensing, index) => (
+              <li key={dispensing.id}>
+                {new Date(dispensing.dispensedAt).toLocaleString()} · {dispensing.quantity}
+                {dispensing.dispensedByName && ` · ${dispensing.dispensedByName}`}
+                {index === 0 ? " (original fill)" : " (refill)"}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {current.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {consultationId ? "No prescriptions for this consultation" : "No current medications"}
+        </p>
+      ) : (
+        <div className="space-y-2">{current.map(renderPrescription)}</div>
+      )}
+
+      {consultationId && current.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => downloadFile(`/api/consultations/${consultationId}/export?type=prescriptions`)}
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Print Labels (.docx)
+        </Button>
+      )}
+
+      {past.length > 0 && (
+        <div>
+          <button
+            type="button"
+            className="flex items-center text-sm text-gray-600 hover:text-gray-800"
+            onClick={() => setShowPast(!showPast)}
+          >
+            {showPast ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+            Past medications ({past.length})
+          </button>
+          {showPast && <div className="mt-2 space-y-2">{past.map(renderPrescription)}</div>}
+        </div>
+      )}
+
+      {canPrescribe && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={form.drug}
+              onChange={(e) => setForm({ ...form, drug: e.target.value })}
+              placeholder="Drug"
+            />
+            <Input
+              value={form.strength}
+              onChange={(e) => setForm({ ...form, strength: e.target.value })}
+              placeholder="Strength (e.g. 50 mg)"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              value={form.dose}
+              onChange={(e) => setForm({ ...form, dose: e.target.value })}
+              placeholder="Dose (e.g. 1 tablet)"
+            />
+            <Select value={form.route} onValueChange={(route) => setForm({ ...form, route: route as MedicationRoute })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEDICATION_ROUTES.map((route) => (
+                  <SelectItem key={route} value={route}>
+                    {MEDICATION_ROUTE_LABELS[route]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={form.frequency}
+              onChange={(e) => setForm({ ...form, frequency: e.target.value })}
+              placeholder="Frequency (e.g. twice daily)"
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-duration`} className="text-xs">Duration (days)</Label>
+              <Input
+                id={`${idPrefix}-duration`}
+                type="number"
+                min={1}
+                value={form.durationDays}
+                onChange={(e) => setForm({ ...form, durationDays: e.target.value })}
+                placeholder="Long-term"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-quantity`} className="text-xs">Quantity</Label>
+              <Input
+                id={`${idPrefix}-quantity`}
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                placeholder="e.g. 14 tablets"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-refills`} className="text-xs">Refills</Label>
+              <Input
+                id={`${idPrefix}-refills`}
+                type="number"
+                min={0}
+                max={12}
+                value={form.refills}
+                onChange={(e) => setForm({ ...form, refills: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-start`} className="text-xs">Start date</Label>
+              <Input
+                id={`${idPrefix}-start`}
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <Textarea
+            value={form.instructions}
+            onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+            placeholder="Additional instructions (e.g. give with food)"
+            rows={2}
+          />
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => addMutation.mutate()}
+              disabled={!isFormComplete || addMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Prescribe
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
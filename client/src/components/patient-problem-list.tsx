@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { AllergyInput, PatientProblemList, ProblemInput } from "@shared/schema";
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_SEVERITY_LABELS,
+  PROBLEM_STATUS_LABELS,
+  type AllergySeverity,
+  type ProblemStatus,
+} from "@shared/problem-list";
+
+function problemListKey(patientId: number) {
+  return [`/api/patients/${patientId}/problem-list`];
+}
+
+export function useProblemList(patientId: number | null | undefined) {
+  return useQuery<PatientProblemList>({
+    queryKey: problemListKey(patientId ?? 0),
+    enabled: !!patientId,
+    staleTime: 0,
+  });
+}
+
+// Warning shown wherever a patient with recorded allergies is about to be treated.
+export function AllergyAlert({ patientId }: { patientId: number | null | undefined }) {
+  const { data } = useProblemList(patientId);
+  if (!data || data.allergies.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Allergies recorded</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 space-y-0.5">
+          {data.allergies.map((allergy) => (
+            <li key={allergy.id}>
+              <span className="font-medium">{allergy.allergen}</span>
+              {" "}({ALLERGY_SEVERITY_LABELS[allergy.severity as AllergySeverity] ?? allergy.severity}
+              {allergy.reaction && `: ${allergy.reaction}`})
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+type PatientProblemListProps = {
+  patientId: number;
+  canEdit: boolean;
+};
+
+export default function PatientProblemList({ patientId, canEdit }: PatientProblemListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useProblemList(patientId);
+  const [newAllergy, setNewAllergy] = useState<Partial<AllergyInput>>({});
+  const [newProblem, setNewProblem] = useState<Partial<ProblemInput>>({});
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: problemListKey(patientId) });
+  };
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ` + getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const addAllergyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/patients/${patientId}/allergies`, {
+        method: "POST",
+        body: JSON.stringify(newAllergy),
+      });
+    },
+    onSuccess: () => {
+      onSuccess();
+      setNewAllergy({});
+    },
+    onError: onError("add allergy"),
+  });
+
+  const deleteAllergyMutation = useMutation({
+    mutationFn: async (allergyId: number) => {
+      return await apiRequest(`/api/allergies/${allergyId}`, { method: "DELETE" });
+    },
+    onSuccess,
+    onError: onError("delete allergy"),
+  });
+
+  const addProblemMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/patients/${patientId}/problems`, {
+        method: "POST",
+        body: JSON.stringify({ ...newProblem, onsetDate: newProblem.onsetDate || null }),
+      });
+    },
+    onSuccess: () => {
+      onSuccess();
+      setNewProblem({});
+    },
+    onError: onError("add problem"),
+  });
+
+  const updateProblemMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: ProblemStatus }) => {
+      return await apiRequest(`/api/problems/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ status }),
+      });
+    },
+    onSuccess,
+    onError: onError("update problem"),
+  });
+
+  const deleteProblemMutation = useMutation({
+    mutationFn: async (problemId: number) => {
+      return await apiRequest(`/api/problems/${problemId}`, { method: "DELETE" });
+    },
+    onSuccess,
+    onError: onError("delete problem"),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Allergies</h4>
+        {data.allergies.length === 0 ? (
+          <p className="text-sm text-gray-500">No known allergies</p>
+        ) : (
+          <div className="space-y-2">
+            {data.allergies.map((allergy) => (
+              <div key={allergy.id} className="flex items-start justify-between p-2 border border-red-200 bg-red-50 rounded">
+                <div>
+                  <p className="text-sm font-medium text-red-800">{allergy.allergen}</p>
+                  <p className="text-xs text-red-700">
+                    {[ALLERGY_SEVERITY_LABELS[allergy.severity as AllergySeverity], allergy.reaction]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteAllergyMutation.mutate(allergy.id)}
+                    disabled={deleteAllergyMutation.isPending}
+                    className="p-1 text-red-500 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && (
+          <div className="mt-3 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={newAllergy.allergen || ""}
+                onChange={(e) => setNewAllergy({ ...newAllergy, allergen: e.target.value })}
+                placeholder="Allergen"
+              />
+              <Select
+                value={newAllergy.severity || "unknown"}
+                onValueChange={(severity) => setNewAllergy({ ...newAllergy, severity: severity as AllergySeverity })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALLERGY_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {ALLERGY_SEVERITY_LABELS[severity]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newAllergy.reaction || ""}
+                onChange={(e) => setNewAllergy({ ...newAllergy, reaction: e.target.value })}
+                placeholder="Reaction (optional)"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addAllergyMutation.mutate()}
+                disabled={!newAllergy.allergen?.trim() || addAllergyMutation.isPending}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Problems &amp; Chronic Conditions</h4>
+        {data.problems.length === 0 ? (
+          <p className="text-sm text-gray-500">No problems recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {data.problems.map((problem) => (
+              <div key={problem.id} className="flex items-start justify-between p-2 border rounded">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`text-sm font-medium ${problem.status === "resolved" ? "text-gray-400 line-through" : ""}`}>
+                      {problem.name}
+                    </span>
+                    {problem.isChronic && <Badge variant="outline" className="text-xs">Chronic</Badge>}
+                    <Badge variant={problem.status === "active" ? "default" : "secondary"} className="text-xs">
+                      {PROBLEM_STATUS_LABELS[problem.status as ProblemStatus] ?? problem.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      problem.onsetDate && `Onset ${problem.onsetDate}`,
+                      problem.resolvedDate && `Resolved ${problem.resolvedDate}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={problem.status === "active" ? "Mark resolved" : "Reactivate"}
+                      onClick={() =>
+                        updateProblemMutation.mutate({
+                          id: problem.id,
+                          status: problem.status === "active" ? "resolved" : "active",
+                        })
+                      }
+                      disabled={updateProblemMutation.isPending}
+                      className="p-1"
+                    >
+                      {problem.status === "active" ? <CheckCircle2 className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteProblemMutation.mutate(problem.id)}
+                      disabled={deleteProblemMutation.isPending}
+                      className="p-1 text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canEdit && (
+          <div className="mt-3 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={newProblem.name || ""}
+                onChange={(e) => setNewProblem({ ...newProblem, name: e.target.value })}
+                placeholder="Problem or condition"
+              />
+              <Input
+                type="date"
+                aria-label="Onset date"
+                value={newProblem.onsetDate || ""}
+                onChange={(e) => setNewProblem({ ...newProblem, onsetDate: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`problem-chronic-${patientId}`}
+                  checked={Boolean(newProblem.isChronic)}
+                  onCheckedChange={(value) => setNewProblem({ ...newProblem, isChronic: Boolean(value) })}
+                />
+                <Label htmlFor={`problem-chronic-${patientId}`} className="text-sm">Chronic condition</Label>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addProblemMutation.mutate()}
+                disabled={!newProblem.name?.trim() || addProblemMutation.isPending}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Activity, ChevronDown, ChevronRight, FilePlus, FileText, Pill, Stethoscope, Syringe, type LucideIcon } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CLINICAL_EVENT_TYPES,
+  TIMELINE_EVENT_LABELS,
+  TIMELINE_EVENT_TYPES,
+  isDateOnly,
+  type TimelineEvent,
+  type TimelineEventType,
+} from "@shared/timeline";
+
+const EVENT_ICONS: Record<TimelineEventType, LucideIcon> = {
+  consultation: Stethoscope,
+  "soap-note": FileText,
+  addendum: FilePlus,
+  vitals: Activity,
+  vaccination: Syringe,
+  prescription: Pill,
+};
+
+const EVENT_COLOURS: Record<TimelineEventType, string> = {
+  consultation: "bg-blue-100 text-blue-700",
+  "soap-note": "bg-indigo-100 text-indigo-700",
+  addendum: "bg-slate-200 text-slate-700",
+  vitals: "bg-green-100 text-green-700",
+  vaccination: "bg-amber-100 text-amber-700",
+  prescription: "bg-purple-100 text-purple-700",
+};
+
+function formatOccurredAt(occurredAt: string) {
+  return isDateOnly(occurredAt) ? occurredAt : new Date(occurredAt).toLocaleString();
+}
+
+type PatientTimelineProps = {
+  patientId: number;
+};
+
+// Every record kept against a patient, newest first, filterable by type and date range.
+export default function PatientTimeline({ patientId }: PatientTimelineProps) {
+  const { can } = useAuth();
+  const canReadConsultations = can("consultations:read");
+  const availableTypes = TIMELINE_EVENT_TYPES.filter(
+    (type) => canReadConsultations || !CLINICAL_EVENT_TYPES.includes(type),
+  );
+  const [selectedTypes, setSelectedTypes] = useState<TimelineEventType[]>(availableTypes);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ types: selectedTypes.join(",") });
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data: events, isLoading } = useQuery<TimelineEvent[]>({
+    queryKey: [`/api/patients/${patientId}/timeline?${params}`],
+    staleTime: 0,
+  });
+
+  const toggleType = (type: TimelineEventType) => {
+    setSelectedTypes((current) =>
+      current.includes(type) ? current.filter((selected) => selected !== type) : [...current, type],
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {availableTypes.map((type) => (
+          <Button
+            key={type}
+            variant={selectedTypes.includes(type) ? "default" : "outline"}
+            size="sm"
+            onClick={() => toggleType(type)}
+          >
+            {TIMELINE_EVENT_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="timeline-from" className="text-xs">From</Label>
+          <Input id="timeline-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timeline-to" className="text-xs">To</Label>
+          <Input id="timeline-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        {(from || to) && (
+          <Button variant="ghost" size="sm" onClick={() => { setFrom(""); setTo(""); }}>
+            Clear dates
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          <span className="ml-2 text-sm text-gray-600">Loading timeline...</span>
+        </div>
+      ) : !events || events.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No records match these filters</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-4">
+          {events.map((event) => {
+            const Icon = EVENT_ICONS[event.type];
+            const isExpanded = expandedId === event.id;
+            return (
+              <li key={event.id} className="mb-6 ml-6">
+                <span className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ring-4 ring-white ${EVENT_COLOURS[event.type]}`}>
+                  <Icon className="w-4 h-4" />
+                </span>
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <h4 className="text-sm font-semibold text-gray-900">{event.title}</h4>
+                  <time className="text-xs text-gray-500">{formatOccurredAt(event.occurredAt)}</time>
+                </div>
+                {event.details.map((detail, index) => (
+                  <p key={index} className="text-sm text-gray-600">{detail}</p>
+                ))}
+                <div className="flex items-center gap-4 mt-1">
+                  {event.body && (
+                    <button
+                      type="button"
+                      className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                      onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                    >
+                      {isExpanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+                      {isExpanded ? "Hide note" : "Show note"}
+                    </button>
+                  )}
+                  {event.consultationId && canReadConsultations && (
+                    <Link href={`/consultation/${event.consultationId}`} className="text-xs text-primary hover:underline">
+                      Open consultation
+                    </Link>
+                  )}
+                </div>
+                {isExpanded && event.body && (
+                  <div className="mt-2 p-3 bg-gray-50 rounded text-sm whitespace-pre-wrap">{event.body}</div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Syringe, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { ClinicStaffMember, VaccinationInput, VaccinationWithAdministrator } from "@shared/schema";
+import {
+  VACCINATION_DUE_LABELS,
+  VACCINATION_SITES,
+  getVaccinationDueStatus,
+  toDateString,
+  type VaccinationDueStatus,
+} from "@shared/vaccinations";
+
+const DUE_BADGE_CLASSES: Record<VaccinationDueStatus, string> = {
+  overdue: "bg-red-100 text-red-800 hover:bg-red-100",
+  "due-soon": "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  current: "bg-green-100 text-green-800 hover:bg-green-100",
+};
+
+export function VaccinationDueBadge({ nextDueDate }: { nextDueDate: string | null }) {
+  const status = getVaccinationDueStatus(nextDueDate);
+  if (!status) {
+    return null;
+  }
+  return <Badge className={`text-xs ${DUE_BADGE_CLASSES[status]}`}>{VACCINATION_DUE_LABELS[status]}</Badge>;
+}
+
+type PatientVaccinationsProps = {
+  patientId: number;
+  canEdit: boolean;
+  // When set, new entries are linked to this consultation and only its entries are listed.
+  consultationId?: number;
+};
+
+type VaccinationForm = Partial<Record<keyof VaccinationInput, string>>;
+
+function emptyForm(): VaccinationForm {
+  return { administeredAt: toDateString(new Date()) };
+}
+
+export default function PatientVaccinations({ patientId, canEdit, consultationId }: PatientVaccinationsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<VaccinationForm>(emptyForm);
+  const patientKey = [`/api/patients/${patientId}/vaccinations`];
+  const consultationKey = [`/api/consultations/${consultationId}/vaccinations`];
+
+  const { data: vaccinations, isLoading } = useQuery<VaccinationWithAdministrator[]>({
+    queryKey: consultationId ? consultationKey : patientKey,
+    staleTime: 0,
+  });
+
+  const { data: staff } = useQuery<ClinicStaffMember[]>({
+    queryKey: ["/api/clinic/staff"],
+    enabled: canEdit,
+  });
+
+  const invalidateVaccinations = () => {
+    queryClient.invalidateQueries({ queryKey: patientKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/vaccinations/due"] });
+    if (consultationId) {
+      queryClient.invalidateQueries({ queryKey: consultationKey });
+    }
+  };
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ` + getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/patients/${patientId}/vaccinations`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...form,
+          batchNumber: form.batchNumber || null,
+          expiryDate: form.expiryDate || null,
+          site: form.site || null,
+          nextDueDate: form.nextDueDate || null,
+          administeredById: form.administeredById || null,
+          consultationId: consultationId ?? null,
+        }),
+      });
+    },
+    onSuccess: () => {
+      invalidateVaccinations();
+      setForm(emptyForm());
+    },
+    onError: onError("record vaccination"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (vaccinationId: number) => {
+      return await apiRequest(`/api/vaccinations/${vaccinationId}`, { method: "DELETE" });
+    },
+    onSuccess: invalidateVaccinations,
+    onError: onError("delete vaccination"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const idPrefix = `vaccination-${consultationId ?? patientId}`;
+
+  return (
+    <div className="space-y-4">
+      {!vaccinations || vaccinations.length === 0 ? (
+        <p className="text-sm text-gray-500">No vaccinations recorded</p>
+      ) : (
+        <div className="space-y-2">
+          {vaccinations.map((vaccination) => (
+            <div key={vaccination.id} className="flex items-start justify-between p-2 border rounded">
+              <div className="flex items-start">
+                <Syringe className="w-4 h-4 mr-2 mt-0.5 text-gray-400 shrink-0" />
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{vaccination.vaccine}</span>
+                    {!consultationId && <VaccinationDueBadge nextDueDate={vaccination.nextDueDate} />}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      `Given ${vaccination.administeredAt}`,
+                      vaccination.administeredByName && `by ${vaccination.administeredByName}`,
+                      vaccination.site,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      vaccination.batchNumber && `Batch ${vaccination.batchNumber}`,
+                      vaccination.expiryDate && `Exp. ${vaccination.expiryDate}`,
+                      vaccination.nextDueDate && `Next due ${vaccination.nextDueDate}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+              </div>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(vaccination.id)}
+                  disabled={deleteMutation.isPending}
+                  className="p-1 text-red-500 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={form.vaccine || ""}
+              onChange={(e) => setForm({ ...form, vaccine: e.target.value })}
+              placeholder="Vaccine"
+            />
+            <Input
+              value={form.batchNumber || ""}
+              onChange={(e) => setForm({ ...form, batchNumber: e.target.value })}
+              placeholder="Batch / lot number"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={form.site || ""} onValueChange={(site) => setForm({ ...form, site })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Site" />
+              </SelectTrigger>
+              <SelectContent>
+                {VACCINATION_SITES.map((site) => (
+                  <SelectItem key={site} value={site}>
+                    {site}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={form.administeredById || user?.id || ""}
+              onValueChange={(administeredById) => setForm({ ...form, administeredById })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Administered by" />
+              </SelectTrigger>
+              <SelectContent>
+                {staff?.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-given`} className="text-xs">Date given</Label>
+              <Input
+                id={`${idPrefix}-given`}
+                type="date"
+                value={form.administeredAt || ""}
+                onChange={(e) => setForm({ ...form, administeredAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-expiry`} className="text-xs">Batch expiry</Label>
+              <Input
+                id={`${idPrefix}-expiry`}
+                type="date"
+                value={form.expiryDate || ""}
+                onChange={(e) => setForm({ ...form, expiryDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-due`} className="text-xs">Next due</Label>
+              <Input
+                id={`${idPrefix}-due`}
+                type="date"
+                value={form.nextDueDate || ""}
+                onChange={(e) => setForm({ ...form, nextDueDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => addMutation.mutate()}
+              disabled={!form.vaccine?.trim() || !form.administeredAt || addMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Record Vaccination
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
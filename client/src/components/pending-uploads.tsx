@@ -0,0 +1,105 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CloudUpload, RotateCcw, Trash2, WifiOff } from "lucide-react";
+import { useOutboxState } from "@/hooks/use-upload-outbox";
+import { discardRecording, retryRecording } from "@/lib/upload-outbox";
+import type { StoredRecording } from "@/lib/recording-store";
+
+const STATUS_LABELS: Record<StoredRecording["status"], string> = {
+  recording: "Recording",
+  pending: "Waiting to upload",
+  uploading: "Uploading",
+  failed: "Upload failed",
+};
+
+function formatMinutes(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Recordings saved on this device that the server hasn't received yet.
+export default function PendingUploads() {
+  const { recordings, progress } = useOutboxState();
+  const waiting = recordings.filter((recording) => recording.status !== "recording");
+  if (waiting.length === 0) return null;
+
+  return (
+    <Card className="mb-8 border-blue-200">
+      <CardHeader>
+        <CardTitle className="flex items-center text-base">
+          <CloudUpload className="w-5 h-5 mr-2" />
+          Pending Uploads
+          <Badge variant="secondary" className="ml-2">{waiting.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Saved on this device and uploaded automatically when the connection allows.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {waiting.map((recording) => {
+          const upload = progress[recording.id];
+          const percent = upload ? Math.floor((upload.uploadedBytes / upload.totalBytes) * 100) : 0;
+          return (
+            <div key={recording.id} className="rounded border p-3">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">{recording.patientLabel}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(recording.startedAt).toLocaleString()} · {formatMinutes(recording.durationSeconds)} ·{" "}
+                    {(recording.size / (1024 * 1024)).toFixed(1)} MB
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={recording.status === "failed" ? "destructive" : "outline"}>
+                    {upload?.isOffline ? (
+                      <span className="flex items-center">
+                        <WifiOff className="w-3 h-3 mr-1" />
+                        Offline
+                      </span>
+                    ) : recording.status === "uploading" && upload ? (
+                      `Uploading ${percent}%`
+                    ) : (
+                      STATUS_LABELS[recording.status]
+                    )}
+                  </Badge>
+                  {recording.status === "failed" && (
+                    <Button variant="ghost" size="sm" onClick={() => void retryRecording(recording.id)} title="Retry now">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {recording.status !== "uploading" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-2 text-red-500 hover:text-red-700"
+                      onClick={() => {
+                        if (window.confirm("Discard this recording? It has not been uploaded and cannot be recovered.")) {
+                          void discardRecording(recording.id);
+                        }
+                      }}
+                      title="Discard recording"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {recording.status === "uploading" && upload && (
+                <div className="mt-2 h-2 rounded-full bg-blue-100">
+                  <div className="h-2 rounded-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+                </div>
+              )}
+              {recording.status === "failed" && recording.lastError && (
+                <p className="mt-2 text-xs text-red-600">
+                  {recording.lastError}
+                  {recording.nextAttemptAt && ` · retrying at ${new Date(recording.nextAttemptAt).toLocaleTimeString()}`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
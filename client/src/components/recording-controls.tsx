@@ -1,58 +1,89 @@
 import { useState, useRef, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Play, Pause, Square, Plus } from "lucide-react";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Customer, InsertCustomer } from "@shared/schema";
+import { appendChunk, createRecording, updateRecording, type StoredRecording } from "@/lib/recording-store";
+import { discardRecording, holdRecording, processOutbox, refreshOutbox } from "@/lib/upload-outbox";
+import {
+  OwnerFields,
+  PatientFields,
+  getPatientFormError,
+  type OwnerFormValues,
+  type PatientFormValues,
+} from "@/components/patient-form-fields";
+import { AllergyAlert } from "@/components/patient-problem-list";
+import type { Owner, PatientWithOwner } from "@shared/schema";
+import { formatSpecies } from "@shared/signalment";
+
+const NEW_OWNER = "new";
 
 type RecordingState = 'idle' | 'recording' | 'paused' | 'stopped';
 
+// Use appropriate file extension based on MIME type
+function getRecordingFileName(mimeType: string) {
+  return mimeType.includes('wav') ? 'recording.wav' :
+    mimeType.includes('ogg') ? 'recording.ogg' :
+    mimeType.includes('mp4') ? 'recording.mp4' : 'recording.webm';
+}
+
 type RecordingControlsProps = {
   onRecordingStateChange?: (state: RecordingState) => void;
 };
 
 export default function RecordingControls({ onRecordingStateChange }: RecordingControlsProps) {
   const [recordingState, setRecordingState] = useState<RecordingState>('idle');
-  const [selectedCustomerId, setSelectedCustomerId] = useState<string>('');
-  const [customerName, setCustomerName] = useState('');
+  const [selectedPatientId, setSelectedPatientId] = useState<string>('');
   const [duration, setDuration] = useState(0);
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
-  const [audioChunks, setAudioChunks] = useState<Blob[]>([]);
   const [consentConfirmed, setConsentConfirmed] = useState(false);
-  const [isCreateCustomerOpen, setIsCreateCustomerOpen] = useState(false);
-  const [newCustomer, setNewCustomer] = useState<Partial<InsertCustomer>>({});
+  const [isCreatePatientOpen, setIsCreatePatientOpen] = useState(false);
+  const [newPatientOwnerId, setNewPatientOwnerId] = useState<string>(NEW_OWNER);
+  const [newOwner, setNewOwner] = useState<OwnerFormValues>({});
+  const [newPatient, setNewPatient] = useState<PatientFormValues>({});
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Read when audio is saved, which happens outside React's render cycle.
+  const durationRef = useRef(0);
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  // Fetch customers for selection
-  const { data: customers } = useQuery<Customer[]>({
-    queryKey: ["/api/customers"],
+  // Fetch patients for selection, and owners for adding a patient to an existing household
+  const { data: patients } = useQuery<PatientWithOwner[]>({
+    queryKey: ["/api/patients"],
+  });
+  const { data: owners } = useQuery<Owner[]>({
+    queryKey: ["/api/owners"],
+    enabled: isCreatePatientOpen,
   });
 
-  // Create customer mutation
-  const createCustomerMutation = useMutation({
-    mutationFn: async (customerData: InsertCustomer) => {
-      return await apiRequest("/api/customers", {
+  // Create patient mutation, creating the owner too when needed
+  const createPatientMutation = useMutation({
+    mutationFn: async () => {
+      const ownerFields = newPatientOwnerId === NEW_OWNER
+        ? { owner: newOwner }
+        : { ownerId: parseInt(newPatientOwnerId) };
+      return await apiRequest("/api/patients", {
         method: "POST",
-        body: JSON.stringify(customerData),
-        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...newPatient, ...ownerFields }),
       });
     },
-    onSuccess: (newCustomer) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
-      setSelectedCustomerId(newCustomer.id.toString());
-      setCustomerName(newCustomer.name);
-      setIsCreateCustomerOpen(false);
-      setNewCustomer({});
+    onSuccess: (patient: PatientWithOwner) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/owners"] });
+      setSelectedPatientId(patient.id.toString());
+      setIsCreatePatientOpen(false);
+      setNewPatientOwnerId(NEW_OWNER);
+      setNewOwner({});
+      setNewPatient({});
       toast({
         title: "Success",
         description: "Patient created successfully",
@@ -72,61 +103,7 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
       }
       toast({
         title: "Error",
-        description: "Failed to create patient: " + error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
-  const uploadMutation = useMutation({
-    mutationFn: async (data: { audioBlob: Blob; customerName: string; customerId?: string }) => {
-      const formData = new FormData();
-      // Use appropriate file extension based on MIME type
-      const fileName = data.audioBlob.type.includes('wav') ? 'recording.wav' : 
-                      data.audioBlob.type.includes('ogg') ? 'recording.ogg' :
-                      data.audioBlob.type.includes('mp4') ? 'recording.mp4' : 'recording.webm';
-      formData.append('audio', data.audioBlob, fileName);
-      formData.append('customerName', data.customerName);
-      if (data.customerId) {
-        formData.append('customerId', data.customerId);
-      }
-      
-      const response = await fetch('/api/consultations', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include',
-      });
-      
-      if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`${response.status}: ${text}`);
-      }
-      
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Recording uploaded successfully. Processing transcription...",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
-      resetRecordingState();
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to upload recording: " + error.message,
+        description: "Failed to create patient: " + getErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -146,7 +123,8 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
 
   const startTimer = () => {
     intervalRef.current = setInterval(() => {
-      setDuration(prev => prev + 1);
+      durationRef.current += 1;
+      setDuration(durationRef.current);
     }, 1000);
   };
 
@@ -167,14 +145,14 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
   const resetRecordingState = () => {
     setRecordingState('idle');
     setDuration(0);
-    setAudioChunks([]);
+    durationRef.current = 0;
     setMediaRecorder(null);
     setConsentConfirmed(false);
     stopTimer();
   };
 
   const startRecording = async () => {
-    if (!customerName.trim()) {
+    if (!selectedPatientId) {
       toast({
         title: "Error",
         description: "Please select a patient before recording",
@@ -217,16 +195,83 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
       }
       
       const recorder = new MediaRecorder(stream, options);
-      
+      const mimeType = recorder.mimeType || options.mimeType || 'audio/webm';
+      const patient = patients?.find((candidate) => candidate.id.toString() === selectedPatientId);
+
+      // Audio is saved on this device as it is recorded, so a closed tab or a
+      // failed upload doesn't lose the consultation.
+      let recording: StoredRecording;
+      try {
+        recording = await createRecording({
+          userId: user!.id,
+          patientRecordId: parseInt(selectedPatientId),
+          patientLabel: patient ? `${patient.patientId} ${patient.name} (${patient.owner.name})` : 'Unknown patient',
+          mimeType,
+          fileName: getRecordingFileName(mimeType),
+        });
+      } catch (error) {
+        stream.getTracks().forEach(track => track.stop());
+        console.error("Error saving recording:", error);
+        toast({
+          title: "Error",
+          description: "This browser can't save recordings on this device. Check that site storage is allowed.",
+          variant: "destructive",
+        });
+        return;
+      }
+      const recordingId = recording.id;
+      const release = holdRecording(recordingId);
+      let saves = Promise.resolve();
+      let hasSaveFailed = false;
+
       // Collect chunks more frequently to ensure data integrity
       recorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          setAudioChunks(prev => [...prev, event.data]);
+          const data = event.data;
+          const seconds = durationRef.current;
+          saves = saves
+            .then(() => appendChunk(recordingId, data, seconds))
+            .catch((error) => {
+              console.error("Error saving audio chunk:", error);
+              if (!hasSaveFailed) {
+                hasSaveFailed = true;
+                toast({
+                  title: "Error",
+                  description: "Part of the recording could not be saved. The device may be out of storage.",
+                  variant: "destructive",
+                });
+              }
+            });
         }
       };
 
-      recorder.onstop = () => {
+      // Fires after the last chunk, so everything recorded is saved before it is queued.
+      recorder.onstop = async () => {
         stream.getTracks().forEach(track => track.stop());
+        await saves;
+        release();
+        try {
+          const saved = await updateRecording(recordingId, { status: 'pending' });
+          if (!saved || saved.size === 0) {
+            await discardRecording(recordingId);
+            toast({
+              title: "Error",
+              description: "No audio data was recorded. Please try again.",
+              variant: "destructive",
+            });
+            return;
+          }
+          await refreshOutbox();
+          void processOutbox();
+        } catch (error) {
+          console.error("Error queueing recording:", error);
+          resetRecordingState();
+          toast({
+            title: "Error",
+            description: "The recording could not be queued for upload: " + getErrorMessage(error),
+            variant: "destructive",
+          });
+        }
       };
 
       setMediaRecorder(recorder);
@@ -262,39 +307,7 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
   const stopRecording = () => {
     if (mediaRecorder) {
       mediaRecorder.stop();
-      stopTimer();
-      
-      // Wait for final data and create blob
-      setTimeout(() => {
-        if (audioChunks.length === 0) {
-          toast({
-            title: "Error", 
-            description: "No audio data was recorded. Please try again.",
-            variant: "destructive",
-          });
-          resetRecordingState();
-          return;
-        }
-
-        // Create audio blob with proper MIME type
-        const mimeType = mediaRecorder.mimeType || 'audio/webm';
-        const audioBlob = new Blob(audioChunks, { type: mimeType });
-        
-        // Verify blob has content
-        if (audioBlob.size === 0) {
-          toast({
-            title: "Error",
-            description: "Recording is empty. Please try again.",
-            variant: "destructive",
-          });
-          resetRecordingState();
-          return;
-        }
-
-        console.log(`Created audio blob: ${audioBlob.size} bytes, type: ${mimeType}`);
-        uploadMutation.mutate({ audioBlob, customerName, customerId: selectedCustomerId });
-        resetRecordingState();
-      }, 100); // Small delay to ensure all data is collected
+      resetRecordingState();
     }
   };
 
@@ -349,125 +362,107 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
           </>
         ) : (
           <>
-            {/* Customer Selection */}
+            {/* Patient Selection */}
             <div className="mb-6">
-              <Label htmlFor="customer">Select Patient *</Label>
+              <Label htmlFor="patient">Select Patient *</Label>
               <div className="flex gap-2 mt-2">
                 <Select 
-                  value={selectedCustomerId} 
-                  onValueChange={(value) => {
-                    setSelectedCustomerId(value);
-                    const selectedCustomer = customers?.find(c => c.id.toString() === value);
-                    if (selectedCustomer) {
-                      setCustomerName(selectedCustomer.name);
-                    }
-                  }}
+                  value={selectedPatientId} 
+                  onValueChange={setSelectedPatientId}
                   disabled={recordingState !== 'idle'}
                 >
                   <SelectTrigger className="flex-1">
                   <SelectValue placeholder="Choose a patient or add new one" />
                   </SelectTrigger>
                   <SelectContent>
-                    {customers?.map((customer) => (
-                      <SelectItem key={customer.id} value={customer.id.toString()}>
+                    {patients?.map((patient) => (
+                      <SelectItem key={patient.id} value={patient.id.toString()}>
                         <div className="flex items-center">
-                          <span className="font-medium">{customer.patientId}</span>
-                          <span className="ml-2">{customer.petName || "Pet"}</span>
-                          <span className="ml-2 text-sm text-gray-500">({customer.name})</span>
+                          <span className="font-medium">{patient.patientId}</span>
+                          <span className="ml-2">{patient.name}</span>
+                          {formatSpecies(patient.species) && (
+                            <span className="ml-2 text-sm text-gray-500">{formatSpecies(patient.species)}</span>
+                          )}
+                          <span className="ml-2 text-sm text-gray-500">({patient.owner.name})</span>
                         </div>
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-                <Dialog open={isCreateCustomerOpen} onOpenChange={setIsCreateCustomerOpen}>
+                <Dialog open={isCreatePatientOpen} onOpenChange={setIsCreatePatientOpen}>
                   <DialogTrigger asChild>
                     <Button variant="outline" size="sm" disabled={recordingState !== 'idle'}>
                       <Plus className="w-4 h-4 mr-1" />
                       Add Patient
                     </Button>
                   </DialogTrigger>
-                  <DialogContent className="max-w-md">
+                  <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>Add New Patient</DialogTitle>
                     </DialogHeader>
                     <div className="space-y-4">
-                      <div>
-                        <Label htmlFor="newPatientId">Patient ID *</Label>
-                        <Input
-                          id="newPatientId"
-                          value={newCustomer.patientId || ""}
-                          onChange={(e) => setNewCustomer({ ...newCustomer, patientId: e.target.value })}
-                          placeholder="Enter patient ID"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="newCustomerName">Client Name *</Label>
-                        <Input
-                          id="newCustomerName"
-                          value={newCustomer.name || ""}
-                          onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
-                          placeholder="Enter client name"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="newPetName">Pet Name</Label>
-                        <Input
-                          id="newPetName"
-                          value={newCustomer.petName || ""}
-                          onChange={(e) => setNewCustomer({ ...newCustomer, petName: e.target.value })}
-                          placeholder="Pet's name"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="newPetBreed">Pet Breed</Label>
-                        <Input
-                          id="newPetBreed"
-                          value={newCustomer.petBreed || ""}
-                          onChange={(e) => setNewCustomer({ ...newCustomer, petBreed: e.target.value })}
-                          placeholder="Breed"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="newPhone">Phone</Label>
-                        <Input
-                          id="newPhone"
-                          value={newCustomer.phone || ""}
-                          onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
-                          placeholder="Phone number"
-                        />
+                      <div className="space-y-2">
+                        <Label htmlFor="newPatientOwner">Owner</Label>
+                        <Select value={newPatientOwnerId} onValueChange={setNewPatientOwnerId}>
+                          <SelectTrigger id="newPatientOwner">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NEW_OWNER}>New owner</SelectItem>
+                            {owners?.map((owner) => (
+                              <SelectItem key={owner.id} value={owner.id.toString()}>
+                                {owner.name}
+                                {owner.phone && <span className="ml-2 text-sm text-gray-500">{owner.phone}</span>}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
+                      {newPatientOwnerId === NEW_OWNER && (
+                        <OwnerFields value={newOwner} onChange={setNewOwner} idPrefix="newOwner" compact />
+                      )}
+                      <PatientFields value={newPatient} onChange={setNewPatient} idPrefix="newPatient" compact />
                     </div>
                       <div className="flex justify-end space-x-2 mt-6">
-                        <Button variant="outline" onClick={() => setIsCreateCustomerOpen(false)}>
+                        <Button variant="outline" onClick={() => setIsCreatePatientOpen(false)}>
                           Cancel
                         </Button>
                         <Button 
                           onClick={() => {
-                          if (!newCustomer.patientId?.trim() || !newCustomer.name?.trim()) {
+                          const patientError = newPatientOwnerId === NEW_OWNER && !newOwner.name?.trim()
+                            ? "Owner name is required"
+                            : getPatientFormError(newPatient);
+                          if (patientError) {
                             toast({
                               title: "Error",
-                              description: "Patient ID and client name are required",
+                              description: patientError,
                               variant: "destructive",
                             });
                             return;
                           }
-                          createCustomerMutation.mutate(newCustomer as InsertCustomer);
+                          createPatientMutation.mutate();
                         }}
-                        disabled={createCustomerMutation.isPending}
+                        disabled={createPatientMutation.isPending}
                       >
-                        {createCustomerMutation.isPending ? "Creating..." : "Create Patient"}
+                        {createPatientMutation.isPending ? "Creating..." : "Create Patient"}
                       </Button>
                     </div>
                   </DialogContent>
                 </Dialog>
               </div>
-              {!customers || customers.length === 0 ? (
+              {!patients || patients.length === 0 ? (
                 <p className="text-sm text-gray-500 mt-2">
-                  No patients found. <span className="text-blue-600 cursor-pointer" onClick={() => setIsCreateCustomerOpen(true)}>Add your first patient</span> to begin.
+                  No patients found. <span className="text-blue-600 cursor-pointer" onClick={() => setIsCreatePatientOpen(true)}>Add your first patient</span> to begin.
                 </p>
               ) : null}
             </div>
 
+            {selectedPatientId && (
+              <div className="mb-6">
+                <AllergyAlert patientId={parseInt(selectedPatientId)} />
+              </div>
+            )}
+
             {/* Consent Reminder */}
             <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4">
               <div className="flex items-start space-x-3">
@@ -506,7 +501,7 @@ export default function RecordingControls({ onRecordingStateChange }: RecordingC
                   onClick={startRecording}
                   className="bg-secondary hover:bg-green-700 h-20 sm:h-24 text-2xl sm:text-4xl px-6 sm:px-16 py-6 sm:py-10 w-full sm:w-auto text-center leading-tight whitespace-normal [&_svg]:size-8 sm:[&_svg]:size-12"
                   style={{ minHeight: "96px" }}
-                  disabled={!selectedCustomerId || !customerName.trim() || !consentConfirmed}
+                  disabled={!selectedPatientId || !consentConfirmed}
                 >
                   <Play className="mr-3" size={48} />
                   Start Recording
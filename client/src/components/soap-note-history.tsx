@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitCompare, History } from "lucide-react";
+import { diffWords, type DiffPart } from "@/lib/text-diff";
+import type { Consultation, SoapNoteRevisionWithAuthor } from "@shared/schema";
+import { SOAP_SECTIONS, SOAP_SECTION_LABELS, type SoapNote } from "@shared/soap";
+
+type SoapNoteVersion = { key: string; label: string; content: SoapNote };
+
+const AI_DRAFT_KEY = "ai";
+
+function describeRevision(revision: SoapNoteRevisionWithAuthor) {
+  const author = revision.authorId ? revision.authorName || "Unknown user" : "AI";
+  return `${author} · ${new Date(revision.createdAt).toLocaleString()}`;
+}
+
+function DiffText({ parts, side }: { parts: DiffPart[]; side: "before" | "after" }) {
+  const hidden = side === "before" ? "added" : "removed";
+  return (
+    <p className="whitespace-pre-wrap text-sm text-gray-700 leading-relaxed">
+      {parts
+        .filter((part) => part.type !== hidden)
+        .map((part, index) =>
+          part.type === "equal" ? (
+            <span key={index}>{part.text}</span>
+          ) : part.type === "removed" ? (
+            <span key={index} className="bg-red-100 text-red-800 line-through">{part.text}</span>
+          ) : (
+            <span key={index} className="bg-green-100 text-green-800">{part.text}</span>
+          ),
+        )}
+    </p>
+  );
+}
+
+// Every saved version of the final SOAP note, and a side-by-side comparison of
+// any two of them or of a version with the current AI draft.
+export default function SoapNoteHistory({ consultation }: { consultation: Consultation }) {
+  const { data: revisions = [] } = useQuery<SoapNoteRevisionWithAuthor[]>({
+    queryKey: [`/api/consultations/${consultation.id}/revisions`],
+  });
+  const [fromKey, setFromKey] = useState<string>();
+  const [toKey, setToKey] = useState<string>();
+
+  const versions: SoapNoteVersion[] = [
+    ...(consultation.aiSoapNote
+      ? [{ key: AI_DRAFT_KEY, label: "AI draft (current)", content: consultation.aiSoapNote }]
+      : []),
+    ...revisions.map((revision, index) => ({
+      key: String(revision.id),
+      label: `Revision ${index + 1}: ${describeRevision(revision)}`,
+      content: revision.content,
+    })),
+  ];
+  if (versions.length === 0) return null;
+
+  // Defaults to what changed in the latest revision.
+  const to = versions.find((version) => version.key === toKey) ?? versions[versions.length - 1];
+  const from =
+    versions.find((version) => version.key === fromKey) ?? versions[Math.max(versions.indexOf(to) - 1, 0)];
+
+  const compareWithPrevious = (key: string) => {
+    const index = versions.findIndex((version) => version.key === key);
+    setToKey(key);
+    setFromKey(versions[Math.max(index - 1, 0)].key);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          SOAP Note History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No revisions saved yet.</p>
+        ) : (
+          <ul className="divide-y rounded border">
+            {revisions
+              .map((revision, index) => (
+                <li key={revision.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      Revision {index + 1}
+                      <span className="ml-2 font-normal text-gray-500">{describeRevision(revision)}</span>
+                    </p>
+                    {revision.reason && <p className="text-xs text-gray-600">{revision.reason}</p>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => compareWithPrevious(String(revision.id))}>
+                    <GitCompare className="w-4 h-4 mr-1" />
+                    Changes
+                  </Button>
+                </li>
+              ))
+              .reverse()}
+          </ul>
+        )}
+
+        {versions.length > 1 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Compare</Label>
+                <Select value={from.key} onValueChange={setFromKey}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.key} value={version.key}>{version.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>With</Label>
+                <Select value={to.key} onValueChange={setToKey}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.key} value={version.key}>{version.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {SOAP_SECTIONS.map((section) => {
+              const parts = diffWords(from.content[section], to.content[section]);
+              const isUnchanged = parts.every((part) => part.type === "equal");
+              return (
+                <div key={section}>
+                  <h4 className="mb-2 text-sm font-medium text-gray-900">
+                    {SOAP_SECTION_LABELS[section]}
+                    {isUnchanged && <span className="ml-2 font-normal text-gray-500">unchanged</span>}
+                  </h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="rounded bg-gray-50 p-3">
+                      <DiffText parts={parts} side="before" />
+                    </div>
+                    <div className="rounded bg-gray-50 p-3">
+                      <DiffText parts={parts} side="after" />
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
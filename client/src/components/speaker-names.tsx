@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { Consultation } from "@shared/schema";
+import { SUGGESTED_SPEAKER_NAMES, type SpeakerNames as SpeakerNameMap } from "@shared/transcription";
+
+type SpeakerNamesProps = {
+  consultation: Consultation;
+  // Speaker labels found in the transcript, in order of first appearance.
+  speakers: string[];
+  canEdit: boolean;
+};
+
+// Lets the vet say who "Speaker 1", "Speaker 2"… are, e.g. Vet and Owner.
+export default function SpeakerNames({ consultation, speakers, canEdit }: SpeakerNamesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [names, setNames] = useState<SpeakerNameMap>({});
+
+  useEffect(() => {
+    setNames(consultation.speakerNames ?? {});
+  }, [consultation.speakerNames]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/consultations/${consultation.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ speakerNames: names }),
+      });
+    },
+    onSuccess: (updated: Consultation) => {
+      queryClient.setQueryData([`/api/consultations/${consultation.id}`], updated);
+      toast({
+        title: "Speakers saved",
+        description: "Regenerate the SOAP note for the draft to use these names.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save speaker names: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isChanged = speakers.some((speaker) => (names[speaker] ?? "") !== (consultation.speakerNames?.[speaker] ?? ""));
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 p-3">
+      <p className="text-sm font-medium text-gray-700">Speakers</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {speakers.map((speaker) => (
+          <div key={speaker} className="space-y-1">
+            <Label htmlFor={`speaker-${speaker}`} className="text-xs text-gray-500">{speaker}</Label>
+            <Input
+              id={`speaker-${speaker}`}
+              list="speaker-name-suggestions"
+              value={names[speaker] ?? ""}
+              placeholder={speaker}
+              maxLength={50}
+              disabled={!canEdit}
+              onChange={(e) => setNames((current) => ({ ...current, [speaker]: e.target.value }))}
+            />
+          </div>
+        ))}
+      </div>
+      <datalist id="speaker-name-suggestions">
+        {SUGGESTED_SPEAKER_NAMES.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!isChanged || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Speakers"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { BookPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { Consultation, GlossaryTermInput, TranscriptSegment, TranscriptUpdate } from "@shared/schema";
+import { getSpeakerName } from "@shared/transcription";
+import { findCorrectedPhrase } from "@shared/glossary";
+
+type TranscriptEditorProps = {
+  consultation: Consultation;
+  segments: TranscriptSegment[];
+  onClose: () => void;
+};
+
+// Corrects the transcript line by line, or as one text when it has no segments.
+export default function TranscriptEditor({ consultation, segments, onClose }: TranscriptEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [texts, setTexts] = useState<Record<number, string>>(() =>
+    Object.fromEntries(segments.map((segment) => [segment.id, segment.text])),
+  );
+  const [fullText, setFullText] = useState(consultation.fullTranscription ?? "");
+  const [addedToGlossary, setAddedToGlossary] = useState<string[]>([]);
+
+  const changedSegments = segments.filter((segment) => texts[segment.id].trim() !== segment.text);
+  const hasSegments = segments.length > 0;
+  const isChanged = hasSegments ? changedSegments.length > 0 : fullText.trim() !== consultation.fullTranscription;
+  const hasEmptyLine = hasSegments ? segments.some((segment) => !texts[segment.id].trim()) : !fullText.trim();
+
+  const saveMutation = useMutation({
+    mutationFn: async (regenerateSoap: boolean) => {
+      const update: TranscriptUpdate = hasSegments
+        ? { segments: changedSegments.map((segment) => ({ id: segment.id, text: texts[segment.id] })), regenerateSoap }
+        : { fullTranscription: fullText, regenerateSoap };
+      return await apiRequest(`/api/consultations/${consultation.id}/transcript`, {
+        method: "PUT",
+        body: JSON.stringify(update),
+      });
+    },
+    onSuccess: (updated: Consultation, regenerateSoap) => {
+      queryClient.setQueryData([`/api/consultations/${consultation.id}`], updated);
+      queryClient.invalidateQueries({ queryKey: [`/api/consultations/${consultation.id}/segments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
+      toast({
+        title: "Transcript saved",
+        description: regenerateSoap
+          ? "A new AI draft is being generated from the corrected transcript."
+          : "The original machine transcript has been kept.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save transcript: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A correction like "a poke well" → "Apoquel" can be remembered so later
+  // transcripts get it right.
+  const glossaryMutation = useMutation({
+    mutationFn: async (input: GlossaryTermInput) => {
+      return await apiRequest("/api/glossary", {
+        method: "POST",
+        body: JSON.stringify(input),
+      });
+    },
+    onSuccess: (_term, input) => {
+      setAddedToGlossary((current) => [...current, `${input.mishearings[0]}→${input.term}`]);
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+      toast({
+        title: "Added to glossary",
+        description: `"${input.mishearings[0]}" will be transcribed as "${input.term}" from now on.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to add glossary term: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {hasSegments ? (
+        <div className="max-h-[32rem] overflow-y-auto space-y-2 pr-1">
+          {segments.map((segment) => {
+            const correction = findCorrectedPhrase(segment.text, texts[segment.id]);
+            return (
+              <div key={segment.id} className="space-y-1">
+                {segment.speaker && (
+                  <p className="text-xs font-medium text-gray-500">
+                    {getSpeakerName(segment.speaker, consultation.speakerNames)}
+                  </p>
+                )}
+                <Textarea
+                  value={texts[segment.id]}
+                  onChange={(e) => setTexts((current) => ({ ...current, [segment.id]: e.target.value }))}
+                  rows={2}
+                  className={texts[segment.id].trim() !== segment.text ? "border-amber-400" : undefined}
+                />
+                {correction && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-gray-600"
+                    onClick={() => glossaryMutation.mutate({ term: correction.term, mishearings: [correction.heard] })}
+                    disabled={
+                      glossaryMutation.isPending || addedToGlossary.includes(`${correction.heard}→${correction.term}`)
+                    }
+                  >
+                    <BookPlus className="w-3 h-3 mr-1" />
+                    Add "{correction.term}" to glossary (heard as "{correction.heard}")
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <Textarea value={fullText} onChange={(e) => setFullText(e.target.value)} rows={12} />
+      )}
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="ghost" onClick={onClose} disabled={saveMutation.isPending}>
+          Cancel
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => saveMutation.mutate(false)}
+          disabled={!isChanged || hasEmptyLine || saveMutation.isPending}
+        >
+          Save Transcript
+        </Button>
+        <Button onClick={() => saveMutation.mutate(true)} disabled={!isChanged || hasEmptyLine || saveMutation.isPending}>
+          Save and Regenerate SOAP
+        </Button>
+      </div>
+    </div>
+  );
+}
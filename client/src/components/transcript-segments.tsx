@@ -0,0 +1,66 @@
+import { useEffect, useRef } from "react";
+import type { TranscriptSegment } from "@shared/schema";
+import { getSpeakerName, listSpeakers, type SpeakerNames } from "@shared/transcription";
+
+const SPEAKER_COLOURS = ["text-blue-700", "text-emerald-700", "text-amber-700", "text-purple-700"];
+
+function formatTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+type TranscriptSegmentsProps = {
+  segments: TranscriptSegment[];
+  speakerNames: SpeakerNames | null;
+  // Playback position of the consultation audio.
+  currentTimeMs: number;
+  onSeek: (ms: number) => void;
+};
+
+// The transcript line by line; clicking a line plays the audio from there and
+// the line being played is highlighted.
+export default function TranscriptSegments({ segments, speakerNames, currentTimeMs, onSeek }: TranscriptSegmentsProps) {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const speakers = listSpeakers(segments);
+  const activeId = segments.find((segment) => currentTimeMs >= segment.startMs && currentTimeMs < segment.endMs)?.id;
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest" });
+  }, [activeId]);
+
+  return (
+    <div className="max-h-[32rem] overflow-y-auto space-y-1">
+      {segments.map((segment) => {
+        const isActive = segment.id === activeId;
+        return (
+          <button
+            key={segment.id}
+            ref={isActive ? activeRef : undefined}
+            type="button"
+            onClick={() => onSeek(segment.startMs)}
+            className={`flex w-full gap-3 rounded px-2 py-1 text-left text-sm leading-relaxed transition-colors ${
+              isActive ? "bg-primary/10 text-gray-900" : "text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            <span className="shrink-0 pt-0.5 font-mono text-xs text-gray-400">{formatTimestamp(segment.startMs)}</span>
+            <span>
+              {segment.speaker && (
+                <span className={`mr-1 font-medium ${SPEAKER_COLOURS[speakers.indexOf(segment.speaker) % SPEAKER_COLOURS.length]}`}>
+                  {getSpeakerName(segment.speaker, speakerNames)}:
+                </span>
+              )}
+              {segment.text}
+              {segment.originalText !== null && (
+                <span className="ml-1 text-xs text-amber-600" title={`Transcribed as: ${segment.originalText}`}>
+                  (corrected)
+                </span>
+              )}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Save, Trash2, Loader2 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import type { Consultation } from "@shared/schema";
+import { formatSoapNote } from "@shared/soap";
 
 export default function TranscriptionResults() {
   const [selectedConsultation, setSelectedConsultation] = useState<Consultation | null>(null);
@@ -62,8 +63,7 @@ export default function TranscriptionResults() {
                 <div className="bg-blue-50 rounded-lg p-4">
                   <h4 className="font-semibold text-gray-900 mb-3">SOAP Note</h4>
                   <div className="text-gray-800 whitespace-pre-wrap">
-                    {selectedConsultation.finalSoapNote ||
-                      selectedConsultation.aiSoapNote ||
+                    {formatSoapNote(selectedConsultation.finalSoapNote || selectedConsultation.aiSoapNote) ||
                       "No SOAP note available"}
                   </div>
                 </div>
@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Syringe } from "lucide-react";
+import { VaccinationDueBadge } from "@/components/patient-vaccinations";
+import type { DueVaccination } from "@shared/schema";
+import { DUE_SOON_DAYS } from "@shared/vaccinations";
+
+// Clinic-wide list of vaccinations that are overdue or due within DUE_SOON_DAYS.
+export default function VaccinationsDue() {
+  const { data: vaccinations } = useQuery<DueVaccination[]>({
+    queryKey: ["/api/vaccinations/due"],
+    staleTime: 0,
+  });
+
+  if (!vaccinations || vaccinations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Syringe className="w-5 h-5 mr-2" />
+          Vaccinations Overdue or Due in the Next {DUE_SOON_DAYS} Days
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {vaccinations.map((vaccination) => (
+            <div key={vaccination.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium">
+                  {vaccination.patient.name} · {vaccination.vaccine}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {[vaccination.patient.owner.name, vaccination.patient.owner.phone || vaccination.patient.owner.email]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-gray-600">{vaccination.nextDueDate}</span>
+                <VaccinationDueBadge nextDueDate={vaccination.nextDueDate} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-3 text-right">
+          <Link href="/customers" className="text-sm text-primary hover:underline">
+            Open patient records
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Activity } from "lucide-react";
+import type { PatientVitals } from "@shared/schema";
+import { VITAL_SIGNS, VITAL_SIGN_INFO, formatVital, type VitalSign } from "@shared/vitals";
+
+type VitalsTrendProps = {
+  patientId: number;
+};
+
+// Trend chart of one vital sign at a time for a patient, weight first.
+export default function VitalsTrend({ patientId }: VitalsTrendProps) {
+  const [sign, setSign] = useState<VitalSign>("weightKg");
+
+  const { data: vitals, isLoading } = useQuery<PatientVitals[]>({
+    queryKey: [`/api/patients/${patientId}/vitals`],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        <span className="ml-2 text-sm text-gray-600">Loading vitals...</span>
+      </div>
+    );
+  }
+
+  if (!vitals || vitals.length === 0) {
+    return <p className="text-gray-500 text-center py-4">No vitals recorded yet</p>;
+  }
+
+  const { label, unit } = VITAL_SIGN_INFO[sign];
+  const data = vitals
+    .filter((entry) => entry[sign] !== null)
+    .map((entry) => ({
+      date: new Date(entry.measuredAt).toLocaleDateString(),
+      value: entry[sign],
+    }));
+  const chartConfig = {
+    value: { label: `${label} (${unit})`, color: "var(--primary)" },
+  } satisfies ChartConfig;
+  const latest = [...vitals].reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {VITAL_SIGNS.map((option) => (
+          <Button
+            key={option}
+            variant={option === sign ? "default" : "outline"}
+            size="sm"
+            onClick={() => setSign(option)}
+          >
+            {VITAL_SIGN_INFO[option].label}
+          </Button>
+        ))}
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No {label.toLowerCase()} readings recorded</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+          <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis tickLine={false} axisLine={false} width={40} domain={["auto", "auto"]} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              dataKey="value"
+              type="monotone"
+              stroke="var(--color-value)"
+              strokeWidth={2}
+              dot={{ r: 3 }}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      <div className="space-y-1">
+        {latest.slice(0, 5).map((entry) => (
+          <div key={entry.id} className="flex items-center text-sm text-gray-600">
+            <Activity className="w-4 h-4 mr-2 text-gray-400" />
+            <span className="w-24 shrink-0">{new Date(entry.measuredAt).toLocaleDateString()}</span>
+            <span className="truncate">
+              {VITAL_SIGNS.map((option) => formatVital(option, entry[option]))
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Consultation, ConsultationEvent } from "@shared/schema";
+import { isSoapNoteEqual } from "@shared/soap";
+
+// Keeps cached consultations current from the GET /api/events stream, so
+// processing progress shows up without polling.
+export function useConsultationEvents(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource("/api/events");
+    let hasConnected = false;
+
+    source.onopen = () => {
+      // Changes made while the stream was down were missed; refetch to catch up.
+      if (hasConnected) {
+        queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
+      }
+      hasConnected = true;
+    };
+
+    const handleUpdated = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as Extract<ConsultationEvent, { type: "consultation.updated" }>;
+      const { consultation } = event;
+      const cached = queryClient.getQueryData<Consultation>([`/api/consultations/${consultation.id}`]);
+      // Segments change when the audio is transcribed again or speakers are identified.
+      if (
+        cached &&
+        (cached.fullTranscription !== consultation.fullTranscription || cached.processingStage !== consultation.processingStage)
+      ) {
+        queryClient.invalidateQueries({ queryKey: [`/api/consultations/${consultation.id}/segments`] });
+      }
+      // A new version of the final note means a new revision.
+      if (cached && !isSoapNoteEqual(cached.finalSoapNote, consultation.finalSoapNote)) {
+        queryClient.invalidateQueries({ queryKey: [`/api/consultations/${consultation.id}/revisions`] });
+      }
+      queryClient.setQueryData<Consultation>([`/api/consultations/${consultation.id}`], consultation);
+      queryClient.setQueryData<Consultation[]>(["/api/consultations"], (consultations) => {
+        if (!consultations) return consultations;
+        const exists = consultations.some((existing) => existing.id === consultation.id);
+        return exists
+          ? consultations.map((existing) => (existing.id === consultation.id ? consultation : existing))
+          : [consultation, ...consultations];
+      });
+    };
+
+    const handleDeleted = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as Extract<ConsultationEvent, { type: "consultation.deleted" }>;
+      queryClient.removeQueries({ queryKey: [`/api/consultations/${event.consultationId}`], exact: true });
+      queryClient.setQueryData<Consultation[]>(["/api/consultations"], (consultations) =>
+        consultations?.filter((consultation) => consultation.id !== event.consultationId),
+      );
+    };
+
+    source.addEventListener("consultation.updated", handleUpdated);
+    source.addEventListener("consultation.deleted", handleDeleted);
+    return () => source.close();
+  }, [enabled, queryClient]);
+}
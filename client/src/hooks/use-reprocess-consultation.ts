@@ -0,0 +1,48 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+
+type ReprocessAction = "retranscribe" | "regenerate-soap";
+
+const ACTION_MESSAGES: Record<ReprocessAction, { success: string; failure: string }> = {
+  retranscribe: {
+    success: "The audio has been queued for transcription again.",
+    failure: "Failed to retranscribe",
+  },
+  "regenerate-soap": {
+    success: "A new AI draft is being generated from the transcript. Edits to the final note are kept.",
+    failure: "Failed to regenerate SOAP note",
+  },
+};
+
+// Sends a consultation back through transcription or SOAP note generation.
+export function useReprocessConsultation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: ReprocessAction }) => {
+      return await apiRequest(`/api/consultations/${id}/${action}`, { method: "POST" });
+    },
+    onSuccess: (_data, { id, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/consultations/${id}`] });
+      toast({
+        title: "Queued",
+        description: ACTION_MESSAGES[action].success,
+      });
+    },
+    onError: (error, { action }) => {
+      toast({
+        title: "Error",
+        description: `${ACTION_MESSAGES[action].failure}: ` + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Retry picks up from the step that failed: SOAP generation if a transcript was saved.
+export function retryAction(consultation: { fullTranscription: string | null }): ReprocessAction {
+  return consultation.fullTranscription ? "regenerate-soap" : "retranscribe";
+}
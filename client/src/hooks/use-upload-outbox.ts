@@ -0,0 +1,32 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { getOutboxState, onRecordingUploaded, startOutbox, subscribeToOutbox } from "@/lib/upload-outbox";
+
+// Uploads the signed-in user's saved recordings in the background, on every
+// page, and announces each one that arrives.
+export function useUploadOutbox(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!userId) return;
+    const stop = startOutbox(userId);
+    const unsubscribe = onRecordingUploaded((recording) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
+      toast({
+        title: "Recording uploaded",
+        description: `${recording.patientLabel}: processing transcription...`,
+      });
+    });
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [userId, queryClient, toast]);
+}
+
+// Recordings waiting on this device and the progress of any being uploaded.
+export function useOutboxState() {
+  return useSyncExternalStore(subscribeToOutbox, getOutboxState);
+}
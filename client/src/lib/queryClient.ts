@@ -32,6 +32,19 @@ export async function apiRequest(
   return await res.json();
 }
 
+// Extracts the server's `message` from errors thrown by apiRequest,
+// which look like `400: {"message":"..."}`.
+export function getErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/^\d+: ([\s\S]*)$/);
+  if (!match) return message;
+  try {
+    return JSON.parse(match[1]).message || match[1];
+  } catch {
+    return match[1];
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,167 @@
+// Recordings kept in IndexedDB on this device: audio is saved chunk by chunk
+// while recording, so closing the tab or losing the connection never loses a
+// consultation. A recording stays here until the server confirms it arrived.
+
+const DB_NAME = "vetrecord";
+const DB_VERSION = 1;
+const RECORDINGS = "recordings";
+const CHUNKS = "chunks";
+
+// recording: audio still being captured; pending: waiting to upload;
+// uploading: on its way; failed: the last attempt failed and will be retried.
+export type StoredRecordingStatus = "recording" | "pending" | "uploading" | "failed";
+
+export type StoredRecording = {
+  id: string;
+  userId: string;
+  patientRecordId: number;
+  patientLabel: string;
+  mimeType: string;
+  fileName: string;
+  startedAt: number;
+  // Last time audio was saved; a "recording" that stopped updating was interrupted.
+  updatedAt: number;
+  size: number;
+  durationSeconds: number;
+  status: StoredRecordingStatus;
+  // Server upload to resume, once one has been started.
+  uploadId?: number;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+};
+
+type StoredChunk = {
+  recordingId: string;
+  data: Blob;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS, { keyPath: "id" });
+        const chunks = db.createObjectStore(CHUNKS, { autoIncrement: true });
+        chunks.createIndex("recordingId", "recordingId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs work in one transaction and resolves once it has been committed.
+async function transact<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+  // Reported by the await below; this only stops an unhandled rejection when work throws first.
+  committed.catch(() => undefined);
+  const result = await work(transaction);
+  await committed;
+  return result;
+}
+
+function newRecordingId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function createRecording(
+  recording: Pick<StoredRecording, "userId" | "patientRecordId" | "patientLabel" | "mimeType" | "fileName">,
+): Promise<StoredRecording> {
+  const now = Date.now();
+  const stored: StoredRecording = {
+    ...recording,
+    id: newRecordingId(),
+    startedAt: now,
+    updatedAt: now,
+    size: 0,
+    durationSeconds: 0,
+    status: "recording",
+    attempts: 0,
+  };
+  await transact([RECORDINGS], "readwrite", async (transaction) => {
+    await promisifyRequest(transaction.objectStore(RECORDINGS).add(stored));
+  });
+  return stored;
+}
+
+export async function appendChunk(recordingId: string, data: Blob, durationSeconds: number): Promise<void> {
+  await transact([RECORDINGS, CHUNKS], "readwrite", async (transaction) => {
+    const recordings = transaction.objectStore(RECORDINGS);
+    const recording = await promisifyRequest<StoredRecording | undefined>(recordings.get(recordingId));
+    if (!recording) return;
+    const chunk: StoredChunk = { recordingId, data };
+    await promisifyRequest(transaction.objectStore(CHUNKS).add(chunk));
+    await promisifyRequest(
+      recordings.put({
+        ...recording,
+        size: recording.size + data.size,
+        // The last chunk arrives after the recorder's timer has been reset.
+        durationSeconds: Math.max(recording.durationSeconds, durationSeconds),
+        updatedAt: Date.now(),
+      }),
+    );
+  });
+}
+
+export async function getRecordings(): Promise<StoredRecording[]> {
+  return await transact([RECORDINGS], "readonly", async (transaction) => {
+    const recordings = await promisifyRequest<StoredRecording[]>(transaction.objectStore(RECORDINGS).getAll());
+    return recordings.sort((a, b) => a.startedAt - b.startedAt);
+  });
+}
+
+export async function updateRecording(id: string, updates: Partial<StoredRecording>): Promise<StoredRecording | undefined> {
+  return await transact([RECORDINGS], "readwrite", async (transaction) => {
+    const recordings = transaction.objectStore(RECORDINGS);
+    const recording = await promisifyRequest<StoredRecording | undefined>(recordings.get(id));
+    if (!recording) return undefined;
+    const updated = { ...recording, ...updates };
+    await promisifyRequest(recordings.put(updated));
+    return updated;
+  });
+}
+
+// The saved audio as one file, chunks in the order they were recorded.
+export async function getRecordingAudio(recording: StoredRecording): Promise<Blob> {
+  return await transact([CHUNKS], "readonly", async (transaction) => {
+    const chunks = await promisifyRequest<StoredChunk[]>(
+      transaction.objectStore(CHUNKS).index("recordingId").getAll(recording.id),
+    );
+    return new Blob(chunks.map((chunk) => chunk.data), { type: recording.mimeType });
+  });
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await transact([RECORDINGS, CHUNKS], "readwrite", async (transaction) => {
+    transaction.objectStore(RECORDINGS).delete(id);
+    const keys = await promisifyRequest(transaction.objectStore(CHUNKS).index("recordingId").getAllKeys(id));
+    for (const key of keys) {
+      transaction.objectStore(CHUNKS).delete(key);
+    }
+  });
+}
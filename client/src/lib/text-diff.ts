@@ -0,0 +1,74 @@
+export type DiffPart = { type: "equal" | "removed" | "added"; text: string };
+
+// Above this many word pairs the changed middle is shown as replaced wholesale
+// rather than compared word by word.
+const MAX_COMPARISONS = 4000000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function push(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// Word-level diff of two texts (longest common subsequence), with whitespace
+// kept so each side can be shown as written.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, "equal", a.slice(0, start).join(""));
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > MAX_COMPARISONS) {
+    push(parts, "removed", a.slice(start, endA).join(""));
+    push(parts, "added", b.slice(start, endB).join(""));
+  } else {
+    // lengths[i * (cols + 1) + j]: common subsequence length of a[start + i..] and b[start + j..]
+    const lengths = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * (cols + 1) + j] =
+          a[start + i] === b[start + j]
+            ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        push(parts, "equal", a[start + i]);
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1])) {
+        push(parts, "removed", a[start + i]);
+        i++;
+      } else {
+        push(parts, "added", b[start + j]);
+        j++;
+      }
+    }
+  }
+
+  push(parts, "equal", a.slice(endA).join(""));
+  return parts;
+}
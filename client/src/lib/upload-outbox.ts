@@ -0,0 +1,217 @@
+import type { Consultation } from "@shared/schema";
+import { getErrorMessage } from "./queryClient";
+import { uploadRecording, type UploadProgress } from "./upload-recording";
+import {
+  deleteRecording,
+  getRecordingAudio,
+  getRecordings,
+  updateRecording,
+  type StoredRecording,
+} from "./recording-store";
+
+// Uploads finished recordings from the recording store one at a time, keeping
+// each until the server has created its consultation. Failed uploads are
+// retried with backoff and as soon as the browser comes back online. Only one
+// tab works through the outbox at a time; the others follow along.
+
+const OUTBOX_LOCK = "vetrecord-upload-outbox";
+const RECORDING_LOCK_PREFIX = "vetrecord-recording-";
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const POLL_INTERVAL_MS = 60 * 1000;
+// Without the Web Locks API, a recording that saved no audio for this long is
+// taken to have been cut off by a closed tab.
+const INTERRUPTED_AFTER_MS = 2 * 60 * 1000;
+
+export type OutboxState = {
+  recordings: StoredRecording[];
+  // Upload progress of recordings being sent from this tab.
+  progress: Record<string, UploadProgress>;
+};
+
+let state: OutboxState = { recordings: [], progress: {} };
+const listeners = new Set<() => void>();
+const uploadedListeners = new Set<(recording: StoredRecording, consultation: Consultation) => void>();
+const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel("vetrecord-upload-outbox");
+let currentUserId: string | null = null;
+let activeRecordingId: string | null = null;
+let isDraining = false;
+let drainAgain = false;
+
+function setState(updates: Partial<OutboxState>) {
+  state = { ...state, ...updates };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getOutboxState() {
+  return state;
+}
+
+export function onRecordingUploaded(listener: (recording: StoredRecording, consultation: Consultation) => void) {
+  uploadedListeners.add(listener);
+  return () => {
+    uploadedListeners.delete(listener);
+  };
+}
+
+async function refresh() {
+  const recordings = await getRecordings();
+  setState({ recordings: recordings.filter((recording) => recording.userId === currentUserId) });
+}
+
+// Reloads the outbox after a change and tells other tabs to do the same.
+export async function refreshOutbox() {
+  channel?.postMessage("changed");
+  await refresh();
+}
+
+function setProgress(id: string, progress: UploadProgress | null) {
+  const { [id]: _previous, ...rest } = state.progress;
+  setState({ progress: progress ? { ...rest, [id]: progress } : rest });
+}
+
+// Holds a lock for as long as the recording is being captured, so no tab
+// mistakes it for an interrupted one. Returns the release function.
+export function holdRecording(id: string): () => void {
+  activeRecordingId = id;
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  void navigator.locks?.request(RECORDING_LOCK_PREFIX + id, () => released);
+  return () => {
+    if (activeRecordingId === id) activeRecordingId = null;
+    release();
+  };
+}
+
+async function isRecordingInProgress(recording: StoredRecording): Promise<boolean> {
+  if (recording.id === activeRecordingId) return true;
+  if (navigator.locks) {
+    const { held = [] } = await navigator.locks.query();
+    return held.some((lock) => lock.name === RECORDING_LOCK_PREFIX + recording.id);
+  }
+  return Date.now() - recording.updatedAt < INTERRUPTED_AFTER_MS;
+}
+
+function isDue(recording: StoredRecording) {
+  if (recording.status === "pending") return true;
+  // Only the tab holding the outbox lock uploads, so an "uploading" recording
+  // found here was cut off mid-upload.
+  if (recording.status === "uploading") return true;
+  return recording.status === "failed" && (recording.nextAttemptAt ?? 0) <= Date.now();
+}
+
+async function uploadOne(recording: StoredRecording) {
+  await updateRecording(recording.id, { status: "uploading" });
+  await refreshOutbox();
+  try {
+    const audio = await getRecordingAudio(recording);
+    const consultation = await uploadRecording(audio, {
+      patientRecordId: recording.patientRecordId,
+      fileName: recording.fileName,
+      uploadId: recording.uploadId,
+      onStarted: (uploadId) => void updateRecording(recording.id, { uploadId }),
+      onProgress: (progress) => setProgress(recording.id, progress),
+    });
+    await deleteRecording(recording.id);
+    uploadedListeners.forEach((listener) => listener(recording, consultation));
+  } catch (error) {
+    const attempts = recording.attempts + 1;
+    await updateRecording(recording.id, {
+      status: "failed",
+      attempts,
+      lastError: getErrorMessage(error),
+      nextAttemptAt: Date.now() + Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS),
+    });
+  } finally {
+    setProgress(recording.id, null);
+    await refreshOutbox();
+  }
+}
+
+async function drain() {
+  const recordings = await getRecordings();
+  // Recover recordings cut off by a closed tab or a crash: keep what was captured.
+  for (const recording of recordings) {
+    if (recording.userId !== currentUserId || recording.status !== "recording") continue;
+    if (await isRecordingInProgress(recording)) continue;
+    if (recording.size === 0) {
+      await deleteRecording(recording.id);
+    } else {
+      await updateRecording(recording.id, { status: "pending" });
+    }
+  }
+
+  for (;;) {
+    const next = (await getRecordings()).find((recording) => recording.userId === currentUserId && isDue(recording));
+    if (!next) break;
+    await uploadOne(next);
+  }
+}
+
+// Uploads whatever is due. Safe to call at any time; overlapping calls are merged.
+export async function processOutbox() {
+  if (!currentUserId) return;
+  if (isDraining) {
+    drainAgain = true;
+    return;
+  }
+  isDraining = true;
+  try {
+    do {
+      drainAgain = false;
+      if (navigator.locks) {
+        // Another tab already working through the outbox will pick this up.
+        await navigator.locks.request(OUTBOX_LOCK, { ifAvailable: true }, async (lock) => {
+          if (lock) await drain();
+        });
+      } else {
+        await drain();
+      }
+    } while (drainAgain);
+    await refreshOutbox();
+  } catch (error) {
+    console.error("Error uploading recordings:", error);
+  } finally {
+    isDraining = false;
+  }
+}
+
+// Tries a failed recording again now rather than waiting for its next attempt.
+export async function retryRecording(id: string) {
+  await updateRecording(id, { status: "pending", nextAttemptAt: undefined });
+  await refreshOutbox();
+  void processOutbox();
+}
+
+export async function discardRecording(id: string) {
+  await deleteRecording(id);
+  await refreshOutbox();
+}
+
+// Starts uploading the signed-in user's recordings; returns a function that stops it.
+export function startOutbox(userId: string): () => void {
+  currentUserId = userId;
+  const process = () => void processOutbox();
+  const handleMessage = () => void refresh().catch(() => undefined);
+  window.addEventListener("online", process);
+  channel?.addEventListener("message", handleMessage);
+  const interval = setInterval(process, POLL_INTERVAL_MS);
+  process();
+
+  return () => {
+    currentUserId = null;
+    window.removeEventListener("online", process);
+    channel?.removeEventListener("message", handleMessage);
+    clearInterval(interval);
+    setState({ recordings: [], progress: {} });
+  };
+}
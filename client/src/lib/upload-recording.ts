@@ -0,0 +1,144 @@
+import type { AudioUploadStatus, Consultation } from "@shared/schema";
+import { UPLOAD_CHUNK_SIZE, getChunkLength } from "@shared/uploads";
+import { Sha256 } from "@/lib/sha256";
+
+// Uploads a recording in chunks through /api/uploads, retrying each request
+// with backoff and waiting out lost connections, so a drop on clinic Wi-Fi
+// only costs the chunk in flight. Given the id of an earlier attempt, it sends
+// only the chunks the server doesn't have yet.
+
+const MAX_ATTEMPTS = 6;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+export type UploadProgress = {
+  uploadedBytes: number;
+  totalBytes: number;
+  isOffline: boolean;
+};
+
+export type UploadRecordingOptions = {
+  patientRecordId: number;
+  fileName: string;
+  // Resume this upload instead of starting a new one.
+  uploadId?: number;
+  onStarted?: (uploadId: number) => void;
+  onProgress?: (progress: UploadProgress) => void;
+};
+
+type RequestError = Error & { status?: number; retryable?: boolean };
+
+// Errors look like apiRequest's, `400: {"message":"..."}`, so getErrorMessage reads them.
+async function request(url: string, init: RequestInit = {}): Promise<any> {
+  let res: Response;
+  try {
+    res = await fetch(url, { credentials: "include", ...init });
+  } catch {
+    throw Object.assign(new Error("Network connection lost"), { retryable: true });
+  }
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw Object.assign(new Error(`${res.status}: ${text}`), {
+      status: res.status,
+      retryable: res.status >= 500 || res.status === 408 || res.status === 429,
+    });
+  }
+  return await res.json();
+}
+
+function postJson(url: string, body: unknown) {
+  return request(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function waitForOnline() {
+  return new Promise<void>((resolve) => window.addEventListener("online", () => resolve(), { once: true }));
+}
+
+// Time offline doesn't use up attempts.
+async function withRetries<T>(send: () => Promise<T>, onOffline: (isOffline: boolean) => void): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      if (!(error as RequestError).retryable) throw error;
+      if (!navigator.onLine) {
+        onOffline(true);
+        await waitForOnline();
+        onOffline(false);
+        attempt = 0;
+        continue;
+      }
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(1000 * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS)));
+    }
+  }
+}
+
+// Read a chunk at a time, so a long recording is never loaded into memory whole.
+async function sha256Hex(blob: Blob): Promise<string> {
+  const hash = new Sha256();
+  for (let offset = 0; offset < blob.size; offset += UPLOAD_CHUNK_SIZE) {
+    hash.update(new Uint8Array(await blob.slice(offset, offset + UPLOAD_CHUNK_SIZE).arrayBuffer()));
+  }
+  return hash.digestHex();
+}
+
+export async function uploadRecording(audioBlob: Blob, options: UploadRecordingOptions): Promise<Consultation> {
+  const { patientRecordId, fileName, onStarted, onProgress } = options;
+  let uploadedBytes = 0;
+  let isOffline = false;
+  const report = () => onProgress?.({ uploadedBytes, totalBytes: audioBlob.size, isOffline });
+  const retry = <T>(send: () => Promise<T>) =>
+    withRetries(send, (offline) => {
+      isOffline = offline;
+      report();
+    });
+
+  const sha256 = await sha256Hex(audioBlob);
+  let status: AudioUploadStatus | undefined;
+  if (options.uploadId) {
+    // An expired or unknown upload is started again from scratch.
+    status = await retry(() => request(`/api/uploads/${options.uploadId}`)).catch(() => undefined);
+  }
+  if (!status) {
+    status = (await retry(() =>
+      postJson("/api/uploads", { patientRecordId, fileName, size: audioBlob.size }),
+    )) as AudioUploadStatus;
+    onStarted?.(status.id);
+  }
+
+  for (let restarts = 0; ; restarts++) {
+    const { id, size, chunkSize, chunkCount } = status;
+    if (!status.consultationId) {
+      const received = new Set(status.receivedChunks);
+      uploadedBytes = status.receivedChunks.reduce((total, index) => total + getChunkLength(index, size, chunkSize), 0);
+      report();
+      for (let index = 0; index < chunkCount; index++) {
+        if (received.has(index)) continue;
+        const chunk = audioBlob.slice(index * chunkSize, (index + 1) * chunkSize);
+        await retry(() =>
+          request(`/api/uploads/${id}/chunks/${index}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/octet-stream" },
+            body: chunk,
+          }),
+        );
+        uploadedBytes += chunk.size;
+        report();
+      }
+    }
+
+    try {
+      return await retry(() => postJson(`/api/uploads/${id}/complete`, { sha256 }));
+    } catch (error) {
+      // 409: chunks are missing on the server; 422: the recording arrived damaged
+      // and the server discarded it. Either way, send what it lacks once more.
+      const code = (error as RequestError).status;
+      if (restarts >= 1 || (code !== 409 && code !== 422)) throw error;
+      status = (await retry(() => request(`/api/uploads/${id}`))) as AudioUploadStatus;
+    }
+  }
+}
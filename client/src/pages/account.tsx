@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Stethoscope, LogOut, Users, HomeIcon, KeyRound } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+
+export default function Account() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const handleLogout = async () => {
+    await fetch("/api/logout", { method: "POST", credentials: "include" });
+    window.location.href = "/";
+  };
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      if (newPassword !== confirmPassword) {
+        throw new Error("New passwords do not match.");
+      }
+      return await apiRequest("/api/auth/password", {
+        method: "POST",
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+    },
+    onSuccess: () => {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Success",
+        description: "Password updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to change password: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center mr-3">
+                <Stethoscope className="text-white" size={20} />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">VetRecord Pro</h1>
+                <p className="text-sm text-gray-500">{user?.clinic?.name || "Veterinary Clinic"}</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link href="/customers">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <Users size={16} />
+                  <span>Patients</span>
+                </Button>
+              </Link>
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <HomeIcon size={16} />
+                  <span>Home</span>
+                </Button>
+              </Link>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">
+                  {[user?.firstName, user?.lastName].filter(Boolean).join(" ") || 'User'}
+                </p>
+                <p className="text-xs text-gray-500">{user?.email}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                className="p-2 text-gray-400 hover:text-gray-600"
+              >
+                <LogOut size={16} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Account</h1>
+          <p className="text-gray-600 mt-2">Manage your sign-in details</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <KeyRound className="w-5 h-5 mr-2" />
+              Change Password
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => changePasswordMutation.mutate()}
+                disabled={changePasswordMutation.isPending || !currentPassword || !newPassword}
+              >
+                {changePasswordMutation.isPending ? "Saving..." : "Update Password"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
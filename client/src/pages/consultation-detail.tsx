@@ -3,37 +3,89 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import ConsultationStatusBadge from "@/components/consultation-status-badge";
+import TranscriptSegments from "@/components/transcript-segments";
+import SpeakerNames from "@/components/speaker-names";
+import TranscriptEditor from "@/components/transcript-editor";
+import SoapNoteHistory from "@/components/soap-note-history";
+import ConsultationAddenda from "@/components/consultation-addenda";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Download, Calendar, Clock, User, FileText, Stethoscope, Play, Pause } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, Download, Calendar, Clock, User, FileText, Stethoscope, Play, Pause, Pill, Syringe, AlertCircle, RotateCcw, Sparkles, Pencil, Lock, PenLine } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useReprocessConsultation, retryAction } from "@/hooks/use-reprocess-consultation";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
-import type { Consultation } from "@shared/schema";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import ConsultationVitals from "@/components/consultation-vitals";
+import { AllergyAlert } from "@/components/patient-problem-list";
+import PatientVaccinations from "@/components/patient-vaccinations";
+import PatientPrescriptions from "@/components/patient-prescriptions";
+import type { Consultation, TranscriptSegment } from "@shared/schema";
+import { describeGeneration } from "@shared/llm";
+import { listSpeakers } from "@shared/transcription";
+import {
+  EMPTY_SOAP_NOTE,
+  SOAP_SECTIONS,
+  isSoapNoteEmpty,
+  isSoapNoteEqual,
+  SOAP_SECTION_DESCRIPTIONS,
+  SOAP_SECTION_LABELS,
+  type SoapNote,
+  type SoapSection,
+} from "@shared/soap";
 
 export default function ConsultationDetail() {
   const { id } = useParams();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canEdit = can("consultations:edit");
+  const canFinalize = can("consultations:finalize");
   const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [showOriginalTranscript, setShowOriginalTranscript] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
-  const [finalSoapNote, setFinalSoapNote] = useState("");
-  const [isFinalized, setIsFinalized] = useState(false);
+  const [finalSoapNote, setFinalSoapNote] = useState<SoapNote>(EMPTY_SOAP_NOTE);
+  const [revisionReason, setRevisionReason] = useState("");
 
   const { data: consultation, isLoading } = useQuery<Consultation>({
     queryKey: [`/api/consultations/${id}`],
     enabled: !!id,
   });
+  const reprocessMutation = useReprocessConsultation();
 
+  const { data: segments } = useQuery<TranscriptSegment[]>({
+    queryKey: [`/api/consultations/${id}/segments`],
+    enabled: !!consultation?.fullTranscription,
+  });
+
+  // The server's note as last loaded into the editor. Live updates replace the
+  // editor's contents only when they change that note and nothing is unsaved.
+  const loadedSoapNote = useRef<SoapNote>();
   useEffect(() => {
-    if (consultation) {
-      setFinalSoapNote(consultation.finalSoapNote || consultation.aiSoapNote || "");
-      setIsFinalized(Boolean(consultation.isFinalized));
+    if (!consultation) return;
+    const serverNote = consultation.finalSoapNote || consultation.aiSoapNote || EMPTY_SOAP_NOTE;
+    const loaded = loadedSoapNote.current;
+    if (loaded && isSoapNoteEqual(serverNote, loaded)) return;
+
+    loadedSoapNote.current = serverNote;
+    const hasUnsavedEdits = loaded !== undefined && !isSoapNoteEqual(finalSoapNote, loaded);
+    if (!hasUnsavedEdits) {
+      setFinalSoapNote(serverNote);
+    } else if (!isSoapNoteEqual(finalSoapNote, serverNote)) {
+      toast({
+        title: "SOAP note changed",
+        description: "The SOAP note was updated while you were editing. Your unsaved changes have been kept; saving them replaces the update.",
+      });
     }
   }, [consultation]);
 
   const updateMutation = useMutation({
-    mutationFn: async (payload: { finalSoapNote: string; isFinalized: boolean }) => {
+    mutationFn: async (payload: { finalSoapNote: SoapNote; revisionReason: string }) => {
       return await apiRequest(`/api/consultations/${id}`, {
         method: "PUT",
         body: JSON.stringify(payload),
@@ -43,6 +95,8 @@ export default function ConsultationDetail() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/consultations/${id}`] });
       queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/consultations/${id}/revisions`] });
+      setRevisionReason("");
       toast({
         title: "Saved",
         description: "SOAP note updated successfully.",
@@ -68,6 +122,37 @@ export default function ConsultationDetail() {
     },
   });
 
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      // Unsaved edits are saved first, so the note signed is the one on screen.
+      if (!isSoapNoteEqual(finalSoapNote, consultation?.finalSoapNote)) {
+        await apiRequest(`/api/consultations/${id}`, {
+          method: "PUT",
+          body: JSON.stringify({ finalSoapNote, revisionReason }),
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      return await apiRequest(`/api/consultations/${id}/sign`, { method: "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/consultations/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/consultations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/consultations/${id}/revisions`] });
+      setRevisionReason("");
+      toast({
+        title: "Signed",
+        description: "The SOAP note is finalized. Further information can be added as an addendum.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to sign SOAP note: " + getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -123,6 +208,16 @@ export default function ConsultationDetail() {
     }
   };
 
+  // Finalized notes are locked; reprocessing would change the record under them.
+  const canReprocess = canEdit && !consultation.isFinalized;
+  // Signed notes are locked; later information goes in an addendum.
+  const canEditNote = canEdit && !consultation.isFinalized;
+  const speakers = listSpeakers(segments ?? []);
+
+  const setSoapSection = (section: SoapSection, text: string) => {
+    setFinalSoapNote((note) => ({ ...note, [section]: text }));
+  };
+
   const toggleAudio = () => {
     if (audioRef.current) {
       if (isPlaying) {
@@ -135,6 +230,14 @@ export default function ConsultationDetail() {
     }
   };
 
+  const seekAudio = (ms: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = ms / 1000;
+      setCurrentTimeMs(ms);
+      audioRef.current.play();
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Header */}
@@ -156,9 +259,7 @@ export default function ConsultationDetail() {
                 <p className="text-sm text-gray-500">View consultation transcript and summary</p>
               </div>
             </div>
-            <Badge variant={consultation.status === 'completed' ? 'default' : 'secondary'}>
-              {consultation.status || 'processing'}
-            </Badge>
+            <ConsultationStatusBadge consultation={consultation} />
           </div>
         </div>
       </header>
@@ -167,6 +268,30 @@ export default function ConsultationDetail() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+            <AllergyAlert patientId={consultation.patientRecordId} />
+
+            {consultation.status === 'failed' && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Processing failed</AlertTitle>
+                <AlertDescription>
+                  <p>{consultation.failureReason || "The consultation could not be processed."}</p>
+                  {canReprocess && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-2"
+                      onClick={() => reprocessMutation.mutate({ id: consultation.id, action: retryAction(consultation) })}
+                      disabled={reprocessMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Retry
+                    </Button>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Consultation Overview */}
             <Card>
               <CardHeader>
@@ -212,9 +337,7 @@ export default function ConsultationDetail() {
                   )}
                   <div>
                     <p className="text-sm font-medium text-gray-500 mb-1">Status</p>
-                    <Badge variant={consultation.status === 'completed' ? 'default' : 'secondary'}>
-                      {consultation.status || 'processing'}
-                    </Badge>
+                    <ConsultationStatusBadge consultation={consultation} />
                   </div>
                 </div>
               </CardContent>
@@ -229,35 +352,100 @@ export default function ConsultationDetail() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <Textarea
-                  value={finalSoapNote}
-                  onChange={(event) => setFinalSoapNote(event.target.value)}
-                  placeholder="SOAP note will appear here once processing is complete."
-                  rows={14}
-                  className="font-mono text-sm"
-                />
+                {!consultation.aiSoapNote && !consultation.finalSoapNote && (
+                  <p className="text-sm text-gray-500">SOAP note will appear here once processing is complete.</p>
+                )}
+                {SOAP_SECTIONS.map((section) => {
+                  const aiText = consultation.aiSoapNote?.[section];
+                  return (
+                    <div key={section} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`soap-${section}`}>{SOAP_SECTION_LABELS[section]}</Label>
+                        {canEditNote && aiText !== undefined && aiText !== finalSoapNote[section] && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => setSoapSection(section, aiText)}
+                          >
+                            <Sparkles className="w-3 h-3 mr-1" />
+                            Use AI draft
+                          </Button>
+                        )}
+                      </div>
+                      <Textarea
+                        id={`soap-${section}`}
+                        value={finalSoapNote[section]}
+                        onChange={(event) => setSoapSection(section, event.target.value)}
+                        placeholder={SOAP_SECTION_DESCRIPTIONS[section]}
+                        rows={4}
+                        className="text-sm"
+                        readOnly={!canEditNote}
+                      />
+                    </div>
+                  );
+                })}
+                {canEditNote && (
+                  <Input
+                    value={revisionReason}
+                    onChange={(event) => setRevisionReason(event.target.value)}
+                    placeholder="Reason for change (optional)"
+                    maxLength={500}
+                  />
+                )}
                 <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-                  <div className="text-sm text-gray-600">
-                    Status: {isFinalized ? "Finalized" : "Draft"}
-                  </div>
-                  <div className="flex flex-col gap-2 sm:flex-row">
-                    <Button
-                      variant="outline"
-                      onClick={() => setIsFinalized((prev) => !prev)}
-                    >
-                      {isFinalized ? "Mark as Draft" : "Mark as Finalized"}
-                    </Button>
-                    <Button
-                      onClick={() => updateMutation.mutate({ finalSoapNote, isFinalized })}
-                      disabled={updateMutation.isPending}
-                    >
-                      {updateMutation.isPending ? "Saving..." : "Save SOAP Note"}
-                    </Button>
-                  </div>
+                  {consultation.isFinalized ? (
+                    <div className="text-sm text-gray-600">
+                      <p className="flex items-center font-medium text-gray-900">
+                        <Lock className="w-4 h-4 mr-2" />
+                        {consultation.signedByName && consultation.signedAt
+                          ? `Signed by ${consultation.signedByName} on ${new Date(consultation.signedAt).toLocaleString()}`
+                          : "Finalized"}
+                      </p>
+                      {consultation.signatureHash && (
+                        <p className="mt-1 font-mono text-xs text-gray-500 break-all">
+                          SHA-256 {consultation.signatureHash}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-600">Status: Draft</div>
+                  )}
+                  {canEditNote && (
+                    <div className="flex flex-col gap-2 sm:flex-row">
+                      {canFinalize && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            if (window.confirm("Sign and finalize this SOAP note? It can't be edited afterwards; later information is added as an addendum.")) {
+                              signMutation.mutate();
+                            }
+                          }}
+                          disabled={
+                            signMutation.isPending ||
+                            updateMutation.isPending ||
+                            consultation.status === "processing" ||
+                            isSoapNoteEmpty(finalSoapNote)
+                          }
+                        >
+                          <PenLine className="w-4 h-4 mr-2" />
+                          {signMutation.isPending ? "Signing..." : "Sign & Finalize"}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => updateMutation.mutate({ finalSoapNote, revisionReason })}
+                        disabled={updateMutation.isPending || signMutation.isPending}
+                      >
+                        {updateMutation.isPending ? "Saving..." : "Save SOAP Note"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
 
+            <ConsultationAddenda consultation={consultation} canEdit={canEdit} />
+
             {consultation.aiSoapNote && (
               <Card>
                 <CardHeader>
@@ -266,31 +454,92 @@ export default function ConsultationDetail() {
                     SOAP Note (AI Draft)
                   </CardTitle>
                 </CardHeader>
-                <CardContent>
-                  <div className="prose max-w-none">
-                    <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
-                      {consultation.aiSoapNote}
+                <CardContent className="space-y-4">
+                  {SOAP_SECTIONS.map((section) => (
+                    <div key={section}>
+                      <h4 className="text-sm font-medium text-gray-900">{SOAP_SECTION_LABELS[section]}</h4>
+                      <p className="whitespace-pre-wrap text-gray-700 leading-relaxed">
+                        {consultation.aiSoapNote?.[section]}
+                      </p>
                     </div>
-                  </div>
+                  ))}
+                  {consultation.soapNoteMetadata && (
+                    <p className="mt-4 text-xs text-gray-500">
+                      Generated with {describeGeneration(consultation.soapNoteMetadata)}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
 
+            <SoapNoteHistory consultation={consultation} />
+
             {/* Full Transcription */}
             {consultation.fullTranscription && (
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center">
-                    <FileText className="w-5 h-5 mr-2" />
-                    Full Transcription
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center">
+                      <FileText className="w-5 h-5 mr-2" />
+                      Full Transcription
+                    </CardTitle>
+                    {canReprocess && !isEditingTranscript && consultation.status !== "processing" && (
+                      <Button variant="outline" size="sm" onClick={() => setIsEditingTranscript(true)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Correct
+                      </Button>
+                    )}
+                  </div>
+                  {consultation.originalTranscription && (
+                    <p className="text-xs text-gray-500">
+                      Corrected
+                      {consultation.transcriptEditedAt && ` ${new Date(consultation.transcriptEditedAt).toLocaleString()}`}
+                      {" · "}
+                      <button
+                        type="button"
+                        className="text-primary hover:underline"
+                        onClick={() => setShowOriginalTranscript((show) => !show)}
+                      >
+                        {showOriginalTranscript ? "Hide" : "Show"} machine transcript
+                      </button>
+                    </p>
+                  )}
                 </CardHeader>
                 <CardContent>
-                  <div className="prose max-w-none">
-                    <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
-                      {consultation.fullTranscription}
-                    </p>
-                  </div>
+                  {showOriginalTranscript && consultation.originalTranscription && (
+                    <div className="mb-4 p-3 bg-gray-50 rounded text-sm text-gray-600 whitespace-pre-wrap">
+                      {consultation.originalTranscription}
+                    </div>
+                  )}
+                  {isEditingTranscript ? (
+                    <TranscriptEditor
+                      consultation={consultation}
+                      segments={segments ?? []}
+                      onClose={() => setIsEditingTranscript(false)}
+                    />
+                  ) : (
+                    <>
+                      {speakers.length > 0 && (
+                        <div className="mb-4">
+                          <SpeakerNames consultation={consultation} speakers={speakers} canEdit={canReprocess} />
+                        </div>
+                      )}
+                      {segments && segments.length > 0 && consultation.audioUrl ? (
+                        <TranscriptSegments
+                          segments={segments}
+                          speakerNames={consultation.speakerNames}
+                          currentTimeMs={currentTimeMs}
+                          onSeek={seekAudio}
+                        />
+                      ) : (
+                        <div className="prose max-w-none">
+                          <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
+                            {consultation.fullTranscription}
+                          </p>
+                        </div>
+                      )}
+                    </>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -344,7 +593,29 @@ export default function ConsultationDetail() {
                     Download SOAP Note (.docx)
                   </Button>
                 )}
-                <Link href="/customers">
+                {canReprocess && consultation.status !== 'processing' && consultation.audioUrl && (
+                  <Button
+                    onClick={() => reprocessMutation.mutate({ id: consultation.id, action: "retranscribe" })}
+                    disabled={reprocessMutation.isPending}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Retranscribe Audio
+                  </Button>
+                )}
+                {canReprocess && consultation.status !== 'processing' && consultation.fullTranscription && (
+                  <Button
+                    onClick={() => reprocessMutation.mutate({ id: consultation.id, action: "regenerate-soap" })}
+                    disabled={reprocessMutation.isPending}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    Regenerate SOAP Note
+                  </Button>
+                )}
+                <Link href={consultation.patientRecordId ? `/patients/${consultation.patientRecordId}` : "/customers"}>
                   <Button variant="outline" className="w-full">
                     <User className="w-4 h-4 mr-2" />
                     View Patient
@@ -353,6 +624,40 @@ export default function ConsultationDetail() {
               </CardContent>
             </Card>
 
+            <ConsultationVitals consultation={consultation} canEdit={canEdit} />
+
+            {consultation.patientRecordId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Syringe className="w-5 h-5 mr-2" />
+                    Vaccinations
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PatientVaccinations
+                    patientId={consultation.patientRecordId}
+                    consultationId={consultation.id}
+                    canEdit={canEdit}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {consultation.patientRecordId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Pill className="w-5 h-5 mr-2" />
+                    Prescriptions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PatientPrescriptions patientId={consultation.patientRecordId} consultationId={consultation.id} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Consultation Info */}
             <Card>
               <CardHeader>
@@ -391,6 +696,7 @@ export default function ConsultationDetail() {
             onEnded={() => setIsPlaying(false)}
             onPause={() => setIsPlaying(false)}
             onPlay={() => setIsPlaying(true)}
+            onTimeUpdate={(e) => setCurrentTimeMs(e.currentTarget.currentTime * 1000)}
             preload="none"
           />
         )}
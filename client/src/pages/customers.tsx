@@ -2,138 +2,217 @@ import { useState } from "react";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Plus, Eye, Trash2, User, Phone, Mail, MapPin, Heart, Stethoscope, LogOut, Users, HomeIcon } from "lucide-react";
-import type { Customer, InsertCustomer } from "@shared/schema";
+import {
+  OwnerFields,
+  PatientFields,
+  getPatientFormError,
+  type OwnerFormValues,
+  type PatientFormValues,
+} from "@/components/patient-form-fields";
+import { Plus, Eye, Trash2, User, Phone, Mail, MapPin, Heart, Clock, Stethoscope, LogOut, Users, HomeIcon, UserCog, ShieldCheck } from "lucide-react";
+import type { Consultation, OwnerWithPatients, Patient } from "@shared/schema";
+import { describeSignalment } from "@shared/signalment";
+import VitalsTrend from "@/components/vitals-trend";
+import PatientProblemList from "@/components/patient-problem-list";
+import PatientVaccinations from "@/components/patient-vaccinations";
+import PatientPrescriptions from "@/components/patient-prescriptions";
 
 export default function Customers() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [newOwner, setNewOwner] = useState<OwnerFormValues>({});
+  const [firstPatient, setFirstPatient] = useState<PatientFormValues>({});
+  const [selectedOwnerId, setSelectedOwnerId] = useState<number | null>(null);
+  const [selectedPatientId, setSelectedPatientId] = useState<number | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
-  const [newCustomer, setNewCustomer] = useState<Partial<InsertCustomer>>({});
+  const [addPatientOwnerId, setAddPatientOwnerId] = useState<number | null>(null);
+  const [newPatient, setNewPatient] = useState<PatientFormValues>({});
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canManageCustomers = can("customers:manage");
+  const canReadConsultations = can("consultations:read");
+  const canEditClinicalRecords = can("consultations:edit");
 
   const handleLogout = async () => {
     await fetch("/api/logout", { method: "POST", credentials: "include" });
     window.location.href = "/";
   };
 
-  const { data: customers, isLoading } = useQuery<Customer[]>({
-    queryKey: ["/api/customers"],
+  const { data: owners, isLoading } = useQuery<OwnerWithPatients[]>({
+    queryKey: ["/api/owners"],
   });
 
-  // Fetch consultations for selected customer
-  const { data: selectedCustomerConsultations, isLoading: consultationsLoading } = useQuery({
-    queryKey: [`/api/customers/${selectedCustomer?.id}/consultations`],
-    enabled: !!selectedCustomer && isViewDialogOpen,
+  const selectedOwner = owners?.find((owner) => owner.id === selectedOwnerId) ?? null;
+  const selectedPatient = selectedOwner?.patients.find((patient) => patient.id === selectedPatientId) ?? null;
+
+  // Fetch consultations for the selected animal
+  const { data: selectedPatientConsultations, isLoading: consultationsLoading } = useQuery<Consultation[]>({
+    queryKey: [`/api/patients/${selectedPatientId}/consultations`],
+    enabled: !!selectedPatientId && isViewDialogOpen && canReadConsultations,
     refetchOnWindowFocus: false,
     staleTime: 0, // Always refetch when query key changes
   });
 
-  const createMutation = useMutation({
-    mutationFn: async (customerData: InsertCustomer) => {
-      return await apiRequest("/api/customers", {
+  const invalidatePatientLists = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/owners"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+  };
+
+  const handleMutationError = (action: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ` + getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  // An owner is created on their own, or together with their first animal.
+  const createOwnerMutation = useMutation({
+    mutationFn: async ({ owner, patient }: { owner: OwnerFormValues; patient?: PatientFormValues }) => {
+      if (patient) {
+        return await apiRequest("/api/patients", {
+          method: "POST",
+          body: JSON.stringify({ ...patient, owner }),
+        });
+      }
+      return await apiRequest("/api/owners", {
         method: "POST",
-        body: JSON.stringify(customerData),
-        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(owner),
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      invalidatePatientLists();
       setIsCreateDialogOpen(false);
-      setNewCustomer({});
+      setNewOwner({});
+      setFirstPatient({});
       toast({
         title: "Success",
-        description: "Patient created successfully",
+        description: "Owner created successfully",
       });
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/";
-        }, 500);
-        return;
-      }
+    onError: handleMutationError("create owner"),
+  });
+
+  const createPatientMutation = useMutation({
+    mutationFn: async (patient: PatientFormValues & { ownerId: number }) => {
+      return await apiRequest("/api/patients", {
+        method: "POST",
+        body: JSON.stringify(patient),
+      });
+    },
+    onSuccess: () => {
+      invalidatePatientLists();
+      setAddPatientOwnerId(null);
+      setNewPatient({});
       toast({
-        title: "Error",
-        description: "Failed to create patient: " + error.message,
-        variant: "destructive",
+        title: "Success",
+        description: "Patient added successfully",
       });
     },
+    onError: handleMutationError("add patient"),
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: async (customerId: number) => {
-      return await apiRequest(`/api/customers/${customerId}`, {
+  const deleteOwnerMutation = useMutation({
+    mutationFn: async (ownerId: number) => {
+      return await apiRequest(`/api/owners/${ownerId}`, {
         method: "DELETE",
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      invalidatePatientLists();
       toast({
         title: "Success",
-        description: "Patient deleted successfully",
+        description: "Owner and their patients deleted successfully",
       });
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/";
-        }, 500);
-        return;
+    onError: handleMutationError("delete owner"),
+  });
+
+  const deletePatientMutation = useMutation({
+    mutationFn: async (patientId: number) => {
+      return await apiRequest(`/api/patients/${patientId}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: (_data, patientId) => {
+      invalidatePatientLists();
+      if (patientId === selectedPatientId) {
+        setSelectedPatientId(null);
       }
       toast({
-        title: "Error",
-        description: "Failed to delete patient: " + error.message,
-        variant: "destructive",
+        title: "Success",
+        description: "Patient deleted successfully",
       });
     },
+    onError: handleMutationError("delete patient"),
   });
 
+  const isPatientStarted = (patient: PatientFormValues) =>
+    Object.values(patient).some((value) => typeof value === "string" && value.trim());
 
+  const handleCreateOwner = () => {
+    if (!newOwner.name?.trim()) {
+      toast({
+        title: "Error",
+        description: "Owner name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    // The first animal is optional, but if any of it is filled in it must be complete.
+    const includePatient = isPatientStarted(firstPatient);
+    const patientError = includePatient ? getPatientFormError(firstPatient) : null;
+    if (patientError) {
+      toast({
+        title: "Error",
+        description: patientError,
+        variant: "destructive",
+      });
+      return;
+    }
 
-  const handleCreateCustomer = () => {
-    if (!newCustomer.patientId?.trim() || !newCustomer.name?.trim()) {
+    createOwnerMutation.mutate({ owner: newOwner, patient: includePatient ? firstPatient : undefined });
+  };
+
+  const handleCreatePatient = () => {
+    if (addPatientOwnerId === null) return;
+    const patientError = getPatientFormError(newPatient);
+    if (patientError) {
       toast({
         title: "Error",
-        description: "Patient ID and client name are required",
+        description: patientError,
         variant: "destructive",
       });
       return;
     }
 
-    createMutation.mutate(newCustomer as InsertCustomer);
+    createPatientMutation.mutate({ ...newPatient, ownerId: addPatientOwnerId });
   };
 
-  const handleViewCustomer = (customer: Customer) => {
-    setSelectedCustomer(customer);
+  const handleViewOwner = (owner: OwnerWithPatients, patient?: Patient) => {
+    setSelectedOwnerId(owner.id);
+    setSelectedPatientId(patient?.id ?? owner.patients[0]?.id ?? null);
     setIsViewDialogOpen(true);
-    // Invalidate consultation query to refetch for the new customer
-    queryClient.invalidateQueries({ 
-      queryKey: [`/api/customers/${customer.id}/consultations`] 
-    });
   };
 
   if (isLoading) {
@@ -158,7 +237,7 @@ export default function Customers() {
               </div>
               <div>
                 <h1 className="text-xl font-semibold text-gray-900">VetRecord Pro</h1>
-                <p className="text-sm text-gray-500">{"Veterinary Clinic"}</p>
+                <p className="text-sm text-gray-500">{user?.clinic?.name || "Veterinary Clinic"}</p>
               </div>
             </div>
             <div className="flex items-center space-x-4">
@@ -174,6 +253,20 @@ export default function Customers() {
                   <span>Home</span>
                 </Button>
               </Link>
+              {can("users:manage") && (
+                <Link href="/team">
+                  <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                    <ShieldCheck size={16} />
+                    <span>Team</span>
+                  </Button>
+                </Link>
+              )}
+              <Link href="/account">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <UserCog size={16} />
+                  <span>Account</span>
+                </Button>
+              </Link>
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900">
                   {user?.email || 'User'}
@@ -197,194 +290,139 @@ export default function Customers() {
         <div className="flex items-center justify-between mb-6">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">Patient Management</h1>
-            <p className="text-gray-600 mt-2">Manage patient IDs, client details, and pet information</p>
+            <p className="text-gray-600 mt-2">Manage owners, their contact details, and their animals</p>
           </div>
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="w-4 h-4 mr-2" />
-              Add New Patient
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          {canManageCustomers && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                Add New Owner
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>Add New Patient</DialogTitle>
+              <DialogTitle>Add New Owner</DialogTitle>
             </DialogHeader>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="patientId">Patient ID *</Label>
-                <Input
-                  id="patientId"
-                  value={newCustomer.patientId || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, patientId: e.target.value })}
-                  placeholder="Patient ID"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="name">Client Name *</Label>
-                <Input
-                  id="name"
-                  value={newCustomer.name || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
-                  placeholder="Enter client name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={newCustomer.email || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
-                  placeholder="client@email.com"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="phone">Phone</Label>
-                <Input
-                  id="phone"
-                  value={newCustomer.phone || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
-                  placeholder="Phone number"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="petName">Pet Name</Label>
-                <Input
-                  id="petName"
-                  value={newCustomer.petName || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, petName: e.target.value })}
-                  placeholder="Pet's name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="petBreed">Pet Breed</Label>
-                <Input
-                  id="petBreed"
-                  value={newCustomer.petBreed || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, petBreed: e.target.value })}
-                  placeholder="Breed"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="petAge">Pet Age</Label>
-                <Input
-                  id="petAge"
-                  value={newCustomer.petAge || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, petAge: e.target.value })}
-                  placeholder="Age (e.g., 3 years)"
-                />
-              </div>
-              <div className="col-span-2 space-y-2">
-                <Label htmlFor="address">Address</Label>
-                <Textarea
-                  id="address"
-                  value={newCustomer.address || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, address: e.target.value })}
-                  placeholder="Client address"
-                  rows={2}
-                />
-              </div>
-              <div className="col-span-2 space-y-2">
-                <Label htmlFor="notes">Notes</Label>
-                <Textarea
-                  id="notes"
-                  value={newCustomer.notes || ""}
-                  onChange={(e) => setNewCustomer({ ...newCustomer, notes: e.target.value })}
-                  placeholder="Additional notes about the patient or client"
-                  rows={3}
-                />
-              </div>
+            <OwnerFields value={newOwner} onChange={setNewOwner} idPrefix="newOwner" />
+            <Separator className="my-2" />
+            <div>
+              <h3 className="font-semibold">First Animal</h3>
+              <p className="text-sm text-gray-500 mb-4">Optional. More animals can be added later.</p>
+              <PatientFields value={firstPatient} onChange={setFirstPatient} idPrefix="firstPatient" />
             </div>
             <div className="flex justify-end space-x-2 mt-6">
               <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleCreateCustomer} disabled={createMutation.isPending}>
-                {createMutation.isPending ? "Creating..." : "Create Patient"}
+              <Button onClick={handleCreateOwner} disabled={createOwnerMutation.isPending}>
+                {createOwnerMutation.isPending ? "Creating..." : "Create Owner"}
               </Button>
             </div>
           </DialogContent>
         </Dialog>
       </div>
 
-      {!customers || customers.length === 0 ? (
+      {!owners || owners.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <User className="w-16 h-16 text-gray-400 mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No patients yet</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No owners yet</h3>
             <p className="text-gray-500 text-center mb-4">
-              Start by adding your first patient to begin tracking consultations
+              Start by adding an owner and their animals to begin tracking consultations
             </p>
-            <Button onClick={() => setIsCreateDialogOpen(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Your First Patient
-            </Button>
+            {canManageCustomers && (
+              <Button onClick={() => setIsCreateDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Your First Owner
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {customers.map((customer) => (
-            <Card key={customer.id} className="hover:shadow-md transition-shadow">
+          {owners.map((owner) => (
+            <Card key={owner.id} className="hover:shadow-md transition-shadow">
               <CardHeader className="pb-2">
                 <div className="flex items-center justify-between">
                   <div>
-                    <CardTitle className="text-lg">{customer.patientId}</CardTitle>
-                    <p className="text-sm text-gray-500">{customer.petName || "Pet"}</p>
-                    <p className="text-xs text-gray-400">Client: {customer.name}</p>
+                    <CardTitle className="text-lg">{owner.name}</CardTitle>
+                    <p className="text-sm text-gray-500">
+                      {owner.patients.length} {owner.patients.length === 1 ? "animal" : "animals"}
+                    </p>
                   </div>
                   <div className="flex space-x-1">
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleViewCustomer(customer)}
+                      onClick={() => handleViewOwner(owner)}
                       className="p-2"
                     >
                       <Eye className="w-4 h-4" />
                     </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteMutation.mutate(customer.id)}
-                      disabled={deleteMutation.isPending}
-                      className="p-2 text-red-500 hover:text-red-700"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {canManageCustomers && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteOwnerMutation.mutate(owner.id)}
+                        disabled={deleteOwnerMutation.isPending}
+                        className="p-2 text-red-500 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {customer.petName && (
-                    <div className="flex items-center text-sm">
-                      <Heart className="w-4 h-4 mr-2 text-pink-500" />
-                      <span className="font-medium">{customer.petName}</span>
-                      {customer.petBreed && (
-                        <Badge variant="outline" className="ml-2 text-xs">
-                          {customer.petBreed}
-                        </Badge>
-                      )}
-                    </div>
-                  )}
-                  {customer.email && (
+                  {owner.email && (
                     <div className="flex items-center text-sm text-gray-600">
                       <Mail className="w-4 h-4 mr-2" />
-                      <span>{customer.email}</span>
+                      <span>{owner.email}</span>
                     </div>
                   )}
-                  {customer.phone && (
+                  {owner.phone && (
                     <div className="flex items-center text-sm text-gray-600">
                       <Phone className="w-4 h-4 mr-2" />
-                      <span>{customer.phone}</span>
+                      <span>{owner.phone}</span>
                     </div>
                   )}
-                  {customer.address && (
+                  {owner.address && (
                     <div className="flex items-center text-sm text-gray-600">
                       <MapPin className="w-4 h-4 mr-2" />
-                      <span className="truncate">{customer.address}</span>
+                      <span className="truncate">{owner.address}</span>
                     </div>
                   )}
+                  <div className="pt-2 space-y-1">
+                    {owner.patients.map((patient) => (
+                      <button
+                        key={patient.id}
+                        type="button"
+                        onClick={() => handleViewOwner(owner, patient)}
+                        className="flex w-full items-center text-sm text-left hover:bg-gray-50 rounded px-1 py-0.5"
+                      >
+                        <Heart className="w-4 h-4 mr-2 text-pink-500" />
+                        <span className="font-medium">{patient.name}</span>
+                        <span className="ml-2 text-xs text-gray-400">{patient.patientId}</span>
+                        {describeSignalment(patient) && (
+                          <span className="ml-2 text-xs text-gray-500 truncate">{describeSignalment(patient)}</span>
+                        )}
+                      </button>
+                    ))}
+                    {canManageCustomers && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAddPatientOwnerId(owner.id)}
+                        className="text-primary px-1"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Animal
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -392,134 +430,233 @@ export default function Customers() {
         </div>
       )}
 
-      {/* Customer Details Dialog */}
+      {/* Add Animal Dialog */}
+      <Dialog
+        open={addPatientOwnerId !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setAddPatientOwnerId(null);
+            setNewPatient({});
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Add Animal
+              {addPatientOwnerId !== null && (
+                <span className="text-gray-500 font-normal ml-2">
+                  for {owners?.find((owner) => owner.id === addPatientOwnerId)?.name}
+                </span>
+              )}
+            </DialogTitle>
+          </DialogHeader>
+          <PatientFields value={newPatient} onChange={setNewPatient} idPrefix="newPatient" />
+          <div className="flex justify-end space-x-2 mt-6">
+            <Button variant="outline" onClick={() => setAddPatientOwnerId(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreatePatient} disabled={createPatientMutation.isPending}>
+              {createPatientMutation.isPending ? "Adding..." : "Add Animal"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Owner Details Dialog */}
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
-          {selectedCustomer && (
+          {selectedOwner && (
             <>
               <DialogHeader>
-                <DialogTitle className="text-xl">
-                  {selectedCustomer.patientId}
-                  <span className="text-pink-500 ml-2">- {selectedCustomer.petName || "Pet"}</span>
-                </DialogTitle>
+                <DialogTitle className="text-xl">{selectedOwner.name}</DialogTitle>
               </DialogHeader>
               <div className="grid grid-cols-2 gap-6">
                 <div>
-                  <h3 className="font-semibold mb-3">Client Information</h3>
+                  <h3 className="font-semibold mb-3">Owner Information</h3>
                   <div className="space-y-2">
                     <div className="flex items-center">
                       <User className="w-4 h-4 mr-2 text-gray-500" />
-                      <span>{selectedCustomer.name}</span>
+                      <span>{selectedOwner.name}</span>
                     </div>
-                    {selectedCustomer.email && (
+                    {selectedOwner.email && (
                       <div className="flex items-center">
                         <Mail className="w-4 h-4 mr-2 text-gray-500" />
                         <a 
-                          href={`mailto:${selectedCustomer.email}`}
+                          href={`mailto:${selectedOwner.email}`}
                           className="text-blue-600 hover:text-blue-800 hover:underline"
                         >
-                          {selectedCustomer.email}
+                          {selectedOwner.email}
                         </a>
                       </div>
                     )}
-                    {selectedCustomer.phone && (
+                    {selectedOwner.phone && (
                       <div className="flex items-center">
                         <Phone className="w-4 h-4 mr-2 text-gray-500" />
-                        <span>{selectedCustomer.phone}</span>
+                        <span>{selectedOwner.phone}</span>
                       </div>
                     )}
-                    {selectedCustomer.address && (
+                    {selectedOwner.address && (
                       <div className="flex items-start">
                         <MapPin className="w-4 h-4 mr-2 text-gray-500 mt-0.5" />
-                        <span>{selectedCustomer.address}</span>
+                        <span>{selectedOwner.address}</span>
                       </div>
                     )}
+                    {selectedOwner.notes && (
+                      <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">
+                        {selectedOwner.notes}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div>
-                  <h3 className="font-semibold mb-3">Pet Information</h3>
-                  <div className="space-y-2">
-                    <div className="flex items-center">
-                      <Badge variant="outline">Patient ID: {selectedCustomer.patientId}</Badge>
-                    </div>
-                    {selectedCustomer.petName && (
-                      <div className="flex items-center">
-                        <Heart className="w-4 h-4 mr-2 text-pink-500" />
-                        <span>Name: {selectedCustomer.petName}</span>
-                      </div>
-                    )}
-                    {selectedCustomer.petBreed && (
-                      <div>
-                        <span className="text-sm text-gray-600">Breed: </span>
-                        <Badge variant="outline">{selectedCustomer.petBreed}</Badge>
-                      </div>
-                    )}
-                    {selectedCustomer.petAge && (
-                      <div>
-                        <span className="text-sm text-gray-600">Age: {selectedCustomer.petAge}</span>
-                      </div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold">Animals</h3>
+                    {canManageCustomers && (
+                      <Button variant="outline" size="sm" onClick={() => setAddPatientOwnerId(selectedOwner.id)}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Animal
+                      </Button>
                     )}
                   </div>
+                  {selectedOwner.patients.length === 0 ? (
+                    <p className="text-sm text-gray-500">No animals registered for this owner</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {selectedOwner.patients.map((patient) => (
+                        <div
+                          key={patient.id}
+                          onClick={() => setSelectedPatientId(patient.id)}
+                          className={`p-3 border rounded cursor-pointer ${
+                            patient.id === selectedPatientId ? "border-primary bg-blue-50" : "hover:bg-gray-50"
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center">
+                              <Heart className="w-4 h-4 mr-2 text-pink-500" />
+                              <span className="font-medium">{patient.name}</span>
+                              <Badge variant="outline" className="ml-2">ID: {patient.patientId}</Badge>
+                            </div>
+                            <div className="flex items-center">
+                              <Link href={`/patients/${patient.id}`} onClick={(e) => e.stopPropagation()}>
+                                <Button variant="ghost" size="sm" className="p-1" title="Open timeline">
+                                  <Clock className="w-4 h-4" />
+                                </Button>
+                              </Link>
+                              {canManageCustomers && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    deletePatientMutation.mutate(patient.id);
+                                  }}
+                                  disabled={deletePatientMutation.isPending}
+                                  className="p-1 text-red-500 hover:text-red-700"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          {describeSignalment(patient) && (
+                            <p className="text-sm text-gray-600 mt-1">{describeSignalment(patient)}</p>
+                          )}
+                          {(patient.colour || patient.microchipNumber) && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              {[patient.colour, patient.microchipNumber && `Microchip ${patient.microchipNumber}`]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </p>
+                          )}
+                          {patient.notes && (
+                            <p className="text-sm text-gray-500 mt-1">{patient.notes}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
-              
-              {selectedCustomer.notes && (
-                <div className="mt-4">
-                  <h3 className="font-semibold mb-2">Notes</h3>
-                  <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">
-                    {selectedCustomer.notes}
-                  </p>
+
+              {selectedPatient && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-3">Allergies &amp; Problem List: {selectedPatient.name}</h3>
+                  <PatientProblemList patientId={selectedPatient.id} canEdit={canEditClinicalRecords} />
                 </div>
               )}
 
-              <div className="mt-6">
-                <h3 className="font-semibold mb-3">Consultation History</h3>
-                {consultationsLoading ? (
-                  <div className="flex items-center justify-center py-4">
-                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                    <span className="ml-2 text-sm text-gray-600">Loading consultations...</span>
-                  </div>
-                ) : selectedCustomerConsultations && selectedCustomerConsultations.length > 0 ? (
-                  <div className="space-y-2">
-                    {selectedCustomerConsultations.map((consultation: any) => (
-                      <div key={consultation.id} className="flex items-center justify-between p-3 border rounded">
-                        <div className="flex-1">
-                          <span className="font-medium">
-                            {consultation.recordedAt ? 
-                              new Date(consultation.recordedAt).toLocaleDateString() : 
-                              "Processing date..."
-                            }
-                          </span>
-                          <p className="text-sm text-gray-600">
-                            {consultation.fullTranscription ? 
-                              consultation.fullTranscription.substring(0, 100) + "..." : 
-                              "Transcription in progress..."
-                            }
-                          </p>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <Badge variant={consultation.status === 'completed' ? 'default' : 'secondary'}>
-                            {consultation.status || 'processing'}
-                          </Badge>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              // Navigate to consultation detail view
-                              window.open(`/consultation/${consultation.id}`, '_blank');
-                            }}
-                            disabled={consultation.status !== 'completed'}
-                          >
-                            <Eye className="w-4 h-4" />
-                          </Button>
+              {selectedPatient && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-3">Current Medications: {selectedPatient.name}</h3>
+                  <PatientPrescriptions patientId={selectedPatient.id} />
+                </div>
+              )}
+
+              {selectedPatient && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-3">Vaccinations: {selectedPatient.name}</h3>
+                  <PatientVaccinations patientId={selectedPatient.id} canEdit={canEditClinicalRecords} />
+                </div>
+              )}
+
+              {canReadConsultations && selectedPatient && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-3">Weight &amp; Vitals: {selectedPatient.name}</h3>
+                  <VitalsTrend patientId={selectedPatient.id} />
+                </div>
+              )}
+
+              {canReadConsultations && selectedPatient && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-3">Consultation History: {selectedPatient.name}</h3>
+                  {consultationsLoading ? (
+                    <div className="flex items-center justify-center py-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                      <span className="ml-2 text-sm text-gray-600">Loading consultations...</span>
+                    </div>
+                  ) : selectedPatientConsultations && selectedPatientConsultations.length > 0 ? (
+                    <div className="space-y-2">
+                      {selectedPatientConsultations.map((consultation) => (
+                        <div key={consultation.id} className="flex items-center justify-between p-3 border rounded">
+                          <div className="flex-1">
+                            <span className="font-medium">
+                              {consultation.recordedAt ? 
+                                new Date(consultation.recordedAt).toLocaleDateString() : 
+                                "Processing date..."
+                              }
+                            </span>
+                            <p className="text-sm text-gray-600">
+                              {consultation.fullTranscription ? 
+                                consultation.fullTranscription.substring(0, 100) + "..." : 
+                                "Transcription in progress..."
+                              }
+                            </p>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Badge variant={consultation.status === 'completed' ? 'default' : 'secondary'}>
+                              {consultation.status || 'processing'}
+                            </Badge>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                // Navigate to consultation detail view
+                                window.open(`/consultation/${consultation.id}`, '_blank');
+                              }}
+                              disabled={consultation.status !== 'completed'}
+                            >
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-gray-500 text-center py-4">No consultations yet</p>
-                )}
-              </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-gray-500 text-center py-4">No consultations yet</p>
+                  )}
+                </div>
+              )}
             </>
           )}
         </DialogContent>
@@ -528,4 +665,3 @@ export default function Customers() {
     </div>
   );
 }
-
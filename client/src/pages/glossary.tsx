@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Stethoscope, LogOut, Users, HomeIcon, BookOpen, Plus, Pencil, Trash2, Check, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { ROLE_LABELS } from "@shared/permissions";
+import type { GlossaryTerm, GlossaryTermInput } from "@shared/schema";
+
+// Mishearings are typed as a comma-separated list.
+function parseMishearings(value: string): string[] {
+  return value
+    .split(",")
+    .map((heard) => heard.trim())
+    .filter(Boolean);
+}
+
+export default function Glossary() {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newTerm, setNewTerm] = useState("");
+  const [newMishearings, setNewMishearings] = useState("");
+  const [editing, setEditing] = useState<{ id: number; term: string; mishearings: string } | null>(null);
+  const canEdit = can("consultations:edit");
+
+  const handleLogout = async () => {
+    await fetch("/api/logout", { method: "POST", credentials: "include" });
+    window.location.href = "/";
+  };
+
+  const { data: terms, isLoading } = useQuery<GlossaryTerm[]>({
+    queryKey: ["/api/glossary"],
+  });
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ` + getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: GlossaryTermInput) => {
+      return await apiRequest("/api/glossary", {
+        method: "POST",
+        body: JSON.stringify(input),
+      });
+    },
+    onSuccess: () => {
+      setNewTerm("");
+      setNewMishearings("");
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+      toast({ title: "Success", description: "Glossary term added" });
+    },
+    onError: showError("add glossary term"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: number } & Partial<GlossaryTermInput>) => {
+      return await apiRequest(`/api/glossary/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+    },
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+      toast({ title: "Success", description: "Glossary term updated" });
+    },
+    onError: showError("update glossary term"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/glossary/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+    },
+    onError: showError("delete glossary term"),
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center mr-3">
+                <Stethoscope className="text-white" size={20} />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">VetRecord Pro</h1>
+                <p className="text-sm text-gray-500">{user?.clinic?.name || "Veterinary Clinic"}</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link href="/customers">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <Users size={16} />
+                  <span>Patients</span>
+                </Button>
+              </Link>
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <HomeIcon size={16} />
+                  <span>Home</span>
+                </Button>
+              </Link>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">
+                  {user?.email || 'User'}
+                </p>
+                <p className="text-xs text-gray-500">{user?.role ? ROLE_LABELS[user.role] : ""}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                className="p-2 text-gray-400 hover:text-gray-600"
+              >
+                <LogOut size={16} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Glossary</h1>
+          <p className="text-gray-600 mt-2">
+            Drug names, places and people transcription should get right, and how it tends to mishear them
+          </p>
+        </div>
+
+        {canEdit && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Plus className="w-5 h-5 mr-2" />
+                Add a Term
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+                <div className="space-y-2 sm:w-60">
+                  <Label htmlFor="glossaryTerm">Term</Label>
+                  <Input
+                    id="glossaryTerm"
+                    value={newTerm}
+                    onChange={(e) => setNewTerm(e.target.value)}
+                    placeholder="Apoquel"
+                  />
+                </div>
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="glossaryMishearings">Often heard as</Label>
+                  <Input
+                    id="glossaryMishearings"
+                    value={newMishearings}
+                    onChange={(e) => setNewMishearings(e.target.value)}
+                    placeholder="a poke well, apple quell"
+                  />
+                </div>
+                <Button
+                  onClick={() => createMutation.mutate({ term: newTerm, mishearings: parseMishearings(newMishearings) })}
+                  disabled={createMutation.isPending || !newTerm.trim()}
+                >
+                  {createMutation.isPending ? "Adding..." : "Add Term"}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Separate mishearings with commas. They are replaced with the term in every new transcript.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <BookOpen className="w-5 h-5 mr-2" />
+              Clinic Glossary
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : !terms || terms.length === 0 ? (
+              <p className="py-8 text-center text-gray-500">
+                No terms yet. Add one here or from a transcript correction.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Term</TableHead>
+                    <TableHead>Often heard as</TableHead>
+                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {terms.map((term) =>
+                    editing?.id === term.id ? (
+                      <TableRow key={term.id}>
+                        <TableCell>
+                          <Input
+                            value={editing.term}
+                            onChange={(e) => setEditing({ ...editing, term: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={editing.mishearings}
+                            onChange={(e) => setEditing({ ...editing, mishearings: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateMutation.mutate({
+                                id: term.id,
+                                term: editing.term,
+                                mishearings: parseMishearings(editing.mishearings),
+                              })
+                            }
+                            disabled={updateMutation.isPending || !editing.term.trim()}
+                            title="Save"
+                          >
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(null)} title="Cancel">
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      <TableRow key={term.id}>
+                        <TableCell className="font-medium">{term.term}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {term.mishearings.length > 0
+                              ? term.mishearings.map((heard) => (
+                                  <Badge key={heard} variant="outline" className="text-xs">
+                                    {heard}
+                                  </Badge>
+                                ))
+                              : <span className="text-sm text-gray-400">Hint only</span>}
+                          </div>
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setEditing({ id: term.id, term: term.term, mishearings: term.mishearings.join(", ") })
+                              }
+                              title="Edit term"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(term.id)}
+                              disabled={deleteMutation.isPending}
+                              className="p-2 text-red-500 hover:text-red-700"
+                              title="Delete term"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ),
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
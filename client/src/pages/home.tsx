@@ -1,17 +1,23 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOnlineStatus } from "@/hooks/use-online-status";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
-import { Stethoscope, LogOut, Users, HomeIcon } from "lucide-react";
+import { Stethoscope, LogOut, Users, HomeIcon, UserCog, ShieldCheck, BookOpen, WifiOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
 import RecordingControls from "@/components/recording-controls";
+import PendingUploads from "@/components/pending-uploads";
 import TranscriptionResults from "@/components/transcription-results";
 import ConsultationHistory from "@/components/consultation-history";
+import VaccinationsDue from "@/components/vaccinations-due";
+import { ROLE_LABELS } from "@shared/permissions";
 
 export default function Home() {
   const { toast } = useToast();
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, can } = useAuth();
   const [isRecording, setIsRecording] = useState(false);
+  const isOnline = useOnlineStatus();
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -62,8 +68,17 @@ export default function Home() {
                   </div>
                   <div>
                     <h1 className="text-xl font-semibold text-gray-900">VetRecord Pro</h1>
-                    <p className="text-sm text-gray-500">{"Veterinary Clinic"}</p>
+                    <p className="text-sm text-gray-500">{user?.clinic?.name || "Veterinary Clinic"}</p>
                   </div>
+                  {!isOnline && (
+                    <div
+                      className="ml-4 flex items-center rounded-full border border-amber-300 bg-amber-50 px-3 py-1 text-xs font-medium text-amber-800"
+                      title="Showing the last saved copy. Recordings upload when the connection returns."
+                    >
+                      <WifiOff size={14} className="mr-1" />
+                      Offline · read-only
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center space-x-4">
                   <Link href="/customers">
@@ -78,11 +93,33 @@ export default function Home() {
                       <span>Home</span>
                     </Button>
                   </Link>
+                  {can("consultations:edit") && (
+                    <Link href="/glossary">
+                      <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                        <BookOpen size={16} />
+                        <span>Glossary</span>
+                      </Button>
+                    </Link>
+                  )}
+                  {can("users:manage") && (
+                    <Link href="/team">
+                      <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                        <ShieldCheck size={16} />
+                        <span>Team</span>
+                      </Button>
+                    </Link>
+                  )}
+                  <Link href="/account">
+                    <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                      <UserCog size={16} />
+                      <span>Account</span>
+                    </Button>
+                  </Link>
                   <div className="text-right">
                     <p className="text-sm font-medium text-gray-900">
                       {user?.email || 'User'}
                     </p>
-                    <p className="text-xs text-gray-500">{user?.email}</p>
+                    <p className="text-xs text-gray-500">{user?.role ? ROLE_LABELS[user.role] : user?.email}</p>
                   </div>
                   <Button 
                     variant="ghost"
@@ -100,13 +137,31 @@ export default function Home() {
       )}
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <RecordingControls onRecordingStateChange={(state) => setIsRecording(state === 'recording')} />
-        {!isRecording && (
+        {can("consultations:record") && (
+          <RecordingControls onRecordingStateChange={(state) => setIsRecording(state === 'recording')} />
+        )}
+        {!isRecording && can("consultations:record") && <PendingUploads />}
+        {!isRecording && <VaccinationsDue />}
+        {!isRecording && can("consultations:read") && (
           <>
             <TranscriptionResults />
             <ConsultationHistory />
           </>
         )}
+        {!can("consultations:read") && (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Users className="w-16 h-16 text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Patient records</h3>
+              <p className="text-gray-500 text-center mb-4">
+                Manage clients and patients from the patient list.
+              </p>
+              <Link href="/customers">
+                <Button>Go to Patients</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
@@ -1,42 +1,142 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Stethoscope } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+
+type Mode = "login" | "register" | "forgot" | "reset";
 
 export default function Landing() {
   const { toast } = useToast();
-  const [username, setUsername] = useState("");
+  const params = new URLSearchParams(window.location.search);
+  const inviteToken = params.get("invite") || "";
+  const resetToken = params.get("reset") || "";
+
+  const [mode, setMode] = useState<Mode>(inviteToken ? "register" : resetToken ? "reset" : "login");
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [clinicName, setClinicName] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleLogin = async () => {
+  const { data: setup } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/auth/setup"],
+    enabled: !inviteToken && !resetToken,
+  });
+
+  const { data: invite, error: inviteError } = useQuery<{ email: string }>({
+    queryKey: [`/api/invites/${inviteToken}`],
+    enabled: !!inviteToken,
+  });
+
+  useEffect(() => {
+    if (setup?.needsSetup) {
+      setMode("register");
+    }
+  }, [setup?.needsSetup]);
+
+  useEffect(() => {
+    if (invite?.email) {
+      setEmail(invite.email);
+    }
+  }, [invite?.email]);
+
+  const submit = async (action: () => Promise<void>, failureTitle: string) => {
     setIsSubmitting(true);
     try {
+      await action();
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLogin = () =>
+    submit(async () => {
       const response = await fetch("/api/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify({ email, password }),
         credentials: "include",
       });
 
       if (!response.ok) {
-        throw new Error("Invalid credentials");
+        throw new Error("Check your email and password.");
       }
 
       window.location.href = "/";
-    } catch (error) {
+    }, "Login failed");
+
+  const handleRegister = () =>
+    submit(async () => {
+      if (password !== confirmPassword) {
+        throw new Error("Passwords do not match.");
+      }
+      await apiRequest("/api/register", {
+        method: "POST",
+        body: JSON.stringify({
+          email,
+          password,
+          firstName,
+          lastName,
+          clinicName: inviteToken ? undefined : clinicName,
+          inviteToken: inviteToken || undefined,
+        }),
+      });
+      window.location.href = "/";
+    }, "Registration failed");
+
+  const handleForgotPassword = () =>
+    submit(async () => {
+      await apiRequest("/api/password-reset", {
+        method: "POST",
+        body: JSON.stringify({ email }),
+      });
       toast({
-        title: "Login failed",
-        description: "Check your username and password.",
-        variant: "destructive",
+        title: "Reset requested",
+        description: "Ask your clinic administrator for the reset link.",
       });
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+      setMode("login");
+    }, "Request failed");
+
+  const handleResetPassword = () =>
+    submit(async () => {
+      if (password !== confirmPassword) {
+        throw new Error("Passwords do not match.");
+      }
+      await apiRequest("/api/password-reset/confirm", {
+        method: "POST",
+        body: JSON.stringify({ token: resetToken, password }),
+      });
+      toast({
+        title: "Password reset",
+        description: "You can now sign in with your new password.",
+      });
+      window.history.replaceState(null, "", "/");
+      setPassword("");
+      setConfirmPassword("");
+      setMode("login");
+    }, "Reset failed");
+
+  const subtitle = {
+    login: "Secure consultation recording and transcription",
+    register: inviteToken
+      ? "Accept your invitation to join the clinic"
+      : "Create the first account for your clinic",
+    forgot: "Request a password reset link",
+    reset: "Choose a new password",
+  }[mode];
 
   return (
     <div className="min-h-screen flex items-center justify-center px-4 py-12 sm:px-6 lg:px-8 bg-slate-50">
@@ -47,42 +147,142 @@ export default function Landing() {
               <Stethoscope className="text-white text-2xl" size={24} />
             </div>
             <h2 className="text-3xl font-bold text-gray-900 mb-2">VetRecord Pro</h2>
-            <p className="text-gray-600 mb-8">Secure consultation recording and transcription</p>
+            <p className="text-gray-600 mb-8">{subtitle}</p>
+            {inviteToken && inviteError && (
+              <p className="text-sm text-red-600 mb-4">This invitation is invalid or has expired.</p>
+            )}
             <div className="space-y-4 text-left mb-6">
-              <div>
-                <Label htmlFor="username">Username</Label>
-                <Input
-                  id="username"
-                  value={username}
-                  onChange={(event) => setUsername(event.target.value)}
-                  placeholder="Enter username"
-                  autoCapitalize="none"
-                  autoCorrect="off"
-                  autoComplete="username"
-                />
-              </div>
-              <div>
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(event) => setPassword(event.target.value)}
-                  placeholder="Enter password"
-                  autoCapitalize="none"
-                  autoCorrect="off"
-                  autoComplete="current-password"
-                />
-              </div>
+              {mode === "register" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="firstName">First Name</Label>
+                    <Input
+                      id="firstName"
+                      value={firstName}
+                      onChange={(event) => setFirstName(event.target.value)}
+                      placeholder="First name"
+                      autoComplete="given-name"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="lastName">Last Name</Label>
+                    <Input
+                      id="lastName"
+                      value={lastName}
+                      onChange={(event) => setLastName(event.target.value)}
+                      placeholder="Last name"
+                      autoComplete="family-name"
+                    />
+                  </div>
+                </div>
+              )}
+              {mode === "register" && !inviteToken && (
+                <div>
+                  <Label htmlFor="clinicName">Clinic Name</Label>
+                  <Input
+                    id="clinicName"
+                    value={clinicName}
+                    onChange={(event) => setClinicName(event.target.value)}
+                    placeholder="Your practice name"
+                    autoComplete="organization"
+                  />
+                </div>
+              )}
+              {mode !== "reset" && (
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(event) => setEmail(event.target.value)}
+                    placeholder="Enter email"
+                    autoCapitalize="none"
+                    autoCorrect="off"
+                    autoComplete="username"
+                    disabled={mode === "register" && !!invite?.email}
+                  />
+                </div>
+              )}
+              {mode !== "forgot" && (
+                <div>
+                  <Label htmlFor="password">{mode === "login" ? "Password" : "New Password"}</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                    placeholder={mode === "login" ? "Enter password" : "At least 8 characters"}
+                    autoCapitalize="none"
+                    autoCorrect="off"
+                    autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  />
+                </div>
+              )}
+              {(mode === "register" || mode === "reset") && (
+                <div>
+                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(event) => setConfirmPassword(event.target.value)}
+                    placeholder="Repeat password"
+                    autoComplete="new-password"
+                  />
+                </div>
+              )}
             </div>
-            <Button
-              onClick={handleLogin}
-              disabled={isSubmitting || !username || !password}
-              className="w-full py-3 text-sm font-medium"
-              size="lg"
-            >
-              {isSubmitting ? "Signing In..." : "Sign In"}
-            </Button>
+            {mode === "login" && (
+              <>
+                <Button
+                  onClick={handleLogin}
+                  disabled={isSubmitting || !email || !password}
+                  className="w-full py-3 text-sm font-medium"
+                  size="lg"
+                >
+                  {isSubmitting ? "Signing In..." : "Sign In"}
+                </Button>
+                <Button variant="link" className="mt-2 text-sm" onClick={() => setMode("forgot")}>
+                  Forgot password?
+                </Button>
+              </>
+            )}
+            {mode === "register" && (
+              <Button
+                onClick={handleRegister}
+                disabled={isSubmitting || !email || !password || !firstName || (!inviteToken && !clinicName)}
+                className="w-full py-3 text-sm font-medium"
+                size="lg"
+              >
+                {isSubmitting ? "Creating Account..." : "Create Account"}
+              </Button>
+            )}
+            {mode === "forgot" && (
+              <>
+                <Button
+                  onClick={handleForgotPassword}
+                  disabled={isSubmitting || !email}
+                  className="w-full py-3 text-sm font-medium"
+                  size="lg"
+                >
+                  {isSubmitting ? "Requesting..." : "Request Reset Link"}
+                </Button>
+                <Button variant="link" className="mt-2 text-sm" onClick={() => setMode("login")}>
+                  Back to sign in
+                </Button>
+              </>
+            )}
+            {mode === "reset" && (
+              <Button
+                onClick={handleResetPassword}
+                disabled={isSubmitting || !password}
+                className="w-full py-3 text-sm font-medium"
+                size="lg"
+              >
+                {isSubmitting ? "Saving..." : "Set New Password"}
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
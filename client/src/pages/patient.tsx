@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Clock, PawPrint, Pill, User } from "lucide-react";
+import { AllergyAlert } from "@/components/patient-problem-list";
+import PatientPrescriptions from "@/components/patient-prescriptions";
+import PatientTimeline from "@/components/patient-timeline";
+import type { PatientWithOwner } from "@shared/schema";
+import { formatAge, formatSex, formatSpecies } from "@shared/signalment";
+
+export default function PatientPage() {
+  const { id } = useParams();
+  const patientId = Number(id);
+
+  const { data: patient, isLoading } = useQuery<PatientWithOwner>({
+    queryKey: [`/api/patients/${patientId}`],
+    enabled: !!patientId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Patient Not Found</h2>
+          <p className="text-gray-600 mb-4">The requested patient could not be found.</p>
+          <Link href="/customers">
+            <Button>Back to Patients</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const signalment = [
+    ["Patient ID", patient.patientId],
+    ["Species", formatSpecies(patient.species)],
+    ["Breed", patient.breed],
+    ["Sex", formatSex(patient.sex, patient.neutered)],
+    ["Date of Birth", patient.dateOfBirth && `${patient.dateOfBirth} (${formatAge(patient.dateOfBirth) || "age unknown"})`],
+    ["Colour/Markings", patient.colour],
+    ["Microchip", patient.microchipNumber],
+  ].filter((row): row is [string, string] => Boolean(row[1]));
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/customers">
+              <Button variant="ghost" size="sm" className="mr-4">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center mr-3">
+              <PawPrint className="text-white" size={20} />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">{patient.name}</h1>
+              <p className="text-sm text-gray-500">Clinical timeline</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <AllergyAlert patientId={patient.id} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Clock className="w-5 h-5 mr-2" />
+                  Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PatientTimeline patientId={patient.id} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <PawPrint className="w-5 h-5 mr-2" />
+                  Patient
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {signalment.map(([label, value]) => (
+                  <div key={label} className="text-sm">
+                    <span className="text-gray-500">{label}:</span> {value}
+                  </div>
+                ))}
+                {patient.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap pt-2">{patient.notes}</p>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <User className="w-5 h-5 mr-2" />
+                  Owner
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <p className="font-medium">{patient.owner.name}</p>
+                {patient.owner.phone && <p className="text-gray-600">{patient.owner.phone}</p>}
+                {patient.owner.email && <p className="text-gray-600">{patient.owner.email}</p>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Pill className="w-5 h-5 mr-2" />
+                  Current Medications
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PatientPrescriptions patientId={patient.id} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Stethoscope, LogOut, Users, HomeIcon, UserPlus, Copy, Building2, KeyRound, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { ROLES, ROLE_LABELS, type Role } from "@shared/permissions";
+import type { ClinicMemberWithUser, UpdateClinic, UserInvite } from "@shared/schema";
+import { TRANSCRIPTION_PROVIDERS, TRANSCRIPTION_PROVIDER_LABELS } from "@shared/transcription";
+
+type PendingInvite = Omit<UserInvite, "tokenHash">;
+
+export default function Team() {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [clinicName, setClinicName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("vet");
+  const [shareableLink, setShareableLink] = useState<{ label: string; url: string } | null>(null);
+  const canManageUsers = can("users:manage");
+
+  const handleLogout = async () => {
+    await fetch("/api/logout", { method: "POST", credentials: "include" });
+    window.location.href = "/";
+  };
+
+  useEffect(() => {
+    if (user?.clinic?.name) {
+      setClinicName(user.clinic.name);
+    }
+  }, [user?.clinic?.name]);
+
+  const { data: members, isLoading } = useQuery<ClinicMemberWithUser[]>({
+    queryKey: ["/api/clinic/members"],
+    enabled: canManageUsers,
+  });
+
+  const { data: invites } = useQuery<PendingInvite[]>({
+    queryKey: ["/api/clinic/invites"],
+    enabled: canManageUsers,
+  });
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ` + getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const clinicMutation = useMutation({
+    mutationFn: async (updates: UpdateClinic) => {
+      return await apiRequest("/api/clinic", {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({ title: "Success", description: "Clinic settings updated" });
+    },
+    onError: showError("update clinic"),
+  });
+
+  const memberMutation = useMutation({
+    mutationFn: async ({ userId, ...updates }: { userId: string; role?: Role; isActive?: boolean }) => {
+      return await apiRequest(`/api/clinic/members/${userId}`, {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clinic/members"] });
+      toast({ title: "Success", description: "Team member updated" });
+    },
+    onError: showError("update team member"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/invites", {
+        method: "POST",
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+    },
+    onSuccess: (invite: { email: string; inviteUrl: string }) => {
+      setShareableLink({ label: `Invitation for ${invite.email}`, url: invite.inviteUrl });
+      setInviteEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/clinic/invites"] });
+      toast({
+        title: "Invitation created",
+        description: "Share the link with your colleague. It expires in 7 days.",
+      });
+    },
+    onError: showError("create invitation"),
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      return await apiRequest(`/api/clinic/invites/${inviteId}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clinic/invites"] });
+    },
+    onError: showError("revoke invitation"),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (member: ClinicMemberWithUser) => {
+      const result = await apiRequest(`/api/clinic/members/${member.id}/password-reset`, {
+        method: "POST",
+      });
+      return { member, resetUrl: result.resetUrl as string };
+    },
+    onSuccess: ({ member, resetUrl }) => {
+      setShareableLink({ label: `Password reset for ${member.email}`, url: resetUrl });
+      toast({ title: "Reset link created", description: "The link expires in one hour." });
+    },
+    onError: showError("create reset link"),
+  });
+
+  const copyLink = async () => {
+    if (!shareableLink) return;
+    await navigator.clipboard.writeText(shareableLink.url);
+    toast({ title: "Copied", description: "Link copied to clipboard" });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center mr-3">
+                <Stethoscope className="text-white" size={20} />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">VetRecord Pro</h1>
+                <p className="text-sm text-gray-500">{user?.clinic?.name || "Veterinary Clinic"}</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link href="/customers">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <Users size={16} />
+                  <span>Patients</span>
+                </Button>
+              </Link>
+              <Link href="/">
+                <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+                  <HomeIcon size={16} />
+                  <span>Home</span>
+                </Button>
+              </Link>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">
+                  {user?.email || 'User'}
+                </p>
+                <p className="text-xs text-gray-500">{user?.role ? ROLE_LABELS[user.role] : ""}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                className="p-2 text-gray-400 hover:text-gray-600"
+              >
+                <LogOut size={16} />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Team</h1>
+          <p className="text-gray-600 mt-2">Manage your clinic, staff roles and invitations</p>
+        </div>
+
+        {!canManageUsers ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              Only clinic administrators can manage the team.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Building2 className="w-5 h-5 mr-2" />
+                  Clinic
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex gap-2">
+                  <Input
+                    value={clinicName}
+                    onChange={(e) => setClinicName(e.target.value)}
+                    placeholder="Clinic name"
+                    className="flex-1"
+                  />
+                  <Button
+                    onClick={() => clinicMutation.mutate({ name: clinicName })}
+                    disabled={clinicMutation.isPending || !clinicName.trim() || clinicName === user?.clinic?.name}
+                  >
+                    {clinicMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+                <div className="mt-4 space-y-2">
+                  <Label>Speech-to-text</Label>
+                  <Select
+                    value={user?.clinic?.transcriptionProvider ?? "default"}
+                    onValueChange={(value) =>
+                      clinicMutation.mutate({
+                        name: user?.clinic?.name ?? clinicName,
+                        transcriptionProvider: value === "default" ? null : (value as UpdateClinic["transcriptionProvider"]),
+                      })
+                    }
+                    disabled={clinicMutation.isPending}
+                  >
+                    <SelectTrigger className="w-full sm:w-80">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Server default</SelectItem>
+                      {TRANSCRIPTION_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider} value={provider}>
+                          {TRANSCRIPTION_PROVIDER_LABELS[provider]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Local Whisper keeps recordings on this server; it must be installed and configured by your administrator.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Users className="w-5 h-5 mr-2" />
+                  Team Members
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Active</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {members?.map((member) => {
+                        const isSelf = member.id === user?.id;
+                        return (
+                          <TableRow key={member.id}>
+                            <TableCell className="font-medium">
+                              {[member.firstName, member.lastName].filter(Boolean).join(" ") || "—"}
+                              {isSelf && <Badge variant="outline" className="ml-2 text-xs">You</Badge>}
+                            </TableCell>
+                            <TableCell>{member.email}</TableCell>
+                            <TableCell>
+                              <Select
+                                value={member.role}
+                                onValueChange={(role: Role) => memberMutation.mutate({ userId: member.id, role })}
+                                disabled={isSelf || memberMutation.isPending}
+                              >
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {ROLES.map((role) => (
+                                    <SelectItem key={role} value={role}>
+                                      {ROLE_LABELS[role]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={member.isActive}
+                                onCheckedChange={(isActive) => memberMutation.mutate({ userId: member.id, isActive })}
+                                disabled={isSelf || memberMutation.isPending}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => resetPasswordMutation.mutate(member)}
+                                disabled={isSelf || resetPasswordMutation.isPending}
+                                title="Create password reset link"
+                              >
+                                <KeyRound className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <UserPlus className="w-5 h-5 mr-2" />
+                  Invite a Colleague
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="inviteEmail">Email</Label>
+                    <Input
+                      id="inviteEmail"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="colleague@clinic.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Role</Label>
+                    <Select value={inviteRole} onValueChange={(role: Role) => setInviteRole(role)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    onClick={() => inviteMutation.mutate()}
+                    disabled={inviteMutation.isPending || !inviteEmail.trim()}
+                  >
+                    {inviteMutation.isPending ? "Creating..." : "Create Invite"}
+                  </Button>
+                </div>
+                {shareableLink && (
+                  <div className="rounded border bg-gray-50 p-3">
+                    <p className="text-xs text-gray-500 mb-1">{shareableLink.label}</p>
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 truncate font-mono text-xs text-gray-700">{shareableLink.url}</span>
+                      <Button variant="outline" size="sm" onClick={copyLink}>
+                        <Copy className="w-4 h-4 mr-1" />
+                        Copy
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {invites && invites.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-gray-700">Pending Invitations</h4>
+                    {invites.map((invite) => (
+                      <div key={invite.id} className="flex items-center justify-between p-3 border rounded">
+                        <div>
+                          <span className="font-medium">{invite.email}</span>
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            {ROLE_LABELS[invite.role as Role] || invite.role}
+                          </Badge>
+                          <p className="text-xs text-gray-500">
+                            Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeInviteMutation.mutate(invite.id)}
+                          disabled={revokeInviteMutation.isPending}
+                          className="p-2 text-red-500 hover:text-red-700"
+                          title="Revoke invitation"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
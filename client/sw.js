@@ -0,0 +1,167 @@
+// Service worker for the installable app. It keeps the app shell so the app
+// opens without a connection, and the last copy of the patient list and recent
+// consultations so they can be read offline. Changes still need the network;
+// recordings made offline wait in their own outbox (see upload-outbox.ts).
+
+// Filled in by the build (serviceWorker() in vite.config.ts): a version derived
+// from the build's hashed assets, and those assets, so every deploy installs a
+// complete app shell of its own.
+const VERSION = __BUILD_VERSION__;
+const BUILD_ASSETS = __BUILD_ASSETS__;
+const SHELL_CACHE = `vetrecord-shell-${VERSION}`;
+const DATA_CACHE = "vetrecord-data-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png", ...BUILD_ASSETS];
+// How many of the newest consultations are kept for reading offline.
+const RECENT_CONSULTATIONS = 20;
+
+// API reads answered from the last copy when the network is unavailable.
+// Audio, exports and the event stream are never cached.
+const OFFLINE_READS = [
+  /^\/api\/auth\/user$/,
+  /^\/api\/owners$/,
+  /^\/api\/patients$/,
+  /^\/api\/patients\/\d+$/,
+  /^\/api\/patients\/\d+\/(consultations|timeline|problem-list|vitals|vaccinations|prescriptions)$/,
+  /^\/api\/consultations$/,
+  /^\/api\/consultations\/\d+$/,
+  /^\/api\/consultations\/\d+\/(segments|vitals|vaccinations|prescriptions)$/,
+  /^\/api\/vaccinations\/due$/,
+  /^\/api\/clinic\/staff$/,
+];
+const CONSULTATION_DETAIL = /^\/api\/consultations\/(\d+)(\/segments)?$/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// Drops the shell caches of earlier builds, and anything in this build's shell
+// cache that the build doesn't reference.
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((key) => key.startsWith("vetrecord-") && key !== SHELL_CACHE && key !== DATA_CACHE)
+          .map((key) => caches.delete(key)),
+      );
+      const cache = await caches.open(SHELL_CACHE);
+      for (const request of await cache.keys()) {
+        if (!SHELL_URLS.includes(new URL(request.url).pathname)) {
+          await cache.delete(request);
+        }
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Signing out forgets the clinic's records on this device.
+  if (url.pathname === "/api/logout") {
+    event.respondWith(caches.delete(DATA_CACHE).then(() => fetch(request)));
+    return;
+  }
+  if (request.method !== "GET") return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(openPage(request));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(openAsset(request));
+  } else if (OFFLINE_READS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(readApi(event, request, url));
+  }
+});
+
+// Every route is the same single-page app, cached as "/".
+async function openPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && (response.headers.get("Content-Type") || "").includes("text/html")) {
+      await cache.put("/", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy never goes
+// stale. Assets of other builds, requested by pages still open from before an
+// update, are fetched but not kept.
+async function openAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && BUILD_ASSETS.includes(new URL(request.url).pathname)) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Network first; the last good copy when offline.
+async function readApi(event, request, url) {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      if (url.pathname === "/api/consultations") {
+        event.waitUntil(keepRecentConsultations(cache, response.clone()));
+      }
+    } else if (response.status === 401) {
+      // The session ended; don't show its records to whoever signs in next.
+      await caches.delete(DATA_CACHE);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Stores each recent consultation from the list as its own detail response,
+// fetches transcripts not yet cached, and forgets older consultations.
+async function keepRecentConsultations(cache, response) {
+  const consultations = await response.json();
+  if (!Array.isArray(consultations)) return;
+  const recent = consultations.slice(0, RECENT_CONSULTATIONS);
+  const recentIds = new Set(recent.map((consultation) => String(consultation.id)));
+
+  for (const key of await cache.keys()) {
+    const match = CONSULTATION_DETAIL.exec(new URL(key.url).pathname);
+    if (match && !recentIds.has(match[1])) {
+      await cache.delete(key);
+    }
+  }
+
+  await Promise.all(
+    recent.map(async (consultation) => {
+      await cache.put(
+        `/api/consultations/${consultation.id}`,
+        new Response(JSON.stringify(consultation), { headers: { "Content-Type": "application/json" } }),
+      );
+      const segmentsUrl = `/api/consultations/${consultation.id}/segments`;
+      if (!(await cache.match(segmentsUrl))) {
+        const segments = await fetch(segmentsUrl).catch(() => undefined);
+        if (segments && segments.ok) {
+          await cache.put(segmentsUrl, segments);
+        }
+      }
+    }),
+  );
+}
@@ -2,8 +2,26 @@
 -- This script creates the required database tables for the veterinary consultation management application
 
 -- Drop tables if they exist (for clean reinstall)
+DROP TABLE IF EXISTS consultation_addenda CASCADE;
+DROP TABLE IF EXISTS soap_note_revisions CASCADE;
+DROP TABLE IF EXISTS audio_uploads CASCADE;
+DROP TABLE IF EXISTS glossary_terms CASCADE;
+DROP TABLE IF EXISTS transcript_segments CASCADE;
+DROP TABLE IF EXISTS jobs CASCADE;
+DROP TABLE IF EXISTS patient_problems CASCADE;
+DROP TABLE IF EXISTS patient_vaccinations CASCADE;
+DROP TABLE IF EXISTS prescription_dispensings CASCADE;
+DROP TABLE IF EXISTS patient_prescriptions CASCADE;
+DROP TABLE IF EXISTS patient_allergies CASCADE;
+DROP TABLE IF EXISTS patient_vitals CASCADE;
 DROP TABLE IF EXISTS consultations CASCADE;
+DROP TABLE IF EXISTS patients CASCADE;
+DROP TABLE IF EXISTS owners CASCADE;
 DROP TABLE IF EXISTS customers CASCADE;
+DROP TABLE IF EXISTS password_reset_tokens CASCADE;
+DROP TABLE IF EXISTS user_invites CASCADE;
+DROP TABLE IF EXISTS clinic_members CASCADE;
+DROP TABLE IF EXISTS clinics CASCADE;
 DROP TABLE IF EXISTS sessions CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
 
@@ -11,13 +29,56 @@ DROP TABLE IF EXISTS users CASCADE;
 CREATE TABLE users (
     id VARCHAR PRIMARY KEY NOT NULL,
     email VARCHAR UNIQUE,
+    password_hash VARCHAR,
     first_name VARCHAR,
     last_name VARCHAR,
     profile_image_url VARCHAR,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Create clinics table (tenant that owns patients and consultations)
+CREATE TABLE clinics (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR NOT NULL,
+    transcription_provider VARCHAR,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create clinic members table (each user belongs to one clinic with one role)
+CREATE TABLE clinic_members (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR NOT NULL DEFAULT 'vet', -- admin, vet, nurse, receptionist
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create user invites table (colleague invitations, token stored hashed)
+CREATE TABLE user_invites (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+    email VARCHAR NOT NULL,
+    role VARCHAR NOT NULL DEFAULT 'vet',
+    token_hash VARCHAR NOT NULL UNIQUE,
+    invited_by VARCHAR NOT NULL REFERENCES users(id),
+    expires_at TIMESTAMP NOT NULL,
+    accepted_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create password reset tokens table (token stored hashed)
+CREATE TABLE password_reset_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Create sessions table (required for session storage)
 CREATE TABLE sessions (
     sid VARCHAR PRIMARY KEY,
@@ -28,18 +89,35 @@ CREATE TABLE sessions (
 -- Create index on session expiration for cleanup
 CREATE INDEX IDX_session_expire ON sessions(expire);
 
--- Create customers table
-CREATE TABLE customers (
+-- Create owners table (clients; an owner can have many animals)
+CREATE TABLE owners (
     id SERIAL PRIMARY KEY,
-    user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    patient_id VARCHAR NOT NULL,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    user_id VARCHAR NOT NULL REFERENCES users(id),
     name VARCHAR NOT NULL,
     email VARCHAR,
     phone VARCHAR,
     address TEXT,
-    pet_name VARCHAR,
-    pet_breed VARCHAR,
-    pet_age VARCHAR,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create patients table (animals, each belonging to one owner)
+CREATE TABLE patients (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    owner_id INTEGER NOT NULL REFERENCES owners(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    patient_id VARCHAR NOT NULL,
+    name VARCHAR NOT NULL,
+    species VARCHAR, -- canine, feline, equine, ...
+    breed VARCHAR,
+    sex VARCHAR, -- male, female, unknown
+    neutered BOOLEAN,
+    date_of_birth DATE,
+    colour VARCHAR,
+    microchip_number VARCHAR,
     notes TEXT,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
@@ -48,8 +126,9 @@ CREATE TABLE customers (
 -- Create consultations table
 CREATE TABLE consultations (
     id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
     user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
     customer_name VARCHAR NOT NULL,
     patient_id VARCHAR,
     pet_name VARCHAR,
@@ -57,20 +136,221 @@ CREATE TABLE consultations (
     file_name VARCHAR,
     duration INTEGER,
     full_transcription TEXT,
-    ai_soap_note TEXT,
-    final_soap_note TEXT,
+    original_transcription TEXT,
+    transcript_edited_by_id VARCHAR REFERENCES users(id),
+    transcript_edited_at TIMESTAMP,
+    ai_soap_note JSONB,
+    soap_note_metadata JSONB,
+    speaker_names JSONB,
+    final_soap_note JSONB,
     is_finalized BOOLEAN DEFAULT FALSE,
+    signed_by_id VARCHAR REFERENCES users(id),
+    signed_by_name VARCHAR,
+    signed_at TIMESTAMP,
+    signature_hash VARCHAR,
     status VARCHAR DEFAULT 'processing',
+    processing_stage VARCHAR,
+    failure_reason TEXT,
     recorded_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Create patient vitals table (weight and vital signs over time, metric units)
+CREATE TABLE patient_vitals (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    patient_record_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    weight_kg REAL,
+    temperature_c REAL,
+    heart_rate INTEGER,
+    respiratory_rate INTEGER,
+    body_condition_score INTEGER, -- 1-9 scale
+    measured_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create background jobs table (transcription and SOAP note generation)
+CREATE TABLE jobs (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    type VARCHAR NOT NULL, -- transcription, soap-note
+    status VARCHAR NOT NULL DEFAULT 'queued', -- queued, running, succeeded, failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    last_error TEXT,
+    run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMP,
+    finished_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create transcript segments table (timed pieces of a transcript, in playback order)
+CREATE TABLE transcript_segments (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    start_ms INTEGER NOT NULL,
+    end_ms INTEGER NOT NULL,
+    speaker VARCHAR,
+    text TEXT NOT NULL,
+    original_text TEXT
+);
+
+-- Create SOAP note revisions table (append-only history of the final SOAP note)
+CREATE TABLE soap_note_revisions (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    author_id VARCHAR REFERENCES users(id),
+    content JSONB NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create consultation addenda table (notes added after the SOAP note was signed)
+CREATE TABLE consultation_addenda (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    author_id VARCHAR NOT NULL REFERENCES users(id),
+    text TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create audio uploads table (recordings being uploaded in chunks)
+CREATE TABLE audio_uploads (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    patient_record_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    file_name VARCHAR NOT NULL,
+    size INTEGER NOT NULL,
+    chunk_size INTEGER NOT NULL,
+    consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create glossary terms table (per-clinic vocabulary for transcription)
+CREATE TABLE glossary_terms (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+    term VARCHAR NOT NULL,
+    mishearings TEXT[] NOT NULL DEFAULT '{}',
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create patient allergies table
+CREATE TABLE patient_allergies (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    patient_record_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    allergen VARCHAR NOT NULL,
+    reaction TEXT,
+    severity VARCHAR NOT NULL DEFAULT 'unknown', -- mild, moderate, severe, unknown
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create patient vaccinations table
+CREATE TABLE patient_vaccinations (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    patient_record_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    administered_by_id VARCHAR REFERENCES users(id),
+    vaccine VARCHAR NOT NULL,
+    batch_number VARCHAR,
+    expiry_date DATE,
+    site VARCHAR,
+    administered_at DATE NOT NULL,
+    next_due_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create patient prescriptions table
+CREATE TABLE patient_prescriptions (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    patient_record_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+    prescriber_id VARCHAR NOT NULL REFERENCES users(id),
+    drug VARCHAR NOT NULL,
+    strength VARCHAR,
+    dose VARCHAR NOT NULL,
+    route VARCHAR NOT NULL, -- oral, topical, subcutaneous, intramuscular, intravenous, ophthalmic, otic, inhaled, rectal, other
+    frequency VARCHAR NOT NULL,
+    duration_days INTEGER, -- NULL for long-term medication
+    quantity VARCHAR NOT NULL,
+    refills INTEGER NOT NULL DEFAULT 0,
+    instructions TEXT,
+    start_date DATE NOT NULL,
+    stopped_at DATE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create prescription dispensings table (original fill and refills)
+CREATE TABLE prescription_dispensings (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    prescription_id INTEGER NOT NULL REFERENCES patient_prescriptions(id) ON DELETE CASCADE,
+    dispensed_by_id VARCHAR NOT NULL REFERENCES users(id),
+    quantity VARCHAR NOT NULL,
+    notes TEXT,
+    dispensed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create patient problems table (problem list; chronic conditions are flagged)
+CREATE TABLE patient_problems (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    patient_record_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    name VARCHAR NOT NULL,
+    status VARCHAR NOT NULL DEFAULT 'active', -- active, resolved
+    is_chronic BOOLEAN NOT NULL DEFAULT FALSE,
+    onset_date DATE,
+    resolved_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Create indexes for better performance
-CREATE INDEX idx_customers_user_id ON customers(user_id);
+CREATE INDEX idx_owners_clinic_id ON owners(clinic_id);
+CREATE INDEX idx_patients_clinic_id ON patients(clinic_id);
+CREATE INDEX idx_patients_owner_id ON patients(owner_id);
+CREATE INDEX idx_consultations_clinic_id ON consultations(clinic_id);
 CREATE INDEX idx_consultations_user_id ON consultations(user_id);
-CREATE INDEX idx_consultations_customer_id ON consultations(customer_id);
+CREATE INDEX idx_consultations_patient_record_id ON consultations(patient_record_id);
 CREATE INDEX idx_consultations_status ON consultations(status);
+CREATE INDEX idx_patient_vitals_patient_record_id ON patient_vitals(patient_record_id);
+CREATE INDEX idx_patient_vitals_consultation_id ON patient_vitals(consultation_id);
+CREATE INDEX IDX_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX idx_transcript_segments_consultation_id ON transcript_segments(consultation_id, position);
+CREATE INDEX idx_soap_note_revisions_consultation_id ON soap_note_revisions(consultation_id, created_at);
+CREATE INDEX idx_consultation_addenda_consultation_id ON consultation_addenda(consultation_id, created_at);
+CREATE INDEX idx_glossary_terms_clinic_id ON glossary_terms(clinic_id);
+CREATE INDEX idx_patient_allergies_patient_record_id ON patient_allergies(patient_record_id);
+CREATE INDEX idx_patient_problems_patient_record_id ON patient_problems(patient_record_id);
+CREATE INDEX idx_patient_vaccinations_patient_record_id ON patient_vaccinations(patient_record_id);
+CREATE INDEX idx_patient_vaccinations_consultation_id ON patient_vaccinations(consultation_id);
+CREATE INDEX idx_patient_vaccinations_next_due_date ON patient_vaccinations(clinic_id, next_due_date);
+CREATE INDEX idx_patient_prescriptions_patient_record_id ON patient_prescriptions(patient_record_id);
+CREATE INDEX idx_patient_prescriptions_consultation_id ON patient_prescriptions(consultation_id);
+CREATE INDEX idx_prescription_dispensings_prescription_id ON prescription_dispensings(prescription_id);
 
 -- Grant permissions (adjust as needed for your database setup)
 -- GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO your_database_user;
@@ -0,0 +1,79 @@
+-- VetRecord Pro migration: user accounts and clinic (tenant) model
+-- Adds the multi-user account tables and moves ownership of customers and
+-- consultations from individual users to clinics.
+-- Apply once to databases created before clinics existed, before running `npm run db:push`:
+--   psql "$DATABASE_URL" -f migrations/0001_clinics.sql
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash VARCHAR;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS user_invites (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR NOT NULL,
+    token_hash VARCHAR NOT NULL UNIQUE,
+    invited_by VARCHAR NOT NULL REFERENCES users(id),
+    expires_at TIMESTAMP NOT NULL,
+    accepted_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS clinics (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS clinic_members (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One clinic per distinct users.clinic_name; users without one share a default clinic.
+INSERT INTO clinics (name)
+SELECT DISTINCT COALESCE(NULLIF(TRIM(clinic_name), ''), 'Veterinary Clinic')
+FROM users;
+
+INSERT INTO clinic_members (clinic_id, user_id)
+SELECT c.id, u.id
+FROM users u
+JOIN clinics c ON c.name = COALESCE(NULLIF(TRIM(u.clinic_name), ''), 'Veterinary Clinic')
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS clinic_id INTEGER REFERENCES clinics(id);
+UPDATE customers SET clinic_id = m.clinic_id
+FROM clinic_members m
+WHERE m.user_id = customers.user_id AND customers.clinic_id IS NULL;
+ALTER TABLE customers ALTER COLUMN clinic_id SET NOT NULL;
+
+ALTER TABLE consultations ADD COLUMN IF NOT EXISTS clinic_id INTEGER REFERENCES clinics(id);
+UPDATE consultations SET clinic_id = m.clinic_id
+FROM clinic_members m
+WHERE m.user_id = consultations.user_id AND consultations.clinic_id IS NULL;
+ALTER TABLE consultations ALTER COLUMN clinic_id SET NOT NULL;
+
+ALTER TABLE user_invites ADD COLUMN IF NOT EXISTS clinic_id INTEGER REFERENCES clinics(id) ON DELETE CASCADE;
+UPDATE user_invites SET clinic_id = m.clinic_id
+FROM clinic_members m
+WHERE m.user_id = user_invites.invited_by AND user_invites.clinic_id IS NULL;
+ALTER TABLE user_invites ALTER COLUMN clinic_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_clinic_id ON customers(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_consultations_clinic_id ON consultations(clinic_id);
+
+ALTER TABLE users DROP COLUMN IF EXISTS clinic_name;
+
+COMMIT;
@@ -0,0 +1,22 @@
+-- VetRecord Pro migration: clinic roles
+-- Adds roles to clinic members and invites. The earliest member of each
+-- clinic becomes its administrator; everyone else starts as a vet.
+--   psql "$DATABASE_URL" -f migrations/0002_roles.sql
+
+BEGIN;
+
+ALTER TABLE clinic_members ADD COLUMN IF NOT EXISTS role VARCHAR NOT NULL DEFAULT 'vet';
+ALTER TABLE user_invites ADD COLUMN IF NOT EXISTS role VARCHAR NOT NULL DEFAULT 'vet';
+
+UPDATE clinic_members SET role = 'admin'
+WHERE id IN (
+    SELECT DISTINCT ON (clinic_id) id
+    FROM clinic_members
+    ORDER BY clinic_id, created_at, id
+)
+AND NOT EXISTS (
+    SELECT 1 FROM clinic_members admins
+    WHERE admins.clinic_id = clinic_members.clinic_id AND admins.role = 'admin'
+);
+
+COMMIT;
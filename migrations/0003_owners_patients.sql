@@ -0,0 +1,92 @@
+-- VetRecord Pro migration: owners and patients
+-- Splits each customers row into an owner and an animal. Customers rows for the
+-- same household (same clinic, name, email and phone digits) collapse into one
+-- owner with several animals. Consultations are re-pointed at the animal.
+--   psql "$DATABASE_URL" -f migrations/0003_owners_patients.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS owners (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    name VARCHAR NOT NULL,
+    email VARCHAR,
+    phone VARCHAR,
+    address TEXT,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS patients (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    owner_id INTEGER NOT NULL REFERENCES owners(id) ON DELETE CASCADE,
+    user_id VARCHAR NOT NULL REFERENCES users(id),
+    patient_id VARCHAR NOT NULL,
+    name VARCHAR NOT NULL,
+    breed VARCHAR,
+    age VARCHAR,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Household key used to merge duplicated owner rows.
+CREATE TEMP TABLE customer_households ON COMMIT DROP AS
+SELECT
+    id AS customer_id,
+    clinic_id,
+    lower(trim(name)) || '|' || lower(coalesce(trim(email), '')) || '|' ||
+        regexp_replace(coalesce(phone, ''), '[^0-9]', '', 'g') AS household
+FROM customers;
+
+ALTER TABLE owners ADD COLUMN legacy_household VARCHAR;
+
+-- The earliest customers row of each household supplies the owner details.
+INSERT INTO owners (clinic_id, user_id, name, email, phone, address, created_at, updated_at, legacy_household)
+SELECT DISTINCT ON (h.clinic_id, h.household)
+    c.clinic_id, c.user_id, c.name, c.email, c.phone, c.address, c.created_at, c.updated_at, h.household
+FROM customers c
+JOIN customer_households h ON h.customer_id = c.id
+ORDER BY h.clinic_id, h.household, c.created_at, c.id;
+
+ALTER TABLE patients ADD COLUMN legacy_customer_id INTEGER;
+
+INSERT INTO patients (clinic_id, owner_id, user_id, patient_id, name, breed, age, notes, created_at, updated_at, legacy_customer_id)
+SELECT
+    c.clinic_id,
+    o.id,
+    c.user_id,
+    c.patient_id,
+    coalesce(nullif(trim(c.pet_name), ''), 'Patient'),
+    c.pet_breed,
+    c.pet_age,
+    c.notes,
+    c.created_at,
+    c.updated_at,
+    c.id
+FROM customers c
+JOIN customer_households h ON h.customer_id = c.id
+JOIN owners o ON o.clinic_id = h.clinic_id AND o.legacy_household = h.household;
+
+ALTER TABLE consultations
+    ADD COLUMN IF NOT EXISTS patient_record_id INTEGER REFERENCES patients(id) ON DELETE SET NULL;
+
+UPDATE consultations
+SET patient_record_id = p.id
+FROM patients p
+WHERE p.legacy_customer_id = consultations.customer_id;
+
+ALTER TABLE consultations DROP COLUMN customer_id;
+ALTER TABLE owners DROP COLUMN legacy_household;
+ALTER TABLE patients DROP COLUMN legacy_customer_id;
+DROP TABLE customers;
+
+CREATE INDEX IF NOT EXISTS idx_owners_clinic_id ON owners(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_patients_clinic_id ON patients(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_patients_owner_id ON patients(owner_id);
+CREATE INDEX IF NOT EXISTS idx_consultations_patient_record_id ON consultations(patient_record_id);
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- VetRecord Pro migration: structured signalment
+-- Adds species, sex, neuter status, date of birth, colour and microchip to
+-- patients and retires the free-text age. Ages such as "3 years", "6 months"
+-- or "8 weeks" become an estimated date of birth counted back from when the
+-- patient was registered; anything else is kept in the patient's notes.
+--   psql "$DATABASE_URL" -f migrations/0004_signalment.sql
+
+BEGIN;
+
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS species VARCHAR;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS sex VARCHAR;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS neutered BOOLEAN;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS date_of_birth DATE;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS colour VARCHAR;
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS microchip_number VARCHAR;
+
+UPDATE patients
+SET date_of_birth = (
+    coalesce(created_at, NOW()) - (
+        (substring(lower(age) FROM '^\s*(\d+(?:\.\d+)?)'))::numeric *
+        CASE substring(lower(age) FROM '^\s*\d+(?:\.\d+)?\s*([a-z])')
+            WHEN 'y' THEN INTERVAL '1 year'
+            WHEN 'm' THEN INTERVAL '1 month'
+            WHEN 'w' THEN INTERVAL '1 week'
+        END
+    )
+)::date
+WHERE lower(age) ~ '^\s*\d+(\.\d+)?\s*(y|yr|yrs|year|years|m|mo|mos|month|months|w|wk|wks|week|weeks)\s*(old)?\s*$';
+
+UPDATE patients
+SET notes = concat_ws(E'\n', nullif(notes, ''), 'Age at registration: ' || trim(age))
+WHERE date_of_birth IS NULL AND nullif(trim(age), '') IS NOT NULL;
+
+ALTER TABLE patients DROP COLUMN IF EXISTS age;
+
+COMMIT;
@@ -0,0 +1,38 @@
+-- VetRecord Pro migration: background job queue
+-- Creates the jobs table and queues work for consultations left in
+-- "processing" by the old in-process transcription, which was lost whenever
+-- the server restarted. Consultations that already have a transcript only
+-- need their SOAP note generated.
+--   psql "$DATABASE_URL" -f migrations/0005_jobs.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS jobs (
+    id SERIAL PRIMARY KEY,
+    clinic_id INTEGER NOT NULL REFERENCES clinics(id),
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    type VARCHAR NOT NULL,
+    status VARCHAR NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    last_error TEXT,
+    run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMP,
+    finished_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_jobs_status_run_at" ON jobs(status, run_at);
+
+INSERT INTO jobs (clinic_id, consultation_id, type)
+SELECT
+    c.clinic_id,
+    c.id,
+    CASE WHEN c.full_transcription IS NOT NULL THEN 'soap-note' ELSE 'transcription' END
+FROM consultations c
+WHERE c.status = 'processing'
+  AND (c.audio_url IS NOT NULL OR c.full_transcription IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM jobs j WHERE j.consultation_id = c.id);
+
+COMMIT;
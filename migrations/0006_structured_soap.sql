@@ -0,0 +1,39 @@
+-- VetRecord Pro migration: structured SOAP notes
+-- Stores the AI draft and the final SOAP note as their four sections instead
+-- of one formatted text block. Notes with "Subjective:", "Objective:",
+-- "Assessment:" and "Plan:" headings in order, as the app wrote them, are split
+-- at the headings; anything else is kept whole in the Subjective section.
+--   psql "$DATABASE_URL" -f migrations/0006_structured_soap.sql
+
+BEGIN;
+
+CREATE FUNCTION pg_temp.soap_sections(note TEXT) RETURNS JSONB AS $$
+DECLARE
+    -- Headings are matched at the start of a line, so "subjective:" isn't taken for "objective:".
+    padded TEXT := E'\n' || note;
+    lowered TEXT := lower(E'\n' || note);
+    s INTEGER := strpos(lowered, E'\nsubjective:');
+    o INTEGER := strpos(lowered, E'\nobjective:');
+    a INTEGER := strpos(lowered, E'\nassessment:');
+    p INTEGER := strpos(lowered, E'\nplan:');
+BEGIN
+    IF note IS NULL THEN
+        RETURN NULL;
+    END IF;
+    IF s > 0 AND o > s AND a > o AND p > a THEN
+        RETURN jsonb_build_object(
+            'subjective', btrim(substring(padded FROM s + 12 FOR o - s - 12), E' \t\r\n'),
+            'objective', btrim(substring(padded FROM o + 11 FOR a - o - 11), E' \t\r\n'),
+            'assessment', btrim(substring(padded FROM a + 12 FOR p - a - 12), E' \t\r\n'),
+            'plan', btrim(substring(padded FROM p + 6), E' \t\r\n')
+        );
+    END IF;
+    RETURN jsonb_build_object('subjective', btrim(note, E' \t\r\n'), 'objective', '', 'assessment', '', 'plan', '');
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE consultations
+    ALTER COLUMN ai_soap_note TYPE JSONB USING pg_temp.soap_sections(ai_soap_note),
+    ALTER COLUMN final_soap_note TYPE JSONB USING pg_temp.soap_sections(final_soap_note);
+
+COMMIT;
@@ -0,0 +1,164 @@
+import { storage } from "./storage";
+import { registerJobHandler, enqueueJob } from "./jobs";
+import { publishConsultationUpdate } from "./events";
+import { generateSoapNote, type SoapNoteContext } from "./soap-note";
+import { getTranscriptionProvider, transcribeRecording } from "./transcription";
+import { diarizeRecording, getDiarizationProvider } from "./diarization";
+import type { Consultation, InsertConsultation, Job } from "@shared/schema";
+import type { JobType } from "@shared/jobs";
+import { describeSignalment } from "@shared/signalment";
+import { isCurrentPrescription } from "@shared/prescriptions";
+import { formatSpeakerTranscript } from "@shared/transcription";
+import { SOAP_SECTIONS, type SoapNote } from "@shared/soap";
+
+// Processing after a consultation is uploaded: transcribe the audio, identify
+// the speakers if diarization is configured, then draft the SOAP note from the
+// transcript. Each step is its own job so a failed SOAP note doesn't send the
+// audio to be transcribed again.
+
+export function registerConsultationJobs() {
+  registerJobHandler("transcription", { run: runTranscription, onFailed: markConsultationFailed });
+  registerJobHandler("diarization", { run: runDiarization, onFailed: continueWithoutSpeakers });
+  registerJobHandler("soap-note", { run: runSoapNote, onFailed: markConsultationFailed });
+}
+
+// Starts processing from the given step. "transcription" re-transcribes the
+// audio; "soap-note" redrafts the note from the saved transcript.
+export async function queueConsultationProcessing(consultation: Consultation, from: JobType = "transcription"): Promise<Consultation> {
+  const queued = await updateProgress(consultation.id, { status: "processing", processingStage: "uploaded", failureReason: null });
+  await enqueueJob({ type: from, clinicId: consultation.clinicId, consultationId: consultation.id });
+  return queued;
+}
+
+// Saves a processing change and pushes it to the clinic's open event streams.
+async function updateProgress(consultationId: number, updates: Partial<InsertConsultation>): Promise<Consultation> {
+  const consultation = await storage.updateConsultation(consultationId, updates);
+  if (consultation) {
+    publishConsultationUpdate(consultation);
+  }
+  return consultation;
+}
+
+async function getJobConsultation(job: Job): Promise<Consultation | undefined> {
+  const consultation = await storage.getConsultation(job.consultationId, job.clinicId);
+  if (!consultation) {
+    console.log(`Skipping job ${job.id}: consultation ${job.consultationId} no longer exists`);
+  }
+  return consultation;
+}
+
+async function runTranscription(job: Job) {
+  const consultation = await getJobConsultation(job);
+  if (!consultation) return;
+  if (!consultation.audioUrl) {
+    throw new Error("Consultation has no audio to transcribe");
+  }
+
+  await updateProgress(consultation.id, { processingStage: "transcribing" });
+  const [clinic, glossary] = await Promise.all([storage.getClinic(job.clinicId), storage.getGlossaryTerms(job.clinicId)]);
+  const { text, segments } = await transcribeRecording(
+    consultation.audioUrl,
+    getTranscriptionProvider(clinic?.transcriptionProvider),
+    glossary,
+  );
+  const transcribed = await storage.saveTranscript(consultation.id, job.clinicId, text, segments);
+  if (transcribed) {
+    publishConsultationUpdate(transcribed);
+  }
+  const next = segments.length > 0 && getDiarizationProvider() ? "diarization" : "soap-note";
+  await enqueueJob({ type: next, clinicId: job.clinicId, consultationId: consultation.id });
+
+  console.log(`Transcription completed for consultation ${consultation.id}`);
+}
+
+async function runDiarization(job: Job) {
+  const consultation = await getJobConsultation(job);
+  if (!consultation) return;
+  const provider = getDiarizationProvider();
+  const segments = await storage.getTranscriptSegments(consultation.id, job.clinicId);
+  if (provider && consultation.audioUrl && segments.length > 0) {
+    await updateProgress(consultation.id, { processingStage: "identifying-speakers" });
+    const speakers = await diarizeRecording(consultation.audioUrl, segments, provider);
+    await storage.setSegmentSpeakers(consultation.id, speakers);
+    console.log(`Speakers identified for consultation ${consultation.id}`);
+  }
+  await enqueueJob({ type: "soap-note", clinicId: job.clinicId, consultationId: consultation.id });
+}
+
+// Speakers are a nice-to-have; the note is still drafted from the unlabelled transcript.
+async function continueWithoutSpeakers(job: Job, error: Error) {
+  console.warn(`Continuing consultation ${job.consultationId} without speaker labels: ${error.message}`);
+  await enqueueJob({ type: "soap-note", clinicId: job.clinicId, consultationId: job.consultationId });
+}
+
+async function runSoapNote(job: Job) {
+  const consultation = await getJobConsultation(job);
+  if (!consultation) return;
+  if (!consultation.fullTranscription) {
+    throw new Error("Consultation has no transcript to summarise");
+  }
+
+  await updateProgress(consultation.id, { processingStage: "generating-soap" });
+  const [context, segments] = await Promise.all([
+    getSoapNoteContext(consultation.patientRecordId, job.clinicId),
+    storage.getTranscriptSegments(consultation.id, job.clinicId),
+  ]);
+  const transcript = segments.some((segment) => segment.speaker)
+    ? formatSpeakerTranscript(segments, consultation.speakerNames)
+    : consultation.fullTranscription;
+  const { soapNote, metadata } = await generateSoapNote(transcript, context);
+
+  // On regeneration, keep the vet's edits; only sections left as drafted are replaced.
+  const previousDraft = consultation.aiSoapNote;
+  const edited = consultation.finalSoapNote;
+  const finalSoapNote: SoapNote = { ...soapNote };
+  for (const section of SOAP_SECTIONS) {
+    if (edited && (!previousDraft || edited[section] !== previousDraft[section])) {
+      finalSoapNote[section] = edited[section];
+    }
+  }
+  // The draft written into the final note is kept in its revision history.
+  const updated = await storage.updateConsultationNote(
+    consultation,
+    {
+      aiSoapNote: soapNote,
+      soapNoteMetadata: metadata,
+      finalSoapNote,
+      status: "completed",
+      processingStage: null,
+      failureReason: null,
+    },
+    { authorId: null, reason: consultation.aiSoapNote ? "Redrafted by AI" : "Drafted by AI" },
+  );
+  if (!updated) {
+    // A signed note is never overwritten; the draft is dropped.
+    await updateProgress(consultation.id, { status: "completed", processingStage: null, failureReason: null });
+    console.log(`Discarded SOAP draft for consultation ${consultation.id}: the note has been signed`);
+    return;
+  }
+  publishConsultationUpdate(updated);
+
+  console.log(`SOAP note generated for consultation ${consultation.id}`);
+}
+
+async function markConsultationFailed(job: Job, error: Error) {
+  await updateProgress(job.consultationId, { status: "failed", processingStage: null, failureReason: error.message });
+}
+
+// The patient's signalment, allergies and open problems, given to the SOAP note model as background.
+async function getSoapNoteContext(patientRecordId: number | null, clinicId: number): Promise<SoapNoteContext | undefined> {
+  const patient = patientRecordId ? await storage.getPatient(patientRecordId, clinicId) : undefined;
+  if (!patient) return undefined;
+
+  const [allergies, problems, prescriptions] = await Promise.all([
+    storage.getPatientAllergies(patient.id, clinicId),
+    storage.getPatientProblems(patient.id, clinicId),
+    storage.getPatientPrescriptions(patient.id, clinicId),
+  ]);
+  return {
+    signalment: describeSignalment(patient),
+    allergies,
+    problems: problems.filter((problem) => problem.status === "active" || problem.isChronic),
+    medications: prescriptions.filter((prescription) => isCurrentPrescription(prescription)),
+  };
+}
@@ -0,0 +1,133 @@
+import fs from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { normalizeAudio } from "./transcription";
+import type { TranscriptSegment } from "@shared/schema";
+
+// Works out who is speaking in each transcript segment. Providers report
+// speaker turns in whatever labels they use; turns are matched to segments by
+// overlap and relabelled "Speaker 1", "Speaker 2"… in order of first appearance.
+
+const execFileAsync = promisify(execFile);
+
+const DIARIZATION_TIMEOUT_MS = Number(process.env.DIARIZATION_TIMEOUT_MS) || 10 * 60 * 1000;
+
+type SpeakerTurn = {
+  startMs: number;
+  endMs: number;
+  speaker: string;
+};
+
+export interface DiarizationProvider {
+  name: string;
+  findSpeakerTurns(audioFilePath: string, segments: TranscriptSegment[]): Promise<SpeakerTurn[]>;
+}
+
+// Parses RTTM, the format pyannote and most diarization tools write:
+// "SPEAKER <file> 1 <start seconds> <duration seconds> <NA> <NA> <speaker> <NA> <NA>".
+function parseRttm(output: string): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] !== "SPEAKER" || fields.length < 8) continue;
+    const start = Number(fields[3]);
+    const duration = Number(fields[4]);
+    if (!Number.isFinite(start) || !Number.isFinite(duration)) continue;
+    turns.push({
+      startMs: Math.round(start * 1000),
+      endMs: Math.round((start + duration) * 1000),
+      speaker: fields[7],
+    });
+  }
+  return turns;
+}
+
+// Runs a diarization tool installed on this server, such as a pyannote script,
+// that prints RTTM. DIARIZATION_COMMAND is the command with {input} where the
+// 16 kHz WAV path goes.
+const commandProvider: DiarizationProvider = {
+  name: "command",
+  async findSpeakerTurns(audioFilePath) {
+    const command = process.env.DIARIZATION_COMMAND;
+    if (!command) {
+      throw new Error("DIARIZATION_COMMAND is not configured");
+    }
+    const [executable, ...args] = command.trim().split(/\s+/);
+    const hasInput = args.some((arg) => arg.includes("{input}"));
+    const resolvedArgs = hasInput
+      ? args.map((arg) => arg.replace("{input}", audioFilePath))
+      : [...args, audioFilePath];
+
+    const { stdout } = await execFileAsync(executable, resolvedArgs, {
+      timeout: DIARIZATION_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return parseRttm(stdout);
+  },
+};
+
+// Alternates two speakers segment by segment, for development and automated tests.
+const fakeProvider: DiarizationProvider = {
+  name: "fake",
+  async findSpeakerTurns(_audioFilePath, segments) {
+    return segments.map((segment, index) => ({
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      speaker: index % 2 === 0 ? "A" : "B",
+    }));
+  },
+};
+
+// Chosen by DIARIZATION_PROVIDER: "command" or "fake". Unset turns diarization off.
+export function getDiarizationProvider(): DiarizationProvider | undefined {
+  const configured = process.env.DIARIZATION_PROVIDER;
+  if (!configured || configured === "none") return undefined;
+  if (configured === "command") return commandProvider;
+  if (configured === "fake") return fakeProvider;
+  throw new Error(`Unknown DIARIZATION_PROVIDER "${configured}"`);
+}
+
+// The speaker who talks longest during the segment, if any turn overlaps it.
+function findSegmentSpeaker(segment: TranscriptSegment, turns: SpeakerTurn[]): string | undefined {
+  const overlapBySpeaker = new Map<string, number>();
+  for (const turn of turns) {
+    const overlap = Math.min(segment.endMs, turn.endMs) - Math.max(segment.startMs, turn.startMs);
+    if (overlap > 0) {
+      overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) ?? 0) + overlap);
+    }
+  }
+  let best: string | undefined;
+  for (const [speaker, overlap] of Array.from(overlapBySpeaker)) {
+    if (!best || overlap > overlapBySpeaker.get(best)!) best = speaker;
+  }
+  return best;
+}
+
+// Speaker label for each segment id.
+export async function diarizeRecording(
+  audioFilePath: string,
+  segments: TranscriptSegment[],
+  provider: DiarizationProvider,
+): Promise<Map<number, string | null>> {
+  const normalizedPath = await normalizeAudio(audioFilePath, "wav");
+  let turns: SpeakerTurn[];
+  try {
+    turns = await provider.findSpeakerTurns(normalizedPath, segments);
+  } catch (error) {
+    console.error(`Error identifying speakers with ${provider.name}:`, error);
+    throw new Error("Failed to identify speakers: " + (error as Error).message);
+  } finally {
+    fs.rmSync(normalizedPath, { force: true });
+  }
+
+  const labels = new Map<string, string>();
+  const speakers = new Map<number, string | null>();
+  for (const segment of segments) {
+    const providerSpeaker = findSegmentSpeaker(segment, turns);
+    if (providerSpeaker && !labels.has(providerSpeaker)) {
+      labels.set(providerSpeaker, `Speaker ${labels.size + 1}`);
+    }
+    speakers.set(segment.id, providerSpeaker ? labels.get(providerSpeaker)! : null);
+  }
+  return speakers;
+}
@@ -0,0 +1,55 @@
+import { EventEmitter } from "events";
+import type { Response } from "express";
+import type { Consultation, ConsultationEvent } from "@shared/schema";
+import { getProcessingStage } from "@shared/jobs";
+
+// Server-Sent Events for live consultation updates. Events are fanned out in
+// memory per clinic, which matches the single server process the job worker
+// assumes.
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+function clinicChannel(clinicId: number) {
+  return `clinic:${clinicId}`;
+}
+
+export function publishConsultationUpdate(consultation: Consultation) {
+  const event: ConsultationEvent = {
+    type: "consultation.updated",
+    stage: getProcessingStage(consultation),
+    consultation,
+  };
+  bus.emit(clinicChannel(consultation.clinicId), event);
+}
+
+export function publishConsultationDeleted(clinicId: number, consultationId: number) {
+  const event: ConsultationEvent = { type: "consultation.deleted", consultationId };
+  bus.emit(clinicChannel(clinicId), event);
+}
+
+// Keeps the response open and writes each of the clinic's events to it until the client disconnects.
+export function subscribeToClinicEvents(clinicId: number, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const send = (event: ConsultationEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  // Comment lines keep proxies from closing an idle stream.
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  const channel = clinicChannel(clinicId);
+  bus.on(channel, send);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    bus.off(channel, send);
+  });
+}
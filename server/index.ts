@@ -1,6 +1,9 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startJobWorker } from "./jobs";
+import { startUploadCleanup } from "./uploads";
+import { registerConsultationJobs } from "./consultation-jobs";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -67,4 +70,8 @@ app.use((req, res, next) => {
   server.listen(port, host, () => {
     log(`serving on port ${port}`);
   });
+
+  registerConsultationJobs();
+  await startJobWorker();
+  startUploadCleanup();
 })();
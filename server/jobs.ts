@@ -0,0 +1,98 @@
+import { storage } from "./storage";
+import type { Job } from "@shared/schema";
+import type { JobType } from "@shared/jobs";
+
+// Durable job queue backed by the jobs table. Work survives a restart: jobs
+// left running are put back on the queue when the worker starts, failures are
+// retried with exponential backoff, and at most JOB_CONCURRENCY jobs run at
+// once so a batch of uploads doesn't flood the AI provider.
+
+type JobDefinition = {
+  run: (job: Job) => Promise<void>;
+  // Called once a job has used up its attempts.
+  onFailed?: (job: Job, error: Error) => Promise<void>;
+};
+
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 2);
+const POLL_INTERVAL_MS = 5000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+const definitions = new Map<JobType, JobDefinition>();
+let isStarted = false;
+let isClaiming = false;
+let claimAgain = false;
+let runningCount = 0;
+
+export function registerJobHandler(type: JobType, definition: JobDefinition) {
+  definitions.set(type, definition);
+}
+
+export async function enqueueJob(job: { type: JobType; clinicId: number; consultationId: number }): Promise<Job> {
+  const newJob = await storage.createJob(job);
+  void fillSlots();
+  return newJob;
+}
+
+export async function startJobWorker() {
+  // Assumes a single server process; a running job here was interrupted by a restart.
+  const interrupted = await storage.requeueInterruptedJobs();
+  if (interrupted.length > 0) {
+    console.log(`Resuming ${interrupted.length} interrupted background job(s)`);
+  }
+  isStarted = true;
+  setInterval(() => void fillSlots(), POLL_INTERVAL_MS).unref();
+  void fillSlots();
+}
+
+// Claims queued jobs until every slot is busy or nothing is due.
+async function fillSlots() {
+  if (!isStarted) return;
+  if (isClaiming) {
+    claimAgain = true;
+    return;
+  }
+  isClaiming = true;
+  try {
+    do {
+      claimAgain = false;
+      while (runningCount < JOB_CONCURRENCY) {
+        const job = await storage.claimNextJob();
+        if (!job) break;
+        runningCount++;
+        runJob(job)
+          .catch((error) => console.error(`Error finishing job ${job.id}:`, error))
+          .finally(() => {
+            runningCount--;
+            void fillSlots();
+          });
+      }
+    } while (claimAgain && runningCount < JOB_CONCURRENCY);
+  } catch (error) {
+    console.error("Error claiming background jobs:", error);
+  } finally {
+    isClaiming = false;
+  }
+}
+
+async function runJob(job: Job) {
+  const definition = definitions.get(job.type as JobType);
+  try {
+    if (!definition) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+    await definition.run(job);
+    await storage.updateJob(job.id, { status: "succeeded", lastError: null, finishedAt: new Date() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      console.warn(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}, retrying in ${delay / 1000}s: ${message}`);
+      await storage.updateJob(job.id, { status: "queued", lastError: message, runAt: new Date(Date.now() + delay) });
+      return;
+    }
+
+    console.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts:`, error);
+    await storage.updateJob(job.id, { status: "failed", lastError: message, finishedAt: new Date() });
+    await definition?.onFailed?.(job, error instanceof Error ? error : new Error(message));
+  }
+}
@@ -0,0 +1,113 @@
+import OpenAI from "openai";
+import type { LlmGenerationMetadata, LlmTask } from "@shared/llm";
+
+// Language model access behind a common interface. The OpenAI provider talks to
+// any OpenAI-compatible chat completions API, so pointing LLM_BASE_URL at a local
+// llama.cpp or Ollama server keeps notes on-premises.
+
+export type LlmRequest = {
+  task: LlmTask;
+  system: string;
+  prompt: string;
+};
+
+export type LlmResponse = {
+  content: string;
+  metadata: LlmGenerationMetadata;
+};
+
+export interface LlmProvider {
+  name: string;
+  // Returns a JSON object as text.
+  completeJson(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+  "soap-note": "gpt-4o",
+};
+
+export function getTaskModel(task: LlmTask): string {
+  const taskVariable = `LLM_MODEL_${task.toUpperCase().replace(/-/g, "_")}`;
+  return process.env[taskVariable] || process.env.LLM_MODEL || DEFAULT_MODELS[task];
+}
+
+function createOpenAiCompatibleProvider(): LlmProvider {
+  const baseURL = process.env.LLM_BASE_URL || undefined;
+  const client = new OpenAI({
+    baseURL,
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key",
+  });
+  const name = baseURL ? new URL(baseURL).host : "openai";
+
+  return {
+    name,
+    async completeJson({ task, system, prompt }) {
+      const model = getTaskModel(task);
+      const startedAt = Date.now();
+      const response = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+        response_format: { type: "json_object" },
+      });
+      return {
+        content: response.choices[0]?.message.content || "{}",
+        metadata: {
+          provider: name,
+          model: response.model || model,
+          latencyMs: Date.now() - startedAt,
+          promptTokens: response.usage?.prompt_tokens ?? null,
+          completionTokens: response.usage?.completion_tokens ?? null,
+          generatedAt: new Date().toISOString(),
+        },
+      };
+    },
+  };
+}
+
+// Canned responses for development and automated tests; never calls out.
+const STUB_RESPONSES: Record<LlmTask, object> = {
+  "soap-note": {
+    subjective: "Stub note: owner reports the patient is bright and eating well.",
+    objective: "Not mentioned",
+    assessment: "Not mentioned",
+    plan: "Not mentioned",
+  },
+};
+
+const stubProvider: LlmProvider = {
+  name: "stub",
+  async completeJson({ task }) {
+    return {
+      content: JSON.stringify(STUB_RESPONSES[task]),
+      metadata: {
+        provider: "stub",
+        model: "stub",
+        latencyMs: 0,
+        promptTokens: null,
+        completionTokens: null,
+        generatedAt: new Date().toISOString(),
+      },
+    };
+  },
+};
+
+let provider: LlmProvider | undefined;
+
+// Chosen by LLM_PROVIDER: "openai" (the default, including compatible endpoints) or "stub".
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const configured = process.env.LLM_PROVIDER || "openai";
+    if (configured === "stub") {
+      provider = stubProvider;
+    } else if (configured === "openai") {
+      provider = createOpenAiCompatibleProvider();
+    } else {
+      throw new Error(`Unknown LLM_PROVIDER "${configured}"`);
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,36 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Hashes are stored as "scrypt:<salt hex>:<derived key hex>" so the scheme can be changed later.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${derivedKey.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string | null | undefined): Promise<boolean> {
+  if (!storedHash) return false;
+  const [scheme, saltHex, keyHex] = storedHash.split(":");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  const derivedKey = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return derivedKey.length === expected.length && timingSafeEqual(derivedKey, expected);
+}
+
+// Invite and reset tokens are handed out in plain text once; only their hash is persisted.
+export function generateToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
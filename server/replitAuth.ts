@@ -1,23 +1,105 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
+import { randomUUID } from "crypto";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { log } from "./vite";
+import { hashPassword, verifyPassword, generateToken, hashToken } from "./passwords";
+import {
+  registerUserSchema,
+  changePasswordSchema,
+  passwordResetConfirmSchema,
+  createInviteSchema,
+  type User,
+  type PublicUser,
+} from "@shared/schema";
+import { hasPermission, isRole, type Permission, type Role } from "@shared/permissions";
 
-const DEFAULT_USERNAME = "vet";
-const DEFAULT_PASSWORD = "vet";
+// The id used by the original single-user login. Bootstrapping from
+// APP_USERNAME/APP_PASSWORD reuses it so existing records keep their owner.
+const LEGACY_USER_ID = "local-user";
+
+const DEFAULT_CLINIC_NAME = "Veterinary Clinic";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+const shouldLogResetLinks =
+  process.env.LOG_PASSWORD_RESET_LINKS === "true" && process.env.NODE_ENV !== "production";
 
 const shouldUseSsl =
   process.env.PGSSLMODE === "require" ||
   process.env.DATABASE_URL?.includes("sslmode=require") ||
   process.env.NODE_ENV === "production";
 
-function getConfiguredCredentials() {
-  return {
-    username: process.env.APP_USERNAME || DEFAULT_USERNAME,
-    password: process.env.APP_PASSWORD || DEFAULT_PASSWORD,
-  };
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function getBaseUrl(req: Request) {
+  return process.env.APP_BASE_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+export function validationMessage(error: unknown) {
+  return error instanceof ZodError ? fromZodError(error).message : undefined;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+// The user as stored in the session and exposed on req.user.
+export type SessionUser = {
+  id: string;
+  email: string | null;
+  clinicId: number;
+  role: Role;
+};
+
+// Users without an active account or clinic membership can't sign in.
+async function loadSessionUser(user: User | undefined): Promise<SessionUser | undefined> {
+  if (!user || !user.isActive) return undefined;
+  const membership = await storage.getClinicMembership(user.id);
+  if (!membership || !isRole(membership.role)) return undefined;
+  return { id: user.id, email: user.email, clinicId: membership.clinicId, role: membership.role };
+}
+
+// Seeds the first account from APP_USERNAME/APP_PASSWORD when no user has a
+// password yet, so upgraded installs can still sign in with their old login.
+async function ensureBootstrapUser() {
+  const username = process.env.APP_USERNAME;
+  const password = process.env.APP_PASSWORD;
+  if (!username || !password) return;
+  if (await storage.hasCredentialedUsers()) return;
+
+  const existing = await storage.getUser(LEGACY_USER_ID);
+  await storage.upsertUser({
+    id: LEGACY_USER_ID,
+    email: normalizeEmail(username),
+    firstName: existing?.firstName ?? "Vet",
+    lastName: existing?.lastName ?? "User",
+    passwordHash: await hashPassword(password),
+  });
+  if (!(await storage.getClinicMembership(LEGACY_USER_ID))) {
+    const clinic = await storage.createClinic(DEFAULT_CLINIC_NAME);
+    await storage.addClinicMember(clinic.id, LEGACY_USER_ID, "admin");
+  }
+  console.log(`Bootstrapped initial account "${normalizeEmail(username)}" from APP_USERNAME`);
+}
+
+async function issuePasswordResetLink(req: Request, userId: string) {
+  const token = generateToken();
+  await storage.createPasswordResetToken(
+    userId,
+    hashToken(token),
+    new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+  );
+  return `${getBaseUrl(req)}/?reset=${token}`;
 }
 
 export function getSession() {
@@ -49,37 +131,47 @@ export async function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
-  passport.use(
-    new LocalStrategy(async (username, password, done) => {
-      const configured = getConfiguredCredentials();
-      const normalizedUsername = username.trim();
-      const normalizedPassword = password.trim();
-      if (normalizedUsername !== configured.username || normalizedPassword !== configured.password) {
-        return done(null, false, { message: "Invalid credentials" });
-      }
-
-      const userId = "local-user";
-      await storage.upsertUser({
-        id: userId,
-        email: username,
-        firstName: "Vet",
-        lastName: "User",
-      });
+  await ensureBootstrapUser();
 
-      return done(null, { id: userId, email: normalizedUsername });
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(normalizeEmail(email));
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false, { message: "Invalid credentials" });
+        }
+        const sessionUser = await loadSessionUser(user);
+        if (!sessionUser) {
+          return done(null, false, { message: "Invalid credentials" });
+        }
+        return done(null, sessionUser);
+      } catch (error) {
+        return done(error);
+      }
     })
   );
 
-  passport.serializeUser((user: any, cb) => cb(null, user));
-  passport.deserializeUser((user: any, cb) => cb(null, user));
+  // Only the user id lives in the session; the user and clinic membership are
+  // reloaded on every request so deactivated accounts lose access immediately.
+  passport.serializeUser((user: any, cb) => cb(null, user.id));
+  passport.deserializeUser(async (stored: any, cb) => {
+    try {
+      // Sessions created before multi-user support stored the whole user object.
+      const userId = typeof stored === "string" ? stored : stored?.id;
+      const sessionUser = await loadSessionUser(userId ? await storage.getUser(userId) : undefined);
+      return cb(null, sessionUser ?? false);
+    } catch (error) {
+      return cb(error);
+    }
+  });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user) => {
+    passport.authenticate("local", (err: any, user: Express.User | false) => {
       if (err) {
         return next(err);
       }
       if (!user) {
-        return res.status(401).json({ message: "Invalid username or password" });
+        return res.status(401).json({ message: "Invalid email or password" });
       }
       req.logIn(user, (loginErr) => {
         if (loginErr) {
@@ -95,6 +187,201 @@ export async function setupAuth(app: Express) {
       res.json({ message: "Logged out" });
     });
   });
+
+  // Tells the sign-in page whether the first account still needs to be created.
+  app.get("/api/auth/setup", async (_req, res) => {
+    try {
+      const hasUsers = await storage.hasCredentialedUsers();
+      res.json({ needsSetup: !hasUsers });
+    } catch (error) {
+      console.error("Error checking auth setup:", error);
+      res.status(500).json({ message: "Failed to check setup status" });
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const data = registerUserSchema.parse(req.body);
+      const hasUsers = await storage.hasCredentialedUsers();
+
+      // Open registration is only allowed for the very first account;
+      // everyone after that needs an invite from a colleague.
+      const invite = data.inviteToken
+        ? await storage.getPendingInvite(hashToken(data.inviteToken))
+        : undefined;
+      if (hasUsers && !invite) {
+        return res.status(403).json({ message: "A valid invitation is required to register" });
+      }
+      if (invite && normalizeEmail(invite.email) !== data.email) {
+        return res.status(400).json({ message: "Email does not match the invitation" });
+      }
+      if (!invite && !data.clinicName) {
+        return res.status(400).json({ message: "Clinic name is required" });
+      }
+      if (await storage.getUserByEmail(data.email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      // Invited users join the inviter's clinic with the invited role; the
+      // first account creates the clinic and administers it.
+      const registered = await storage.registerUser(
+        {
+          id: randomUUID(),
+          email: data.email,
+          firstName: data.firstName,
+          lastName: data.lastName || null,
+          passwordHash: await hashPassword(data.password),
+        },
+        invite ? { inviteTokenHash: invite.tokenHash } : { clinicName: data.clinicName! },
+      );
+      if (!registered) {
+        return invite
+          ? res.status(409).json({ message: "This invitation has already been used or has expired" })
+          : res.status(403).json({ message: "A valid invitation is required to register" });
+      }
+      const { user, membership } = registered;
+
+      const sessionUser: SessionUser = {
+        id: user.id,
+        email: user.email,
+        clinicId: membership.clinicId,
+        role: membership.role as Role,
+      };
+      req.logIn(sessionUser, (loginErr) => {
+        if (loginErr) {
+          return next(loginErr);
+        }
+        return res.json(toPublicUser(user));
+      });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const invite = await storage.getPendingInvite(hashToken(req.params.token));
+      if (!invite) {
+        return res.status(404).json({ message: "Invitation not found or expired" });
+      }
+      res.json({ email: invite.email, expiresAt: invite.expiresAt });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post("/api/invites", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const { email, role } = createInviteSchema.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const token = generateToken();
+      const invite = await storage.createInvite({
+        clinicId: req.user.clinicId,
+        email,
+        role,
+        tokenHash: hashToken(token),
+        invitedBy: req.user.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+
+      res.json({
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+        inviteUrl: `${getBaseUrl(req)}/?invite=${token}`,
+      });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating invite:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.post("/api/auth/password", isAuthenticated, async (req: any, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await verifyPassword(currentPassword, user.passwordHash))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // There is no outgoing mail yet. Outside production, LOG_PASSWORD_RESET_LINKS=true
+  // writes the reset link to the server log; otherwise an administrator creates
+  // one from the team page. The response never reveals whether the email is registered.
+  app.post("/api/password-reset", async (req, res) => {
+    try {
+      const email = typeof req.body?.email === "string" ? normalizeEmail(req.body.email) : "";
+      const user = email && shouldLogResetLinks ? await storage.getUserByEmail(email) : undefined;
+      if (user && user.isActive) {
+        const resetUrl = await issuePasswordResetLink(req, user.id);
+        log(`Password reset requested for ${email}: ${resetUrl}`, "auth");
+      }
+      res.json({ message: "If the account exists, a reset link has been issued" });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  // Lets an administrator hand a reset link directly to a colleague.
+  app.post("/api/clinic/members/:userId/password-reset", isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const membership = await storage.getClinicMembership(req.params.userId);
+      if (!membership || membership.clinicId !== req.user.clinicId) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      const resetUrl = await issuePasswordResetLink(req, membership.userId);
+      res.json({ resetUrl });
+    } catch (error) {
+      console.error("Error issuing password reset:", error);
+      res.status(500).json({ message: "Failed to issue password reset" });
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res) => {
+    try {
+      const { token, password } = passwordResetConfirmSchema.parse(req.body);
+      const resetToken = await storage.claimPasswordResetToken(hashToken(token));
+      if (!resetToken) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(resetToken.userId, await hashPassword(password));
+      res.json({ message: "Password has been reset" });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
 }
 
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
@@ -103,3 +390,12 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   }
   return next();
 };
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: any, res, next) => {
+    if (!hasPermission(req.user?.role, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+    return next();
+  };
+}
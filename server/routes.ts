@@ -1,16 +1,65 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { transcribeAudio, generateSoapNote } from "./openai";
+import { setupAuth, isAuthenticated, requirePermission, toPublicUser, validationMessage } from "./replitAuth";
+import { extractVitalsFromTranscript } from "./vitals";
+import { buildPatientTimeline } from "./timeline";
+import { queueConsultationProcessing } from "./consultation-jobs";
+import { publishConsultationUpdate, publishConsultationDeleted, subscribeToClinicEvents } from "./events";
+import { assembleChunks, getUploadStatus, removeChunks, writeChunk } from "./uploads";
+import { createNoteSignature, hashSignedNote, isSignatureValid } from "./signatures";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
 import { spawn } from "child_process";
-import { insertConsultationSchema, insertCustomerSchema } from "@shared/schema";
+import {
+  insertConsultationSchema,
+  ownerInputSchema,
+  updateOwnerSchema,
+  createPatientSchema,
+  updatePatientSchema,
+  vitalsInputSchema,
+  allergyInputSchema,
+  updateAllergySchema,
+  problemInputSchema,
+  updateProblemSchema,
+  vaccinationInputSchema,
+  prescriptionInputSchema,
+  dispenseInputSchema,
+  updateClinicSchema,
+  transcriptUpdateSchema,
+  insertSoapNoteRevisionSchema,
+  addendumInputSchema,
+  type AddendumWithAuthor,
+  type Consultation,
+  glossaryTermInputSchema,
+  updateGlossaryTermSchema,
+  updateClinicMemberSchema,
+  audioUploadInputSchema,
+  completeAudioUploadSchema,
+  type Patient,
+  type PatientWithOwner,
+  type PrescriptionWithHistory,
+  type VaccinationWithAdministrator,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatAge, formatSex, formatSpecies } from "@shared/signalment";
+import { DUE_SOON_DAYS, addDays, toDateString } from "@shared/vaccinations";
+import { formatDirections, isCurrentPrescription } from "@shared/prescriptions";
+import { formatSpeakerTranscript } from "@shared/transcription";
+import { MAX_MISHEARINGS_PER_TERM } from "@shared/glossary";
+import { UPLOAD_CHUNK_SIZE, getChunkCount, getChunkLength } from "@shared/uploads";
+import { EMPTY_SOAP_NOTE, SOAP_SECTIONS, SOAP_SECTION_LABELS, isSoapNoteEmpty, type SoapNote } from "@shared/soap";
+import {
+  CLINICAL_EVENT_TYPES,
+  TIMELINE_EVENT_TYPES,
+  isTimelineEventType,
+  type TimelineEventType,
+} from "@shared/timeline";
 import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
 
-// Setup multer for file uploads
+// Setup multer for file uploads. Longer recordings go through the chunked
+// upload routes, which have no such limit.
 const upload = multer({ 
   dest: 'uploads/',
   limits: {
@@ -18,9 +67,42 @@ const upload = multer({
   }
 });
 
+// Uploads being completed by this process, so a retried completion can't
+// create the consultation twice.
+const completingUploads = new Set<number>();
+
+// Creates the consultation for a recording saved at audioPath and queues its processing.
+async function createRecordedConsultation(user: { id: string; clinicId: number }, patient: PatientWithOwner, audioPath: string) {
+  const { patientId, name: petName } = patient;
+  const now = new Date();
+  const dateStamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
+  const timeStamp = `${String(now.getHours()).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}`;
+  const fileName = `${patientId}_${petName}_${dateStamp}_${timeStamp}`.replace(/[^a-zA-Z0-9_]/g, "_");
+
+  const consultation = await storage.createConsultation({
+    clinicId: user.clinicId,
+    userId: user.id,
+    patientRecordId: patient.id,
+    customerName: patient.owner.name,
+    patientId,
+    petName,
+    fileName,
+    audioUrl: audioPath,
+    status: "processing",
+    processingStage: "uploaded",
+  });
+
+  // Transcription and the SOAP note run on the background job queue
+  return await queueConsultationProcessing(consultation);
+}
+
+// Finalizing is done by signing (POST /api/consultations/:id/sign), not by update.
 const consultationUpdateSchema = insertConsultationSchema.pick({
   finalSoapNote: true,
-  isFinalized: true,
+  speakerNames: true,
+}).extend({
+  // Why the SOAP note was changed, kept with its revision.
+  revisionReason: insertSoapNoteRevisionSchema.shape.reason,
 });
 
 function getAudioContentType(filePath: string) {
@@ -50,40 +132,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
-      res.json(user);
+      const clinic = await storage.getClinic(req.user.clinicId);
+      if (!user || !clinic) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      res.json({ ...toPublicUser(user), clinic, role: req.user.role });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
+  // Clinic and team management routes
+  app.put('/api/clinic', isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const updates = updateClinicSchema.parse(req.body);
+      const clinic = await storage.updateClinic(req.user.clinicId, updates);
+      res.json(clinic);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) return res.status(400).json({ message });
+      console.error("Error updating clinic:", error);
+      res.status(500).json({ message: "Failed to update clinic" });
+    }
+  });
+
+  app.get('/api/clinic/members', isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const members = await storage.getClinicMembers(req.user.clinicId);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching clinic members:", error);
+      res.status(500).json({ message: "Failed to fetch team members" });
+    }
+  });
+
+  app.put('/api/clinic/members/:userId', isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const { clinicId, id: currentUserId } = req.user;
+      const targetUserId = req.params.userId;
+      const updates = updateClinicMemberSchema.parse(req.body);
+
+      // Prevent administrators from locking themselves out.
+      if (targetUserId === currentUserId) {
+        return res.status(400).json({ message: "You can't change your own role or access" });
+      }
+
+      const membership = await storage.getClinicMembership(targetUserId);
+      if (!membership || membership.clinicId !== clinicId) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      if (updates.role) {
+        await storage.updateClinicMemberRole(clinicId, targetUserId, updates.role);
+      }
+      if (updates.isActive !== undefined) {
+        await storage.setUserActive(targetUserId, updates.isActive);
+      }
+
+      const members = await storage.getClinicMembers(clinicId);
+      res.json(members.find((member) => member.id === targetUserId));
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error updating clinic member:", error);
+      res.status(500).json({ message: "Failed to update team member" });
+    }
+  });
+
+  app.get('/api/clinic/staff', isAuthenticated, async (req: any, res) => {
+    try {
+      const members = await storage.getClinicMembers(req.user.clinicId);
+      res.json(
+        members
+          .filter((member) => member.isActive)
+          .map((member) => ({
+            id: member.id,
+            name: [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email,
+            role: member.role,
+          })),
+      );
+    } catch (error) {
+      console.error("Error fetching clinic staff:", error);
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.get('/api/clinic/invites', isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const invites = await storage.getClinicPendingInvites(req.user.clinicId);
+      res.json(invites.map(({ tokenHash: _tokenHash, ...invite }) => invite));
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.delete('/api/clinic/invites/:id', isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      await storage.deleteInvite(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Glossary routes. Terms bias transcription for the whole clinic, so anyone
+  // who can correct a transcript can maintain them.
+  app.get('/api/glossary', isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const terms = await storage.getGlossaryTerms(req.user.clinicId);
+      res.json(terms);
+    } catch (error) {
+      console.error("Error fetching glossary:", error);
+      res.status(500).json({ message: "Failed to fetch glossary" });
+    }
+  });
+
+  // Adding a term that already exists adds the mishearings to it instead.
+  app.post('/api/glossary', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const termData = glossaryTermInputSchema.parse(req.body);
+      const existing = await storage.findGlossaryTerm(clinicId, termData.term);
+      if (existing) {
+        const mishearings = Array.from(new Set([...existing.mishearings, ...termData.mishearings]));
+        if (mishearings.length > MAX_MISHEARINGS_PER_TERM) {
+          return res.status(400).json({ message: `At most ${MAX_MISHEARINGS_PER_TERM} mishearings per term` });
+        }
+        return res.json(await storage.updateGlossaryTerm(existing.id, clinicId, { mishearings }));
+      }
+      const term = await storage.createGlossaryTerm({ ...termData, clinicId, userId });
+      res.json(term);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating glossary term:", error);
+      res.status(500).json({ message: "Failed to add glossary term" });
+    }
+  });
+
+  app.put('/api/glossary/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const clinicId = req.user.clinicId;
+      const termId = parseInt(req.params.id);
+      const updates = updateGlossaryTermSchema.parse(req.body);
+      if (updates.term) {
+        const existing = await storage.findGlossaryTerm(clinicId, updates.term);
+        if (existing && existing.id !== termId) {
+          return res.status(409).json({ message: `"${existing.term}" is already in the glossary` });
+        }
+      }
+      const term = await storage.updateGlossaryTerm(termId, clinicId, updates);
+      if (!term) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      res.json(term);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error updating glossary term:", error);
+      res.status(500).json({ message: "Failed to update glossary term" });
+    }
+  });
+
+  app.delete('/api/glossary/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      await storage.deleteGlossaryTerm(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Glossary term deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting glossary term:", error);
+      res.status(500).json({ message: "Failed to delete glossary term" });
+    }
+  });
+
   // Consultation routes
-  app.post("/api/consultations", isAuthenticated, upload.single('audio'), async (req: any, res) => {
+  app.post("/api/consultations", isAuthenticated, requirePermission("consultations:record"), upload.single('audio'), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const { customerName, customerId } = req.body;
-      
-      if (!customerName && !customerId) {
-        return res.status(400).json({ message: "Customer name or ID is required" });
+      const { id: userId, clinicId } = req.user;
+      const patientRecordId = parseInt(req.body.patientRecordId);
+
+      if (!patientRecordId) {
+        return res.status(400).json({ message: "Patient is required" });
       }
 
       if (!req.file) {
         return res.status(400).json({ message: "Audio file is required" });
       }
 
-      const customerRecord = customerId
-        ? await storage.getCustomer(parseInt(customerId), userId)
-        : undefined;
-      if (customerId && !customerRecord) {
+      const patient = await storage.getPatient(patientRecordId, clinicId);
+      if (!patient) {
         return res.status(404).json({ message: "Patient not found" });
       }
-      const clientName = customerRecord?.name || customerName;
-      const patientId = customerRecord?.patientId || "unknown";
-      const petName = customerRecord?.petName || "patient";
-      const now = new Date();
-      const dateStamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
-      const timeStamp = `${String(now.getHours()).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}`;
-      const fileName = `${patientId}_${petName}_${dateStamp}_${timeStamp}`.replace(/[^a-zA-Z0-9_]/g, "_");
 
       // Determine file extension based on original filename or content type
       const originalName = req.file.originalname || 'recording.webm';
@@ -92,110 +339,748 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newPath = originalPath + extension;
       fs.renameSync(originalPath, newPath);
 
-      // Create consultation record - handle both new customer system and legacy
-      const consultation = await storage.createConsultation({
-        userId,
-        customerId: customerId ? parseInt(customerId) : undefined,
-        customerName: clientName,
-        patientId,
-        petName,
-        fileName,
-        audioUrl: newPath,
-        status: "processing",
-      });
+      res.json(await createRecordedConsultation({ id: userId, clinicId }, patient, newPath));
+    } catch (error) {
+      console.error("Error creating consultation:", error);
+      res.status(500).json({ message: "Failed to create consultation" });
+    }
+  });
+
+  // Chunked upload routes: start an upload, send its chunks in any order (resending
+  // is harmless), check which have arrived after a dropped connection, then
+  // complete it with the recording's SHA-256 to create the consultation.
+  const getOwnUpload = async (req: any) => {
+    const upload = await storage.getAudioUpload(parseInt(req.params.id), req.user.clinicId);
+    return upload?.userId === req.user.id ? upload : undefined;
+  };
+
+  app.post('/api/uploads', isAuthenticated, requirePermission("consultations:record"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const uploadData = audioUploadInputSchema.parse(req.body);
+      const patient = await storage.getPatient(uploadData.patientRecordId, clinicId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const upload = await storage.createAudioUpload({ ...uploadData, clinicId, userId, chunkSize: UPLOAD_CHUNK_SIZE });
+      res.json(await getUploadStatus(upload));
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error starting upload:", error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  app.get('/api/uploads/:id', isAuthenticated, requirePermission("consultations:record"), async (req: any, res) => {
+    try {
+      const upload = await getOwnUpload(req);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.json(await getUploadStatus(upload));
+    } catch (error) {
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  app.put(
+    '/api/uploads/:id/chunks/:index',
+    isAuthenticated,
+    requirePermission("consultations:record"),
+    express.raw({ type: "application/octet-stream", limit: UPLOAD_CHUNK_SIZE }),
+    async (req: any, res) => {
+      try {
+        const upload = await getOwnUpload(req);
+        if (!upload) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        if (upload.consultationId) {
+          return res.status(409).json({ message: "Upload is already complete" });
+        }
+        const index = Number(req.params.index);
+        if (!Number.isInteger(index) || index < 0 || index >= getChunkCount(upload.size, upload.chunkSize)) {
+          return res.status(400).json({ message: "Invalid chunk number" });
+        }
+        const data: unknown = req.body;
+        const expectedLength = getChunkLength(index, upload.size, upload.chunkSize);
+        if (!Buffer.isBuffer(data) || data.length !== expectedLength) {
+          return res.status(400).json({ message: `Chunk ${index} must be ${expectedLength} bytes of application/octet-stream` });
+        }
+
+        await writeChunk(upload.id, index, data);
+        await storage.touchAudioUpload(upload.id);
+        res.json({ index });
+      } catch (error) {
+        console.error("Error saving upload chunk:", error);
+        res.status(500).json({ message: "Failed to save chunk" });
+      }
+    },
+  );
 
-      // Process transcription in background
-      processTranscription(consultation.id, newPath);
+  app.post('/api/uploads/:id/complete', isAuthenticated, requirePermission("consultations:record"), async (req: any, res) => {
+    let lockedUploadId: number | undefined;
+    try {
+      const { sha256 } = completeAudioUploadSchema.parse(req.body);
+      const upload = await getOwnUpload(req);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      // A retry after the response to an earlier completion was lost.
+      if (upload.consultationId) {
+        return res.json(await storage.getConsultation(upload.consultationId, upload.clinicId));
+      }
+      if (completingUploads.has(upload.id)) {
+        return res.status(409).json({ message: "Upload is already being completed" });
+      }
 
+      const status = await getUploadStatus(upload);
+      const missing = status.chunkCount - status.receivedChunks.length;
+      if (missing > 0) {
+        return res.status(409).json({ message: `${missing} chunk(s) still to upload` });
+      }
+      const patient = await storage.getPatient(upload.patientRecordId, upload.clinicId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      completingUploads.add(upload.id);
+      lockedUploadId = upload.id;
+      const recording = await assembleChunks(upload);
+      if (recording.sha256 !== sha256) {
+        // No way to tell which chunk was damaged, so the recording is sent again.
+        fs.rmSync(recording.path, { force: true });
+        removeChunks(upload.id);
+        return res.status(422).json({ message: "Checksum does not match; upload the recording again" });
+      }
+
+      const consultation = await createRecordedConsultation(req.user, patient, recording.path);
+      await storage.completeAudioUpload(upload.id, consultation.id);
+      removeChunks(upload.id);
       res.json(consultation);
     } catch (error) {
-      console.error("Error creating consultation:", error);
-      res.status(500).json({ message: "Failed to create consultation" });
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error completing upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    } finally {
+      if (lockedUploadId !== undefined) completingUploads.delete(lockedUploadId);
     }
   });
 
-  // Customer routes
-  app.get('/api/customers', isAuthenticated, async (req: any, res) => {
+  // Owner routes
+  app.get('/api/owners', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const customers = await storage.getUserCustomers(userId);
-      res.json(customers);
+      const owners = await storage.getClinicOwners(req.user.clinicId);
+      res.json(owners);
     } catch (error) {
-      console.error("Error fetching customers:", error);
-      res.status(500).json({ message: "Failed to fetch customers" });
+      console.error("Error fetching owners:", error);
+      res.status(500).json({ message: "Failed to fetch owners" });
     }
   });
 
-  app.post('/api/customers', isAuthenticated, async (req: any, res) => {
+  app.post('/api/owners', isAuthenticated, requirePermission("customers:manage"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const customerData = insertCustomerSchema.parse({ ...req.body, userId });
-      const customer = await storage.createCustomer(customerData);
-      res.json(customer);
+      const { id: userId, clinicId } = req.user;
+      const ownerData = ownerInputSchema.parse(req.body);
+      const owner = await storage.createOwner({ ...ownerData, userId, clinicId });
+      res.json({ ...owner, patients: [] });
     } catch (error) {
-      console.error("Error creating customer:", error);
-      res.status(500).json({ message: "Failed to create customer" });
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating owner:", error);
+      res.status(500).json({ message: "Failed to create owner" });
     }
   });
 
-  app.get('/api/customers/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/owners/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const customerId = parseInt(req.params.id);
-      const customer = await storage.getCustomer(customerId, userId);
-      
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
+      const owner = await storage.getOwner(parseInt(req.params.id), req.user.clinicId);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
       }
-      
-      res.json(customer);
+      res.json(owner);
     } catch (error) {
-      console.error("Error fetching customer:", error);
-      res.status(500).json({ message: "Failed to fetch customer" });
+      console.error("Error fetching owner:", error);
+      res.status(500).json({ message: "Failed to fetch owner" });
     }
   });
 
-  app.get('/api/customers/:id/consultations', isAuthenticated, async (req: any, res) => {
+  app.put('/api/owners/:id', isAuthenticated, requirePermission("customers:manage"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const customerId = parseInt(req.params.id);
-      const consultations = await storage.getCustomerConsultations(customerId, userId);
+      const updates = updateOwnerSchema.parse(req.body);
+      const owner = await storage.updateOwner(parseInt(req.params.id), req.user.clinicId, updates);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      res.json(owner);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error updating owner:", error);
+      res.status(500).json({ message: "Failed to update owner" });
+    }
+  });
+
+  // Deleting an owner removes their patients; consultations keep their snapshot.
+  app.delete('/api/owners/:id', isAuthenticated, requirePermission("customers:manage"), async (req: any, res) => {
+    try {
+      await storage.deleteOwner(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Owner deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting owner:", error);
+      res.status(500).json({ message: "Failed to delete owner" });
+    }
+  });
+
+  // Patient routes
+  app.get('/api/patients', isAuthenticated, async (req: any, res) => {
+    try {
+      const patients = await storage.getClinicPatients(req.user.clinicId);
+      res.json(patients);
+    } catch (error) {
+      console.error("Error fetching patients:", error);
+      res.status(500).json({ message: "Failed to fetch patients" });
+    }
+  });
+
+  app.post('/api/patients', isAuthenticated, requirePermission("customers:manage"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const { ownerId, owner: newOwner, ...patientData } = createPatientSchema.parse(req.body);
+
+      let owner = ownerId !== undefined ? await storage.getOwner(ownerId, clinicId) : undefined;
+      if (ownerId !== undefined && !owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      if (!owner && newOwner) {
+        owner = { ...(await storage.createOwner({ ...newOwner, userId, clinicId })), patients: [] };
+      }
+
+      const patient = await storage.createPatient({ ...patientData, ownerId: owner!.id, userId, clinicId });
+      res.json({ ...patient, owner });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating patient:", error);
+      res.status(500).json({ message: "Failed to create patient" });
+    }
+  });
+
+  app.get('/api/patients/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const patient = await storage.getPatient(parseInt(req.params.id), req.user.clinicId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      console.error("Error fetching patient:", error);
+      res.status(500).json({ message: "Failed to fetch patient" });
+    }
+  });
+
+  app.get('/api/patients/:id/consultations', isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const consultations = await storage.getPatientConsultations(parseInt(req.params.id), req.user.clinicId);
       res.json(consultations);
     } catch (error) {
-      console.error("Error fetching customer consultations:", error);
-      res.status(500).json({ message: "Failed to fetch customer consultations" });
+      console.error("Error fetching patient consultations:", error);
+      res.status(500).json({ message: "Failed to fetch patient consultations" });
     }
   });
 
-  app.put('/api/customers/:id', isAuthenticated, async (req: any, res) => {
+  // Filters: ?types=consultation,vitals&from=YYYY-MM-DD&to=YYYY-MM-DD. Consultations, SOAP
+  // notes, addenda and vitals are left out for roles that can't read consultations.
+  app.get('/api/patients/:id/timeline', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const customerId = parseInt(req.params.id);
-      const updates = insertCustomerSchema.partial().parse(req.body);
-      const customer = await storage.updateCustomer(customerId, updates);
-      res.json(customer);
+      const { clinicId, role } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const { from, to } = req.query;
+      const isDate = (value: unknown) => value === undefined || (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value));
+      if (!isDate(from) || !isDate(to)) {
+        return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
+      }
+
+      const requested: readonly TimelineEventType[] = typeof req.query.types === "string"
+        ? req.query.types.split(",").filter(isTimelineEventType)
+        : TIMELINE_EVENT_TYPES;
+      const types = hasPermission(role, "consultations:read")
+        ? requested
+        : requested.filter((type) => !CLINICAL_EVENT_TYPES.includes(type));
+
+      if (!(await storage.getPatient(patientRecordId, clinicId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const events = await buildPatientTimeline(patientRecordId, clinicId, { types, from, to });
+      res.json(events);
     } catch (error) {
-      console.error("Error updating customer:", error);
-      res.status(500).json({ message: "Failed to update customer" });
+      console.error("Error fetching patient timeline:", error);
+      res.status(500).json({ message: "Failed to fetch patient timeline" });
     }
   });
 
-  app.delete('/api/customers/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/patients/:id', isAuthenticated, requirePermission("customers:manage"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const customerId = parseInt(req.params.id);
-      await storage.deleteCustomer(customerId, userId);
-      res.json({ message: "Customer deleted successfully" });
+      const { clinicId } = req.user;
+      const updates = updatePatientSchema.parse(req.body);
+      // Moving a patient to another owner must stay within the clinic.
+      if (updates.ownerId !== undefined && !(await storage.getOwner(updates.ownerId, clinicId))) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      const patient = await storage.updatePatient(parseInt(req.params.id), clinicId, updates);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
     } catch (error) {
-      console.error("Error deleting customer:", error);
-      res.status(500).json({ message: "Failed to delete customer" });
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error updating patient:", error);
+      res.status(500).json({ message: "Failed to update patient" });
     }
   });
 
-  app.get("/api/consultations", isAuthenticated, async (req: any, res) => {
+  app.delete('/api/patients/:id', isAuthenticated, requirePermission("customers:manage"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const consultations = await storage.getUserConsultations(userId);
+      await storage.deletePatient(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Patient deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting patient:", error);
+      res.status(500).json({ message: "Failed to delete patient" });
+    }
+  });
+
+  // Allergy and problem list routes. Readable by every role so allergy alerts are always visible.
+  app.get('/api/patients/:id/problem-list', isAuthenticated, async (req: any, res) => {
+    try {
+      const { clinicId } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const [allergies, problems] = await Promise.all([
+        storage.getPatientAllergies(patientRecordId, clinicId),
+        storage.getPatientProblems(patientRecordId, clinicId),
+      ]);
+      res.json({ allergies, problems });
+    } catch (error) {
+      console.error("Error fetching problem list:", error);
+      res.status(500).json({ message: "Failed to fetch problem list" });
+    }
+  });
+
+  app.post('/api/patients/:id/allergies', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const allergyData = allergyInputSchema.parse(req.body);
+      if (!(await storage.getPatient(patientRecordId, clinicId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const allergy = await storage.createPatientAllergy({ ...allergyData, clinicId, patientRecordId, userId });
+      res.json(allergy);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating allergy:", error);
+      res.status(500).json({ message: "Failed to add allergy" });
+    }
+  });
+
+  app.put('/api/allergies/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const updates = updateAllergySchema.parse(req.body);
+      const allergy = await storage.updatePatientAllergy(parseInt(req.params.id), req.user.clinicId, updates);
+      if (!allergy) {
+        return res.status(404).json({ message: "Allergy not found" });
+      }
+      res.json(allergy);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error updating allergy:", error);
+      res.status(500).json({ message: "Failed to update allergy" });
+    }
+  });
+
+  app.delete('/api/allergies/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      await storage.deletePatientAllergy(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Allergy deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting allergy:", error);
+      res.status(500).json({ message: "Failed to delete allergy" });
+    }
+  });
+
+  app.post('/api/patients/:id/problems', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const problemData = withResolvedDate(problemInputSchema.parse(req.body));
+      if (!(await storage.getPatient(patientRecordId, clinicId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const problem = await storage.createPatientProblem({ ...problemData, clinicId, patientRecordId, userId });
+      res.json(problem);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating problem:", error);
+      res.status(500).json({ message: "Failed to add problem" });
+    }
+  });
+
+  app.put('/api/problems/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const updates = withResolvedDate(updateProblemSchema.parse(req.body));
+      const problem = await storage.updatePatientProblem(parseInt(req.params.id), req.user.clinicId, updates);
+      if (!problem) {
+        return res.status(404).json({ message: "Problem not found" });
+      }
+      res.json(problem);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error updating problem:", error);
+      res.status(500).json({ message: "Failed to update problem" });
+    }
+  });
+
+  app.delete('/api/problems/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      await storage.deletePatientProblem(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Problem deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting problem:", error);
+      res.status(500).json({ message: "Failed to delete problem" });
+    }
+  });
+
+  // Vaccination routes. Readable by every role so front desk staff can send reminders.
+  app.get('/api/vaccinations/due', isAuthenticated, async (req: any, res) => {
+    try {
+      const days = parseInt(req.query.days) || DUE_SOON_DAYS;
+      const dueBy = toDateString(addDays(new Date(), days));
+      const vaccinations = await storage.getDueVaccinations(req.user.clinicId, dueBy);
+      res.json(vaccinations);
+    } catch (error) {
+      console.error("Error fetching due vaccinations:", error);
+      res.status(500).json({ message: "Failed to fetch due vaccinations" });
+    }
+  });
+
+  app.get('/api/patients/:id/vaccinations', isAuthenticated, async (req: any, res) => {
+    try {
+      const vaccinations = await storage.getPatientVaccinations(parseInt(req.params.id), req.user.clinicId);
+      res.json(vaccinations);
+    } catch (error) {
+      console.error("Error fetching vaccinations:", error);
+      res.status(500).json({ message: "Failed to fetch vaccinations" });
+    }
+  });
+
+  app.post('/api/patients/:id/vaccinations', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const vaccinationData = vaccinationInputSchema.parse(req.body);
+
+      if (!(await storage.getPatient(patientRecordId, clinicId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      if (vaccinationData.consultationId) {
+        const consultation = await storage.getConsultation(vaccinationData.consultationId, clinicId);
+        if (!consultation || consultation.patientRecordId !== patientRecordId) {
+          return res.status(404).json({ message: "Consultation not found" });
+        }
+      }
+      const administeredById = vaccinationData.administeredById || userId;
+      const administrator = await storage.getClinicMembership(administeredById);
+      if (!administrator || administrator.clinicId !== clinicId) {
+        return res.status(400).json({ message: "Administered by must be a member of this clinic" });
+      }
+
+      const vaccination = await storage.createPatientVaccination({
+        ...vaccinationData,
+        administeredById,
+        clinicId,
+        patientRecordId,
+        userId,
+      });
+      res.json(vaccination);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error recording vaccination:", error);
+      res.status(500).json({ message: "Failed to record vaccination" });
+    }
+  });
+
+  app.delete('/api/vaccinations/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      await storage.deletePatientVaccination(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Vaccination deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting vaccination:", error);
+      res.status(500).json({ message: "Failed to delete vaccination" });
+    }
+  });
+
+  app.get('/api/consultations/:id/vaccinations', isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const vaccinations = await storage.getConsultationVaccinations(parseInt(req.params.id), req.user.clinicId);
+      res.json(vaccinations);
+    } catch (error) {
+      console.error("Error fetching consultation vaccinations:", error);
+      res.status(500).json({ message: "Failed to fetch vaccinations" });
+    }
+  });
+
+  // Prescription routes. The medication list is readable by every role, like allergies.
+  app.get('/api/patients/:id/prescriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const prescriptions = await storage.getPatientPrescriptions(parseInt(req.params.id), req.user.clinicId);
+      res.json(prescriptions);
+    } catch (error) {
+      console.error("Error fetching prescriptions:", error);
+      res.status(500).json({ message: "Failed to fetch prescriptions" });
+    }
+  });
+
+  app.post('/api/patients/:id/prescriptions', isAuthenticated, requirePermission("prescriptions:prescribe"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const prescriptionData = prescriptionInputSchema.parse(req.body);
+
+      if (!(await storage.getPatient(patientRecordId, clinicId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      if (prescriptionData.consultationId) {
+        const consultation = await storage.getConsultation(prescriptionData.consultationId, clinicId);
+        if (!consultation || consultation.patientRecordId !== patientRecordId) {
+          return res.status(404).json({ message: "Consultation not found" });
+        }
+      }
+
+      const prescription = await storage.createPatientPrescription(
+        { ...prescriptionData, clinicId, patientRecordId, prescriberId: userId },
+        userId,
+      );
+      res.json(prescription);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error creating prescription:", error);
+      res.status(500).json({ message: "Failed to create prescription" });
+    }
+  });
+
+  app.post('/api/prescriptions/:id/stop', isAuthenticated, requirePermission("prescriptions:prescribe"), async (req: any, res) => {
+    try {
+      const prescription = await storage.stopPrescription(
+        parseInt(req.params.id),
+        req.user.clinicId,
+        toDateString(new Date()),
+      );
+      if (!prescription) {
+        return res.status(404).json({ message: "Prescription not found" });
+      }
+      res.json(prescription);
+    } catch (error) {
+      console.error("Error stopping prescription:", error);
+      res.status(500).json({ message: "Failed to stop prescription" });
+    }
+  });
+
+  app.delete('/api/prescriptions/:id', isAuthenticated, requirePermission("prescriptions:prescribe"), async (req: any, res) => {
+    try {
+      await storage.deletePatientPrescription(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Prescription deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting prescription:", error);
+      res.status(500).json({ message: "Failed to delete prescription" });
+    }
+  });
+
+  // Records a refill. The original fill is recorded when the prescription is written.
+  app.post('/api/prescriptions/:id/dispense', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const dispenseData = dispenseInputSchema.parse(req.body);
+
+      const prescription = await storage.getPrescription(parseInt(req.params.id), clinicId);
+      if (!prescription) {
+        return res.status(404).json({ message: "Prescription not found" });
+      }
+      if (!isCurrentPrescription(prescription)) {
+        return res.status(400).json({ message: "This prescription is no longer current" });
+      }
+      if (prescription.refillsRemaining === 0) {
+        return res.status(400).json({ message: "No refills remaining on this prescription" });
+      }
+
+      const dispensing = await storage.createPrescriptionDispensing({
+        clinicId,
+        prescriptionId: prescription.id,
+        dispensedById: userId,
+        quantity: dispenseData.quantity || prescription.quantity,
+        notes: dispenseData.notes,
+      });
+      res.json(dispensing);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error dispensing prescription:", error);
+      res.status(500).json({ message: "Failed to dispense prescription" });
+    }
+  });
+
+  app.get('/api/prescriptions/:id/label', isAuthenticated, async (req: any, res) => {
+    try {
+      const clinicId = req.user.clinicId;
+      const prescription = await storage.getPrescription(parseInt(req.params.id), clinicId);
+      if (!prescription) {
+        return res.status(404).json({ message: "Prescription not found" });
+      }
+      const patient = await storage.getPatient(prescription.patientRecordId, clinicId);
+      const clinic = await storage.getClinic(clinicId);
+
+      const doc = buildPrescriptionLabels({ clinicName: clinic?.name, patient, prescriptions: [prescription] });
+      const buffer = await Packer.toBuffer(doc);
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+      res.setHeader("Content-Disposition", `attachment; filename="prescription_${prescription.id}_label.docx"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error exporting prescription label:", error);
+      res.status(500).json({ message: "Failed to export prescription label" });
+    }
+  });
+
+  app.get('/api/consultations/:id/prescriptions', isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const prescriptions = await storage.getConsultationPrescriptions(parseInt(req.params.id), req.user.clinicId);
+      res.json(prescriptions);
+    } catch (error) {
+      console.error("Error fetching consultation prescriptions:", error);
+      res.status(500).json({ message: "Failed to fetch prescriptions" });
+    }
+  });
+
+  // Vitals routes
+  app.get('/api/patients/:id/vitals', isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const vitals = await storage.getPatientVitals(parseInt(req.params.id), req.user.clinicId);
+      res.json(vitals);
+    } catch (error) {
+      console.error("Error fetching patient vitals:", error);
+      res.status(500).json({ message: "Failed to fetch vitals" });
+    }
+  });
+
+  app.post('/api/patients/:id/vitals', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const patientRecordId = parseInt(req.params.id);
+      const vitalsData = vitalsInputSchema.parse(req.body);
+
+      const patient = await storage.getPatient(patientRecordId, clinicId);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      // Vitals taken during a consultation default to the time of the visit.
+      let measuredAt = vitalsData.measuredAt;
+      if (vitalsData.consultationId) {
+        const consultation = await storage.getConsultation(vitalsData.consultationId, clinicId);
+        if (!consultation || consultation.patientRecordId !== patientRecordId) {
+          return res.status(404).json({ message: "Consultation not found" });
+        }
+        measuredAt ??= consultation.recordedAt ?? undefined;
+      }
+
+      const vitals = await storage.createPatientVitals({
+        ...vitalsData,
+        measuredAt,
+        clinicId,
+        patientRecordId,
+        userId,
+      });
+      res.json(vitals);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error recording vitals:", error);
+      res.status(500).json({ message: "Failed to record vitals" });
+    }
+  });
+
+  app.delete('/api/vitals/:id', isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      await storage.deletePatientVitals(parseInt(req.params.id), req.user.clinicId);
+      res.json({ message: "Vitals deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting vitals:", error);
+      res.status(500).json({ message: "Failed to delete vitals" });
+    }
+  });
+
+  // Vitals already recorded for a consultation, plus values suggested from its transcript.
+  app.get('/api/consultations/:id/vitals', isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const { clinicId } = req.user;
+      const consultationId = parseInt(req.params.id);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
+      if (!consultation) {
+        return res.status(404).json({ message: "Consultation not found" });
+      }
+
+      const vitals = await storage.getConsultationVitals(consultationId, clinicId);
+      res.json({ vitals, suggested: extractVitalsFromTranscript(consultation.fullTranscription) });
+    } catch (error) {
+      console.error("Error fetching consultation vitals:", error);
+      res.status(500).json({ message: "Failed to fetch vitals" });
+    }
+  });
+
+  // Server-Sent Events stream of consultation changes in the user's clinic,
+  // so lists and detail pages update as processing moves through its stages.
+  app.get("/api/events", isAuthenticated, requirePermission("consultations:read"), (req: any, res) => {
+    subscribeToClinicEvents(req.user.clinicId, res);
+  });
+
+  app.get("/api/consultations", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const consultations = await storage.getClinicConsultations(req.user.clinicId);
       res.json(consultations);
     } catch (error) {
       console.error("Error fetching consultations:", error);
@@ -203,11 +1088,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/consultations/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/consultations/:id", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const clinicId = req.user.clinicId;
       const consultationId = parseInt(req.params.id);
-      const consultation = await storage.getConsultation(consultationId, userId);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
       
       if (!consultation) {
         return res.status(404).json({ message: "Consultation not found" });
@@ -220,11 +1105,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/consultations/:id/audio", isAuthenticated, async (req: any, res) => {
+  app.get("/api/consultations/:id/segments", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const segments = await storage.getTranscriptSegments(parseInt(req.params.id), req.user.clinicId);
+      res.json(segments);
+    } catch (error) {
+      console.error("Error fetching transcript segments:", error);
+      res.status(500).json({ message: "Failed to fetch transcript segments" });
+    }
+  });
+
+  app.get("/api/consultations/:id/audio", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const clinicId = req.user.clinicId;
       const consultationId = parseInt(req.params.id);
-      const consultation = await storage.getConsultation(consultationId, userId);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
 
       if (!consultation || !consultation.audioUrl) {
         return res.status(404).json({ message: "Audio file not found" });
@@ -291,52 +1186,267 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/consultations/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/consultations/:id", isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const clinicId = req.user.clinicId;
       const consultationId = parseInt(req.params.id);
-      const consultation = await storage.getConsultation(consultationId, userId);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
       if (!consultation) {
         return res.status(404).json({ message: "Consultation not found" });
       }
 
-      const updates = consultationUpdateSchema.partial().parse(req.body);
-      const updatedConsultation = await storage.updateConsultation(consultationId, updates);
+      // A signed note is part of the legal record; later information goes in an addendum.
+      if (consultation.isFinalized) {
+        return res.status(409).json({ message: "Signed consultations can't be edited; add an addendum instead" });
+      }
+      // The job writes the SOAP note when it finishes and would overwrite these edits.
+      if (await storage.getActiveConsultationJob(consultation.id)) {
+        return res.status(409).json({ message: "This consultation is being processed; try again when it has finished" });
+      }
+
+      const { revisionReason, ...updates } = consultationUpdateSchema.partial().parse(req.body);
+      const updatedConsultation = await storage.updateConsultationNote(consultation, updates, {
+        authorId: req.user.id,
+        reason: revisionReason,
+      });
+      if (!updatedConsultation) {
+        return res.status(409).json({ message: "Signed consultations can't be edited; add an addendum instead" });
+      }
+      publishConsultationUpdate(updatedConsultation);
       res.json(updatedConsultation);
     } catch (error) {
+      const message = validationMessage(error);
+      if (message) return res.status(400).json({ message });
       console.error("Error updating consultation:", error);
       res.status(500).json({ message: "Failed to update consultation" });
     }
   });
 
-  app.get("/api/consultations/:id/export", isAuthenticated, async (req: any, res) => {
+  // Signing finalizes the note for good: it can no longer be edited or reprocessed.
+  app.post("/api/consultations/:id/sign", isAuthenticated, requirePermission("consultations:finalize"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const user = req.user;
+      const consultation = await storage.getConsultation(parseInt(req.params.id), user.clinicId);
+      if (!consultation) {
+        return res.status(404).json({ message: "Consultation not found" });
+      }
+      if (consultation.isFinalized) {
+        return res.status(409).json({ message: "This SOAP note has already been finalized" });
+      }
+      if (await storage.getActiveConsultationJob(consultation.id)) {
+        return res.status(409).json({ message: "This consultation is being processed; try again when it has finished" });
+      }
+      if (!consultation.finalSoapNote || isSoapNoteEmpty(consultation.finalSoapNote)) {
+        return res.status(400).json({ message: "There is no SOAP note to sign" });
+      }
+
+      const signer = await storage.getUser(user.id);
+      if (!signer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const note = consultation.finalSoapNote;
+      const signature = createNoteSignature(signer);
+      // Only signs if the stored note is still the one hashed here.
+      const signed = await storage.signConsultation(consultation.id, user.clinicId, note, {
+        ...signature,
+        signatureHash: hashSignedNote(consultation.id, note, signature),
+      });
+      if (!signed) {
+        return res.status(409).json({ message: "The SOAP note changed or was finalized while signing; reload it and try again" });
+      }
+
+      publishConsultationUpdate(signed);
+      res.json(signed);
+    } catch (error) {
+      console.error("Error signing SOAP note:", error);
+      res.status(500).json({ message: "Failed to sign SOAP note" });
+    }
+  });
+
+  app.get("/api/consultations/:id/addenda", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const clinicId = req.user.clinicId;
+      const consultation = await storage.getConsultation(parseInt(req.params.id), clinicId);
+      if (!consultation) {
+        return res.status(404).json({ message: "Consultation not found" });
+      }
+
+      res.json(await storage.getConsultationAddenda(consultation.id, clinicId));
+    } catch (error) {
+      console.error("Error fetching addenda:", error);
+      res.status(500).json({ message: "Failed to fetch addenda" });
+    }
+  });
+
+  app.post("/api/consultations/:id/addenda", isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const consultation = await storage.getConsultation(parseInt(req.params.id), clinicId);
+      if (!consultation) {
+        return res.status(404).json({ message: "Consultation not found" });
+      }
+      if (!consultation.isFinalized) {
+        return res.status(409).json({ message: "Addenda are for finalized notes; edit the SOAP note instead" });
+      }
+
+      const input = addendumInputSchema.parse(req.body);
+      const addendum = await storage.createConsultationAddendum({
+        ...input,
+        clinicId,
+        consultationId: consultation.id,
+        authorId: userId,
+      });
+      res.json(addendum);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) return res.status(400).json({ message });
+      console.error("Error adding addendum:", error);
+      res.status(500).json({ message: "Failed to add addendum" });
+    }
+  });
+
+  app.get("/api/consultations/:id/revisions", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const clinicId = req.user.clinicId;
+      const consultation = await storage.getConsultation(parseInt(req.params.id), clinicId);
+      if (!consultation) {
+        return res.status(404).json({ message: "Consultation not found" });
+      }
+
+      res.json(await storage.getSoapNoteRevisions(consultation.id, clinicId));
+    } catch (error) {
+      console.error("Error fetching SOAP note revisions:", error);
+      res.status(500).json({ message: "Failed to fetch SOAP note revisions" });
+    }
+  });
+
+  // Correct the transcript. The machine transcript is kept alongside, and the
+  // SOAP note can be redrafted from the corrected text.
+  app.put("/api/consultations/:id/transcript", isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const { id: userId, clinicId } = req.user;
+      const consultation = await storage.getConsultation(parseInt(req.params.id), clinicId);
+      if (!consultation) {
+        return res.status(404).json({ message: "Consultation not found" });
+      }
+      if (consultation.isFinalized) {
+        return res.status(409).json({ message: "Finalized consultations can't be edited" });
+      }
+      if (!consultation.fullTranscription) {
+        return res.status(400).json({ message: "This consultation has no transcript yet" });
+      }
+      if (await storage.getActiveConsultationJob(consultation.id)) {
+        return res.status(409).json({ message: "This consultation is being processed; try again when it has finished" });
+      }
+
+      const { regenerateSoap, ...correction } = transcriptUpdateSchema.parse(req.body);
+      let updated = await storage.correctTranscript(consultation, correction, userId);
+      if (regenerateSoap) {
+        updated = await queueConsultationProcessing(updated, "soap-note");
+      } else {
+        publishConsultationUpdate(updated);
+      }
+      res.json(updated);
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) return res.status(400).json({ message });
+      console.error("Error correcting transcript:", error);
+      res.status(500).json({ message: "Failed to update transcript" });
+    }
+  });
+
+  // Re-run processing for a failed or unsatisfactory consultation. Retranscribing
+  // starts from the audio; regenerating redrafts the SOAP note from the saved transcript.
+  app.post("/api/consultations/:id/retranscribe", isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const consultation = await getReprocessableConsultation(parseInt(req.params.id), req.user.clinicId, res);
+      if (!consultation) return;
+      if (!consultation.audioUrl || !fs.existsSync(consultation.audioUrl)) {
+        return res.status(400).json({ message: "The audio for this consultation is no longer available" });
+      }
+
+      res.json(await queueConsultationProcessing(consultation, "transcription"));
+    } catch (error) {
+      console.error("Error retranscribing consultation:", error);
+      res.status(500).json({ message: "Failed to retranscribe consultation" });
+    }
+  });
+
+  app.post("/api/consultations/:id/regenerate-soap", isAuthenticated, requirePermission("consultations:edit"), async (req: any, res) => {
+    try {
+      const consultation = await getReprocessableConsultation(parseInt(req.params.id), req.user.clinicId, res);
+      if (!consultation) return;
+      if (!consultation.fullTranscription) {
+        return res.status(400).json({ message: "This consultation has no transcript yet; retranscribe it instead" });
+      }
+
+      res.json(await queueConsultationProcessing(consultation, "soap-note"));
+    } catch (error) {
+      console.error("Error regenerating SOAP note:", error);
+      res.status(500).json({ message: "Failed to regenerate SOAP note" });
+    }
+  });
+
+  app.get("/api/consultations/:id/export", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
+    try {
+      const clinicId = req.user.clinicId;
       const consultationId = parseInt(req.params.id);
-      const type = req.query.type === "soap" ? "soap" : "transcript";
+      const type = req.query.type === "soap" || req.query.type === "prescriptions" ? req.query.type : "transcript";
       const source = req.query.source === "ai" ? "ai" : "final";
 
-      const consultation = await storage.getConsultation(consultationId, userId);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
       if (!consultation) {
         return res.status(404).json({ message: "Consultation not found" });
       }
 
+      const patient = consultation.patientRecordId
+        ? await storage.getPatient(consultation.patientRecordId, clinicId)
+        : undefined;
+      const prescriptions = await storage.getConsultationPrescriptions(consultationId, clinicId);
+      const baseName = consultation.fileName || `consultation_${consultationId}`;
+
+      if (type === "prescriptions") {
+        if (prescriptions.length === 0) {
+          return res.status(404).json({ message: "No prescriptions for this consultation" });
+        }
+        const clinic = await storage.getClinic(clinicId);
+        const buffer = await Packer.toBuffer(buildPrescriptionLabels({ clinicName: clinic?.name, patient, prescriptions }));
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+        res.setHeader("Content-Disposition", `attachment; filename="${baseName}_prescriptions.docx"`);
+        return res.send(buffer);
+      }
+
       const isTranscript = type === "transcript";
       const title = isTranscript ? "Full Transcript" : "SOAP Note";
+      // Transcripts with identified speakers are exported as "Vet: …" lines.
+      const segments = isTranscript ? await storage.getTranscriptSegments(consultationId, clinicId) : [];
       const bodyText = isTranscript
-        ? consultation.fullTranscription || ""
-        : source === "ai"
-          ? consultation.aiSoapNote || ""
-          : consultation.finalSoapNote || consultation.aiSoapNote || "";
+        ? segments.some((segment) => segment.speaker)
+          ? formatSpeakerTranscript(segments, consultation.speakerNames)
+          : consultation.fullTranscription || ""
+        : undefined;
+      const soapNote = isTranscript
+        ? undefined
+        : (source === "ai" ? consultation.aiSoapNote : consultation.finalSoapNote || consultation.aiSoapNote) || EMPTY_SOAP_NOTE;
+      // The signature and addenda belong to the final note, not the AI draft.
+      const isFinalNote = !isTranscript && source === "final";
+      const addenda = isFinalNote ? await storage.getConsultationAddenda(consultationId, clinicId) : [];
+
+      const vaccinations = await storage.getConsultationVaccinations(consultationId, clinicId);
 
       const doc = buildDocxDocument({
         title,
         consultation,
+        patient,
+        vaccinations,
+        prescriptions,
         bodyText,
+        soapNote,
+        signature: isFinalNote ? getExportSignature(consultation) : undefined,
+        addenda,
       });
       const buffer = await Packer.toBuffer(doc);
 
-      const baseName = consultation.fileName || `consultation_${consultationId}`;
       const suffix = isTranscript ? "transcript" : "soap_note";
       const fileName = `${baseName}_${suffix}.docx`;
 
@@ -349,12 +1459,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/consultations/:id/download", isAuthenticated, async (req: any, res) => {
+  app.get("/api/consultations/:id/download", isAuthenticated, requirePermission("consultations:read"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const clinicId = req.user.clinicId;
       const consultationId = parseInt(req.params.id);
       
-      const consultation = await storage.getConsultation(consultationId, userId);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
       if (!consultation || !consultation.audioUrl) {
         return res.status(404).json({ message: "Audio file not found" });
       }
@@ -442,13 +1552,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/consultations/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/consultations/:id", isAuthenticated, requirePermission("consultations:delete"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const clinicId = req.user.clinicId;
       const consultationId = parseInt(req.params.id);
       
       // Get consultation to find audio file
-      const consultation = await storage.getConsultation(consultationId, userId);
+      const consultation = await storage.getConsultation(consultationId, clinicId);
+      // A signed note is part of the legal record.
+      if (consultation?.isFinalized) {
+        return res.status(409).json({ message: "Signed consultations can't be deleted" });
+      }
       if (consultation && consultation.audioUrl) {
         // Delete audio file
         try {
@@ -463,7 +1577,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      await storage.deleteConsultation(consultationId, userId);
+      await storage.deleteConsultation(consultationId, clinicId);
+      publishConsultationDeleted(clinicId, consultationId);
       res.json({ message: "Consultation deleted successfully" });
     } catch (error) {
       console.error("Error deleting consultation:", error);
@@ -475,57 +1590,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-async function processTranscription(consultationId: number, audioFilePath: string) {
-  try {
-    // Transcribe audio
-    const { text } = await transcribeAudio(audioFilePath);
-    
-    // Generate SOAP note
-    const soapNote = await generateSoapNote(text);
-    const formattedSoap = `Subjective:\n${soapNote.subjective}\n\nObjective:\n${soapNote.objective}\n\nAssessment:\n${soapNote.assessment}\n\nPlan:\n${soapNote.plan}`;
-
-    // Update consultation with results
-    await storage.updateConsultation(consultationId, {
-      fullTranscription: text,
-      aiSoapNote: formattedSoap,
-      finalSoapNote: formattedSoap,
-      status: "completed",
-    });
-
-    console.log(`Transcription completed for consultation ${consultationId}`);
-  } catch (error) {
-    console.error(`Error processing transcription for consultation ${consultationId}:`, error);
-    
-    // Update consultation with error status
-    await storage.updateConsultation(consultationId, {
-      status: "failed",
-    });
+// Resolving a problem stamps today's date unless one was given; reactivating clears it.
+function withResolvedDate<T extends { status?: string; resolvedDate?: string | null }>(problem: T): T {
+  if (problem.status === "resolved" && !problem.resolvedDate) {
+    return { ...problem, resolvedDate: new Date().toISOString().slice(0, 10) };
   }
+  if (problem.status === "active") {
+    return { ...problem, resolvedDate: null };
+  }
+  return problem;
+}
+
+// Loads a consultation that can be sent back through processing, otherwise
+// responds with the reason and returns undefined.
+async function getReprocessableConsultation(consultationId: number, clinicId: number, res: Response) {
+  const consultation = await storage.getConsultation(consultationId, clinicId);
+  if (!consultation) {
+    res.status(404).json({ message: "Consultation not found" });
+    return undefined;
+  }
+  if (consultation.isFinalized) {
+    res.status(409).json({ message: "Finalized consultations can't be reprocessed" });
+    return undefined;
+  }
+  if (await storage.getActiveConsultationJob(consultation.id)) {
+    res.status(409).json({ message: "This consultation is already being processed" });
+    return undefined;
+  }
+  return consultation;
+}
+
+type ExportSignature = { signedByName: string; signedAt: Date; signatureHash: string; isValid: boolean };
+
+function getExportSignature(consultation: Consultation): ExportSignature | undefined {
+  const { signedByName, signedAt, signatureHash } = consultation;
+  if (!signedByName || !signedAt || !signatureHash) return undefined;
+  return { signedByName, signedAt, signatureHash, isValid: isSignatureValid(consultation) };
 }
 
 function buildDocxDocument({
   title,
   consultation,
+  patient,
+  vaccinations = [],
+  prescriptions = [],
   bodyText,
+  soapNote,
+  signature,
+  addenda = [],
 }: {
   title: string;
   consultation: any;
-  bodyText: string;
+  patient?: Patient;
+  vaccinations?: VaccinationWithAdministrator[];
+  prescriptions?: PrescriptionWithHistory[];
+  bodyText?: string;
+  soapNote?: SoapNote;
+  signature?: ExportSignature;
+  addenda?: AddendumWithAuthor[];
 }) {
+  const visitDate = consultation.recordedAt ? new Date(consultation.recordedAt) : undefined;
+  // Age is given as of the visit so older exports stay accurate.
+  const signalmentLines = patient
+    ? [
+        `Species: ${formatSpecies(patient.species) || "Unknown"}`,
+        `Breed: ${patient.breed || "Unknown"}`,
+        `Sex: ${formatSex(patient.sex, patient.neutered) || "Unknown"}`,
+        `Date of Birth: ${patient.dateOfBirth
+          ? `${patient.dateOfBirth} (${formatAge(patient.dateOfBirth, visitDate) || "age unknown"} at visit)`
+          : "Unknown"}`,
+        ...(patient.colour ? [`Colour/Markings: ${patient.colour}`] : []),
+        ...(patient.microchipNumber ? [`Microchip: ${patient.microchipNumber}`] : []),
+      ]
+    : [];
   const headerLines = [
     `Patient ID: ${consultation.patientId || "Unknown"}`,
     `Pet Name: ${consultation.petName || "Unknown"}`,
+    ...signalmentLines,
     `Client Name: ${consultation.customerName || "Unknown"}`,
-    `Visit Date: ${consultation.recordedAt ? new Date(consultation.recordedAt).toLocaleString() : "Unknown"}`,
+    `Visit Date: ${visitDate ? visitDate.toLocaleString() : "Unknown"}`,
   ];
 
   const paragraphs = [
     new Paragraph({ text: title, heading: HeadingLevel.HEADING_1 }),
     ...headerLines.map((line) => new Paragraph({ text: line })),
     new Paragraph({ text: "" }),
-    ...bodyText.split("\n").map((line) => new Paragraph({ children: [new TextRun(line)] })),
   ];
 
+  if (bodyText !== undefined) {
+    paragraphs.push(...bodyText.split("\n").map((line) => new Paragraph({ children: [new TextRun(line)] })));
+  }
+  // Each SOAP section under its own heading, so it reads as a document rather than a text dump.
+  if (soapNote) {
+    for (const section of SOAP_SECTIONS) {
+      paragraphs.push(
+        new Paragraph({ text: SOAP_SECTION_LABELS[section], heading: HeadingLevel.HEADING_2 }),
+        ...soapNote[section].trim().split("\n").map((line) => new Paragraph({ children: [new TextRun(line)] })),
+      );
+    }
+  }
+  if (signature) {
+    paragraphs.push(
+      new Paragraph({ text: "" }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `Electronically signed by ${signature.signedByName} on ${signature.signedAt.toLocaleString()}`,
+            bold: true,
+          }),
+        ],
+      }),
+      new Paragraph({ text: `SHA-256: ${signature.signatureHash}` }),
+      ...(signature.isValid
+        ? []
+        : [new Paragraph({ children: [new TextRun({ text: "Warning: the note no longer matches its signature", bold: true })] })]),
+    );
+  }
+
+  // Added after signing, so they follow the signature.
+  if (addenda.length > 0) {
+    paragraphs.push(new Paragraph({ text: "" }), new Paragraph({ text: "Addenda", heading: HeadingLevel.HEADING_2 }));
+    for (const addendum of addenda) {
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: `${new Date(addendum.createdAt).toLocaleString()} · ${addendum.authorName || "Unknown user"}`,
+              bold: true,
+            }),
+          ],
+        }),
+        ...addendum.text.split("\n").map((line) => new Paragraph({ children: [new TextRun(line)] })),
+      );
+    }
+  }
+
+  if (vaccinations.length > 0) {
+    paragraphs.push(
+      new Paragraph({ text: "" }),
+      new Paragraph({ text: "Vaccinations Administered", heading: HeadingLevel.HEADING_2 }),
+      ...vaccinations.map((vaccination) => new Paragraph({
+        text: [
+          vaccination.vaccine,
+          vaccination.batchNumber && `Batch ${vaccination.batchNumber}`,
+          vaccination.expiryDate && `exp. ${vaccination.expiryDate}`,
+          vaccination.site,
+          vaccination.administeredByName && `given by ${vaccination.administeredByName}`,
+          vaccination.nextDueDate && `next due ${vaccination.nextDueDate}`,
+        ].filter(Boolean).join(" · "),
+        bullet: { level: 0 },
+      })),
+    );
+  }
+
+  if (prescriptions.length > 0) {
+    paragraphs.push(
+      new Paragraph({ text: "" }),
+      new Paragraph({ text: "Prescriptions", heading: HeadingLevel.HEADING_2 }),
+      ...prescriptions.map((prescription) => new Paragraph({
+        text: [
+          [prescription.drug, prescription.strength].filter(Boolean).join(" "),
+          formatDirections(prescription),
+          `Qty ${prescription.quantity}`,
+          `${prescription.refills} refill${prescription.refills === 1 ? "" : "s"}`,
+          prescription.prescriberName && `prescribed by ${prescription.prescriberName}`,
+        ].filter(Boolean).join(" · "),
+        bullet: { level: 0 },
+      })),
+    );
+  }
+
+  return new Document({
+    sections: [{ properties: {}, children: paragraphs }],
+  });
+}
+
+// One printable label per prescription, each on its own page.
+function buildPrescriptionLabels({
+  clinicName,
+  patient,
+  prescriptions,
+}: {
+  clinicName?: string;
+  patient?: PatientWithOwner;
+  prescriptions: PrescriptionWithHistory[];
+}) {
+  const paragraphs = prescriptions.flatMap((prescription, index) => [
+    new Paragraph({
+      children: [new TextRun({ text: clinicName || "Veterinary Prescription", bold: true })],
+      pageBreakBefore: index > 0,
+    }),
+    new Paragraph({
+      text: [prescription.drug, prescription.strength].filter(Boolean).join(" "),
+      heading: HeadingLevel.HEADING_2,
+    }),
+    new Paragraph({ children: [new TextRun({ text: formatDirections(prescription), bold: true })] }),
+    ...(prescription.instructions ? [new Paragraph({ text: prescription.instructions })] : []),
+    new Paragraph({ text: "" }),
+    new Paragraph({ text: `Patient: ${patient?.name || "Unknown"}${patient?.species ? ` (${formatSpecies(patient.species)})` : ""}` }),
+    new Paragraph({ text: `Owner: ${patient?.owner.name || "Unknown"}` }),
+    new Paragraph({ text: `Quantity: ${prescription.quantity}` }),
+    new Paragraph({ text: `Refills remaining: ${prescription.refillsRemaining} of ${prescription.refills}` }),
+    new Paragraph({ text: `Prescribed by: ${prescription.prescriberName || "Unknown"}` }),
+    new Paragraph({ text: `Date: ${prescription.startDate}` }),
+    new Paragraph({ children: [new TextRun({ text: "For animal treatment only. Keep out of reach of children.", italics: true })] }),
+  ]);
+
   return new Document({
     sections: [{ properties: {}, children: paragraphs }],
   });
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Consultation } from "@shared/schema";
+import { createNoteSignature, hashSignedNote, isSignatureValid } from "./signatures";
+
+const note = {
+  subjective: "Vomiting since yesterday",
+  objective: "T 38.9 C, mild abdominal pain",
+  assessment: "Dietary indiscretion",
+  plan: "Bland diet, recheck in 3 days",
+};
+const signedAt = new Date("2026-01-15T10:30:00Z");
+
+function signedConsultation(signer: Parameters<typeof createNoteSignature>[0]): Consultation {
+  const signature = createNoteSignature(signer, signedAt);
+  return {
+    id: 7,
+    finalSoapNote: note,
+    isFinalized: true,
+    ...signature,
+    signatureHash: hashSignedNote(7, note, signature),
+  } as Consultation;
+}
+
+test("stores the signer's full name", () => {
+  const consultation = signedConsultation({ id: "u1", email: "jane@example.com", firstName: "Jane", lastName: "Doe" });
+  assert.equal(consultation.signedById, "u1");
+  assert.equal(consultation.signedByName, "Jane Doe");
+  assert.equal(isSignatureValid(consultation), true);
+});
+
+test("falls back to the email address when the signer has no name", () => {
+  const consultation = signedConsultation({ id: "u2", email: "vet@example.com", firstName: null, lastName: null });
+  assert.equal(consultation.signedByName, "vet@example.com");
+});
+
+test("no longer verifies once the note or the signer's name changes", () => {
+  const consultation = signedConsultation({ id: "u1", email: "jane@example.com", firstName: "Jane", lastName: "Doe" });
+  assert.equal(isSignatureValid({ ...consultation, finalSoapNote: { ...note, plan: "Surgery" } }), false);
+  assert.equal(isSignatureValid({ ...consultation, signedByName: "Someone Else" }), false);
+});
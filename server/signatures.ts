@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import type { Consultation, User } from "@shared/schema";
+import { SOAP_SECTIONS, type SoapNote } from "@shared/soap";
+
+// Electronic signatures on SOAP notes. The hash covers the signed note together
+// with who signed it and when, so a later change to any of them in the stored
+// record shows up as a signature that no longer verifies.
+
+export type NoteSignature = {
+  signedById: string;
+  signedByName: string;
+  signedAt: Date;
+};
+
+// The signer's name is stored with the signature, so it still reads correctly
+// if their account is renamed or removed later.
+export function createNoteSignature(
+  signer: Pick<User, "id" | "email" | "firstName" | "lastName">,
+  signedAt: Date = new Date(),
+): NoteSignature {
+  return {
+    signedById: signer.id,
+    signedByName: [signer.firstName, signer.lastName].filter(Boolean).join(" ") || signer.email || signer.id,
+    signedAt,
+  };
+}
+
+export function hashSignedNote(consultationId: number, note: SoapNote, signature: NoteSignature): string {
+  const content = JSON.stringify({
+    consultationId,
+    note: SOAP_SECTIONS.map((section) => [section, note[section]]),
+    signedById: signature.signedById,
+    signedByName: signature.signedByName,
+    signedAt: signature.signedAt.toISOString(),
+  });
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+// False for unsigned notes, including those finalized before signatures existed.
+export function isSignatureValid(consultation: Consultation): boolean {
+  const { finalSoapNote, signedById, signedByName, signedAt, signatureHash } = consultation;
+  if (!finalSoapNote || !signedById || !signedByName || !signedAt || !signatureHash) return false;
+  return hashSignedNote(consultation.id, finalSoapNote, { signedById, signedByName, signedAt }) === signatureHash;
+}
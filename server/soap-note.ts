@@ -0,0 +1,93 @@
+import { getLlmProvider } from "./llm";
+import type { PatientAllergy, PatientPrescription, PatientProblem } from "@shared/schema";
+import type { LlmGenerationMetadata } from "@shared/llm";
+import { formatDirections } from "@shared/prescriptions";
+import { EMPTY_SOAP_NOTE, SOAP_SECTIONS, SOAP_SECTION_DESCRIPTIONS, type SoapNote } from "@shared/soap";
+
+// Drafts a SOAP note from a consultation transcript with the configured language model.
+
+// What is already known about the patient, given to the model as background.
+export type SoapNoteContext = {
+  signalment?: string;
+  allergies: PatientAllergy[];
+  problems: PatientProblem[];
+  medications: PatientPrescription[];
+};
+
+function formatSoapNoteContext({ signalment, allergies, problems, medications }: SoapNoteContext): string {
+  const lines: string[] = [];
+  if (signalment) {
+    lines.push(`Signalment: ${signalment}`);
+  }
+  lines.push(
+    allergies.length
+      ? `Known allergies: ${allergies
+          .map((allergy) => `${allergy.allergen} (${[allergy.severity, allergy.reaction].filter(Boolean).join(", ")})`)
+          .join("; ")}`
+      : "Known allergies: none recorded",
+  );
+  const problemLines = problems.map((problem) => {
+    const details = [
+      problem.status,
+      problem.isChronic ? "chronic" : null,
+      problem.onsetDate ? `onset ${problem.onsetDate}` : null,
+    ].filter(Boolean);
+    return `- ${problem.name} (${details.join(", ")})`;
+  });
+  lines.push(problemLines.length ? `Problem list:\n${problemLines.join("\n")}` : "Problem list: none recorded");
+  const medicationLines = medications.map((medication) =>
+    `- ${[medication.drug, medication.strength].filter(Boolean).join(" ")}: ${formatDirections(medication)}`,
+  );
+  lines.push(medicationLines.length ? `Current medications:\n${medicationLines.join("\n")}` : "Current medications: none recorded");
+  return lines.join("\n");
+}
+
+export async function generateSoapNote(
+  fullTranscription: string,
+  context?: SoapNoteContext,
+): Promise<{ soapNote: SoapNote; metadata: LlmGenerationMetadata }> {
+  try {
+    const prompt = `
+You are a veterinary clinical assistant. Analyze the following consultation transcription and extract only clinically relevant information. Exclude chit-chat and non-medical conversation.
+
+Please provide a SOAP note in JSON format with the following fields:
+${SOAP_SECTIONS.map((section) => `- ${section}: ${SOAP_SECTION_DESCRIPTIONS[section]}`).join("\n")}
+
+If a section is not mentioned in the transcript, use "Not mentioned".
+
+Lines may start with the speaker, e.g. "Vet:" or "Owner:". History and concerns reported by
+the owner belong in Subjective; the vet's examination findings and measurements belong in
+Objective. If speakers are only numbered, work out from the conversation who is who.
+${context ? `
+The patient's existing record is below. Use it to interpret the consultation and to flag
+anything in the plan that conflicts with a known allergy or current medication, but do not
+report it as a finding from this visit unless it was discussed.
+
+Patient record:
+${formatSoapNoteContext(context)}
+` : ""}
+Transcription:
+${fullTranscription}
+
+Respond with only the JSON object.`;
+
+    const { content, metadata } = await getLlmProvider().completeJson({
+      task: "soap-note",
+      system: "You are a veterinary clinical assistant that extracts structured clinical information from consultation transcriptions.",
+      prompt,
+    });
+
+    const result = JSON.parse(content);
+    const soapNote = { ...EMPTY_SOAP_NOTE };
+    for (const section of SOAP_SECTIONS) {
+      // Models occasionally answer a section as a list of points.
+      const text = Array.isArray(result[section]) ? result[section].join("\n") : result[section];
+      soapNote[section] = typeof text === "string" && text.trim() ? text.trim() : "Not mentioned";
+    }
+
+    return { soapNote, metadata };
+  } catch (error) {
+    console.error("Error generating SOAP note:", error);
+    throw new Error("Failed to generate SOAP note: " + (error as Error).message);
+  }
+}
@@ -1,16 +1,75 @@
 import {
   users,
-  customers,
+  clinics,
+  clinicMembers,
+  userInvites,
+  passwordResetTokens,
+  owners,
+  patients,
   consultations,
+  patientVitals,
+  patientAllergies,
+  patientProblems,
+  patientVaccinations,
+  patientPrescriptions,
+  prescriptionDispensings,
+  jobs,
+  transcriptSegments,
+  glossaryTerms,
+  audioUploads,
+  soapNoteRevisions,
+  consultationAddenda,
   type User,
   type UpsertUser,
-  type Customer,
-  type InsertCustomer,
+  type Clinic,
+  type UpdateClinic,
+  type ClinicMember,
+  type ClinicMemberWithUser,
+  type UserInvite,
+  type InsertUserInvite,
+  type PasswordResetToken,
+  type Owner,
+  type InsertOwner,
+  type Patient,
+  type InsertPatient,
+  type PatientWithOwner,
+  type OwnerWithPatients,
   type Consultation,
   type InsertConsultation,
+  type PatientVitals,
+  type InsertPatientVitals,
+  type PatientAllergy,
+  type InsertPatientAllergy,
+  type PatientProblem,
+  type InsertPatientProblem,
+  type InsertPatientVaccination,
+  type VaccinationWithAdministrator,
+  type DueVaccination,
+  type PatientPrescription,
+  type InsertPatientPrescription,
+  type PrescriptionDispensing,
+  type InsertPrescriptionDispensing,
+  type PrescriptionWithHistory,
+  type Job,
+  type InsertJob,
+  type TranscriptSegment,
+  type GlossaryTerm,
+  type InsertGlossaryTerm,
+  type GlossaryTermInput,
+  type AudioUpload,
+  type InsertAudioUpload,
+  type InsertTranscriptSegment,
+  type InsertSoapNoteRevision,
+  type SoapNoteRevisionWithAuthor,
+  type InsertConsultationAddendum,
+  type ConsultationAddendum,
+  type AddendumWithAuthor,
 } from "@shared/schema";
+import { getRefillsRemaining } from "@shared/prescriptions";
+import { isSoapNoteEqual, type SoapNote } from "@shared/soap";
+import { isRole, type Role } from "@shared/permissions";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, asc, desc, and, isNotNull, isNull, gt, lte, inArray, sql, type SQL } from "drizzle-orm";
 
 // Interface for storage operations
 export interface IStorage {
@@ -18,23 +77,176 @@ export interface IStorage {
   // These user operations are required for authentication.
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: UpsertUser): Promise<User>;
+  updateUserPassword(id: string, passwordHash: string): Promise<void>;
+  setUserActive(id: string, isActive: boolean): Promise<void>;
+  hasCredentialedUsers(): Promise<boolean>;
+  // Creates the account and its clinic membership in one transaction: joining
+  // the clinic of the invite, which is claimed as part of it, or else creating
+  // a clinic as the first account. Undefined if the invite is no longer pending
+  // or, without one, an account already exists.
+  registerUser(
+    user: UpsertUser,
+    clinic: { inviteTokenHash: string } | { clinicName: string },
+  ): Promise<{ user: User; membership: ClinicMember } | undefined>;
+
+  // Clinic operations
+  createClinic(name: string): Promise<Clinic>;
+  getClinic(id: number): Promise<Clinic | undefined>;
+  updateClinic(id: number, updates: UpdateClinic): Promise<Clinic>;
+  addClinicMember(clinicId: number, userId: string, role: Role): Promise<ClinicMember>;
+  getClinicMembership(userId: string): Promise<ClinicMember | undefined>;
+  getClinicMembers(clinicId: number): Promise<ClinicMemberWithUser[]>;
+  updateClinicMemberRole(clinicId: number, userId: string, role: Role): Promise<ClinicMember | undefined>;
+
+  // Invite and password reset operations
+  createInvite(invite: InsertUserInvite): Promise<UserInvite>;
+  getPendingInvite(tokenHash: string): Promise<UserInvite | undefined>;
+  getClinicPendingInvites(clinicId: number): Promise<UserInvite[]>;
+  deleteInvite(id: number, clinicId: number): Promise<void>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  claimPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
   
-  // Customer operations
-  createCustomer(customer: InsertCustomer): Promise<Customer>;
-  getCustomer(id: number, userId: string): Promise<Customer | undefined>;
-  getUserCustomers(userId: string): Promise<Customer[]>;
-  updateCustomer(id: number, updates: Partial<InsertCustomer>): Promise<Customer>;
-  deleteCustomer(id: number, userId: string): Promise<void>;
+  // Owner operations
+  createOwner(owner: InsertOwner): Promise<Owner>;
+  getOwner(id: number, clinicId: number): Promise<OwnerWithPatients | undefined>;
+  getClinicOwners(clinicId: number): Promise<OwnerWithPatients[]>;
+  updateOwner(id: number, clinicId: number, updates: Partial<InsertOwner>): Promise<Owner | undefined>;
+  deleteOwner(id: number, clinicId: number): Promise<void>;
+
+  // Patient operations
+  createPatient(patient: InsertPatient): Promise<Patient>;
+  getPatient(id: number, clinicId: number): Promise<PatientWithOwner | undefined>;
+  getClinicPatients(clinicId: number): Promise<PatientWithOwner[]>;
+  updatePatient(id: number, clinicId: number, updates: Partial<InsertPatient>): Promise<Patient | undefined>;
+  deletePatient(id: number, clinicId: number): Promise<void>;
   
   // Consultation operations
   createConsultation(consultation: InsertConsultation): Promise<Consultation>;
-  getConsultation(id: number, userId: string): Promise<Consultation | undefined>;
-  getUserConsultations(userId: string): Promise<Consultation[]>;
-  getCustomerConsultations(customerId: number, userId: string): Promise<Consultation[]>;
+  getConsultation(id: number, clinicId: number): Promise<Consultation | undefined>;
+  getClinicConsultations(clinicId: number): Promise<Consultation[]>;
+  getPatientConsultations(patientRecordId: number, clinicId: number): Promise<Consultation[]>;
+  // Not clinic-scoped: also used by background processing, which has no request context.
   updateConsultation(id: number, updates: Partial<InsertConsultation>): Promise<Consultation>;
-  deleteConsultation(id: number, userId: string): Promise<void>;
+  // Signed consultations are never deleted.
+  deleteConsultation(id: number, clinicId: number): Promise<void>;
+
+  // SOAP note revision operations
+  // Applies the updates and, if they change the final SOAP note, records the new
+  // version as a revision in the same transaction. Undefined if the note has
+  // been finalized, which leaves it unchanged.
+  updateConsultationNote(
+    consultation: Consultation,
+    updates: Partial<InsertConsultation>,
+    revision: Pick<InsertSoapNoteRevision, "authorId" | "reason">,
+  ): Promise<Consultation | undefined>;
+  // Oldest first.
+  getSoapNoteRevisions(consultationId: number, clinicId: number): Promise<SoapNoteRevisionWithAuthor[]>;
+
+  // Signature and addendum operations
+  // Signs and finalizes the note, provided it is still the one the signature
+  // covers; undefined if it has since changed or was already finalized.
+  signConsultation(
+    id: number,
+    clinicId: number,
+    note: SoapNote,
+    signature: Pick<InsertConsultation, "signedById" | "signedByName" | "signedAt" | "signatureHash">,
+  ): Promise<Consultation | undefined>;
+  createConsultationAddendum(addendum: InsertConsultationAddendum): Promise<ConsultationAddendum>;
+  // Oldest first.
+  getConsultationAddenda(consultationId: number, clinicId: number): Promise<AddendumWithAuthor[]>;
+  getPatientAddenda(patientRecordId: number, clinicId: number): Promise<AddendumWithAuthor[]>;
+
+  // Vitals operations
+  createPatientVitals(vitals: InsertPatientVitals): Promise<PatientVitals>;
+  getPatientVitals(patientRecordId: number, clinicId: number): Promise<PatientVitals[]>;
+  getConsultationVitals(consultationId: number, clinicId: number): Promise<PatientVitals[]>;
+  deletePatientVitals(id: number, clinicId: number): Promise<void>;
+
+  // Allergy and problem list operations
+  createPatientAllergy(allergy: InsertPatientAllergy): Promise<PatientAllergy>;
+  getPatientAllergies(patientRecordId: number, clinicId: number): Promise<PatientAllergy[]>;
+  updatePatientAllergy(id: number, clinicId: number, updates: Partial<InsertPatientAllergy>): Promise<PatientAllergy | undefined>;
+  deletePatientAllergy(id: number, clinicId: number): Promise<void>;
+  createPatientProblem(problem: InsertPatientProblem): Promise<PatientProblem>;
+  getPatientProblems(patientRecordId: number, clinicId: number): Promise<PatientProblem[]>;
+  updatePatientProblem(id: number, clinicId: number, updates: Partial<InsertPatientProblem>): Promise<PatientProblem | undefined>;
+  deletePatientProblem(id: number, clinicId: number): Promise<void>;
+
+  // Vaccination operations
+  createPatientVaccination(vaccination: InsertPatientVaccination): Promise<VaccinationWithAdministrator>;
+  getPatientVaccinations(patientRecordId: number, clinicId: number): Promise<VaccinationWithAdministrator[]>;
+  getConsultationVaccinations(consultationId: number, clinicId: number): Promise<VaccinationWithAdministrator[]>;
+  // Latest dose of each vaccine per patient whose next due date is on or before dueBy (YYYY-MM-DD).
+  getDueVaccinations(clinicId: number, dueBy: string): Promise<DueVaccination[]>;
+  deletePatientVaccination(id: number, clinicId: number): Promise<void>;
+
+  // Prescription operations
+  // Creates the prescription together with its original fill.
+  createPatientPrescription(prescription: InsertPatientPrescription, dispensedById: string): Promise<PrescriptionWithHistory>;
+  getPrescription(id: number, clinicId: number): Promise<PrescriptionWithHistory | undefined>;
+  getPatientPrescriptions(patientRecordId: number, clinicId: number): Promise<PrescriptionWithHistory[]>;
+  getConsultationPrescriptions(consultationId: number, clinicId: number): Promise<PrescriptionWithHistory[]>;
+  stopPrescription(id: number, clinicId: number, stoppedAt: string | null): Promise<PatientPrescription | undefined>;
+  deletePatientPrescription(id: number, clinicId: number): Promise<void>;
+  createPrescriptionDispensing(dispensing: InsertPrescriptionDispensing): Promise<PrescriptionDispensing>;
+
+  // Background job operations
+  createJob(job: InsertJob): Promise<Job>;
+  // Marks the next due queued job as running and returns it; safe to call from several workers.
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, updates: Partial<InsertJob>): Promise<Job | undefined>;
+  // A queued or running job for the consultation, if any.
+  getActiveConsultationJob(consultationId: number): Promise<Job | undefined>;
+  // Puts jobs left running by a previous server process back on the queue.
+  requeueInterruptedJobs(): Promise<Job[]>;
+
+  // Transcript operations
+  // Saves a new transcript, replacing the consultation's segments with the given
+  // ones. Speaker names are cleared since the new segments have no speakers yet.
+  saveTranscript(
+    consultationId: number,
+    clinicId: number,
+    fullTranscription: string,
+    segments: Omit<InsertTranscriptSegment, "clinicId" | "consultationId" | "position">[],
+  ): Promise<Consultation | undefined>;
+  getTranscriptSegments(consultationId: number, clinicId: number): Promise<TranscriptSegment[]>;
+  // Applies a correction, keeping the machine text of anything changed.
+  correctTranscript(
+    consultation: Consultation,
+    correction: { segments?: { id: number; text: string }[]; fullTranscription?: string },
+    editedById: string,
+  ): Promise<Consultation>;
+  // Labels each segment with a speaker, by segment id.
+  setSegmentSpeakers(consultationId: number, speakers: Map<number, string | null>): Promise<void>;
+
+  // Glossary operations
+  getGlossaryTerms(clinicId: number): Promise<GlossaryTerm[]>;
+  getGlossaryTerm(id: number, clinicId: number): Promise<GlossaryTerm | undefined>;
+  // Case-insensitive match on the term itself.
+  findGlossaryTerm(clinicId: number, term: string): Promise<GlossaryTerm | undefined>;
+  createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm>;
+  updateGlossaryTerm(id: number, clinicId: number, updates: Partial<GlossaryTermInput>): Promise<GlossaryTerm | undefined>;
+  deleteGlossaryTerm(id: number, clinicId: number): Promise<void>;
+
+  // Chunked upload operations
+  createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload>;
+  getAudioUpload(id: number, clinicId: number): Promise<AudioUpload | undefined>;
+  // Records activity so an upload being resumed isn't expired.
+  touchAudioUpload(id: number): Promise<void>;
+  completeAudioUpload(id: number, consultationId: number): Promise<AudioUpload | undefined>;
+  // Not clinic-scoped: used by the cleanup sweep. Uploads untouched since the given time.
+  getStaleAudioUploads(updatedBefore: Date): Promise<AudioUpload[]>;
+  deleteAudioUpload(id: number): Promise<void>;
 }
 
+// Display name for a staff member joined from users: full name, falling back to email.
+// Key for the advisory lock that serializes registrations.
+const REGISTRATION_LOCK_ID = 4201;
+
+const userDisplayName = sql<string | null>`coalesce(nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), ''), ${users.email})`;
+
 export class DatabaseStorage implements IStorage {
   // User operations
   // These user operations are required for authentication.
@@ -59,6 +271,211 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(sql`lower(${users.email})`, email.toLowerCase()));
+    return user;
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async setUserActive(id: string, isActive: boolean): Promise<void> {
+    await db
+      .update(users)
+      .set({ isActive, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async hasCredentialedUsers(): Promise<boolean> {
+    const [result] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(isNotNull(users.passwordHash))
+      .limit(1);
+    return Boolean(result);
+  }
+
+  async registerUser(
+    userData: UpsertUser,
+    clinic: { inviteTokenHash: string } | { clinicName: string },
+  ): Promise<{ user: User; membership: ClinicMember } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Registrations take turns, so two can't both become the first account.
+      await tx.execute(sql`select pg_advisory_xact_lock(${REGISTRATION_LOCK_ID})`);
+
+      let clinicId: number;
+      let role: Role = "admin";
+      if ("inviteTokenHash" in clinic) {
+        const [invite] = await tx
+          .update(userInvites)
+          .set({ acceptedAt: new Date() })
+          .where(
+            and(
+              eq(userInvites.tokenHash, clinic.inviteTokenHash),
+              isNull(userInvites.acceptedAt),
+              gt(userInvites.expiresAt, new Date()),
+            ),
+          )
+          .returning();
+        if (!invite) return undefined;
+        clinicId = invite.clinicId;
+        if (isRole(invite.role)) role = invite.role;
+      } else {
+        const [existing] = await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(isNotNull(users.passwordHash))
+          .limit(1);
+        if (existing) return undefined;
+        const [newClinic] = await tx.insert(clinics).values({ name: clinic.clinicName }).returning();
+        clinicId = newClinic.id;
+      }
+
+      const [user] = await tx.insert(users).values(userData).returning();
+      const [membership] = await tx
+        .insert(clinicMembers)
+        .values({ clinicId, userId: user.id, role })
+        .returning();
+      return { user, membership };
+    });
+  }
+
+  // Clinic operations
+  async createClinic(name: string): Promise<Clinic> {
+    const [clinic] = await db.insert(clinics).values({ name }).returning();
+    return clinic;
+  }
+
+  async getClinic(id: number): Promise<Clinic | undefined> {
+    const [clinic] = await db.select().from(clinics).where(eq(clinics.id, id));
+    return clinic;
+  }
+
+  async updateClinic(id: number, updates: UpdateClinic): Promise<Clinic> {
+    const [clinic] = await db
+      .update(clinics)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(clinics.id, id))
+      .returning();
+    return clinic;
+  }
+
+  async addClinicMember(clinicId: number, userId: string, role: Role): Promise<ClinicMember> {
+    const [member] = await db
+      .insert(clinicMembers)
+      .values({ clinicId, userId, role })
+      .returning();
+    return member;
+  }
+
+  async getClinicMembership(userId: string): Promise<ClinicMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(clinicMembers)
+      .where(eq(clinicMembers.userId, userId));
+    return member;
+  }
+
+  async getClinicMembers(clinicId: number): Promise<ClinicMemberWithUser[]> {
+    const rows = await db
+      .select({ user: users, role: clinicMembers.role, joinedAt: clinicMembers.createdAt })
+      .from(clinicMembers)
+      .innerJoin(users, eq(clinicMembers.userId, users.id))
+      .where(eq(clinicMembers.clinicId, clinicId))
+      .orderBy(clinicMembers.createdAt);
+    return rows.map(({ user: { passwordHash: _passwordHash, ...user }, role, joinedAt }) => ({
+      ...user,
+      role: role as Role,
+      joinedAt,
+    }));
+  }
+
+  async updateClinicMemberRole(clinicId: number, userId: string, role: Role): Promise<ClinicMember | undefined> {
+    const [member] = await db
+      .update(clinicMembers)
+      .set({ role })
+      .where(and(eq(clinicMembers.clinicId, clinicId), eq(clinicMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  // Invite and password reset operations
+  async createInvite(invite: InsertUserInvite): Promise<UserInvite> {
+    const [newInvite] = await db.insert(userInvites).values(invite).returning();
+    return newInvite;
+  }
+
+  async getPendingInvite(tokenHash: string): Promise<UserInvite | undefined> {
+    const [invite] = await db
+      .select()
+      .from(userInvites)
+      .where(
+        and(
+          eq(userInvites.tokenHash, tokenHash),
+          isNull(userInvites.acceptedAt),
+          gt(userInvites.expiresAt, new Date()),
+        ),
+      );
+    return invite;
+  }
+
+  async getClinicPendingInvites(clinicId: number): Promise<UserInvite[]> {
+    return await db
+      .select()
+      .from(userInvites)
+      .where(
+        and(
+          eq(userInvites.clinicId, clinicId),
+          isNull(userInvites.acceptedAt),
+          gt(userInvites.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(desc(userInvites.createdAt));
+  }
+
+  async deleteInvite(id: number, clinicId: number): Promise<void> {
+    await db
+      .delete(userInvites)
+      .where(and(eq(userInvites.id, id), eq(userInvites.clinicId, clinicId)));
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  // Marks a pending token used and returns it, in one statement so a link can
+  // only ever reset the password once.
+  async claimPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date()),
+        ),
+      )
+      .returning();
+    return token;
+  }
+
   // Consultation operations
   async createConsultation(consultation: InsertConsultation): Promise<Consultation> {
     const [newConsultation] = await db
@@ -68,21 +485,21 @@ export class DatabaseStorage implements IStorage {
     return newConsultation;
   }
 
-  async getConsultation(id: number, userId: string): Promise<Consultation | undefined> {
+  async getConsultation(id: number, clinicId: number): Promise<Consultation | undefined> {
     const [result] = await db
       .select()
       .from(consultations)
-      .where(and(eq(consultations.id, id), eq(consultations.userId, userId)));
+      .where(and(eq(consultations.id, id), eq(consultations.clinicId, clinicId)));
     
     if (!result) return undefined;
     return result;
   }
 
-  async getUserConsultations(userId: string): Promise<Consultation[]> {
+  async getClinicConsultations(clinicId: number): Promise<Consultation[]> {
     return await db
       .select()
       .from(consultations)
-      .where(eq(consultations.userId, userId))
+      .where(eq(consultations.clinicId, clinicId))
       .orderBy(desc(consultations.recordedAt));
   }
 
@@ -95,58 +512,686 @@ export class DatabaseStorage implements IStorage {
     return updatedConsultation;
   }
 
-  async deleteConsultation(id: number, userId: string): Promise<void> {
+  async deleteConsultation(id: number, clinicId: number): Promise<void> {
     await db
       .delete(consultations)
-      .where(and(eq(consultations.id, id), eq(consultations.userId, userId)));
+      .where(and(eq(consultations.id, id), eq(consultations.clinicId, clinicId), eq(consultations.isFinalized, false)));
+  }
+
+  // SOAP note revision operations
+  async updateConsultationNote(
+    consultation: Consultation,
+    updates: Partial<InsertConsultation>,
+    revision: Pick<InsertSoapNoteRevision, "authorId" | "reason">,
+  ): Promise<Consultation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(consultations)
+        .set(updates)
+        .where(and(eq(consultations.id, consultation.id), eq(consultations.isFinalized, false)))
+        .returning();
+      const content = updates.finalSoapNote;
+      if (updated && content && !isSoapNoteEqual(content, consultation.finalSoapNote)) {
+        await tx.insert(soapNoteRevisions).values({
+          clinicId: consultation.clinicId,
+          consultationId: consultation.id,
+          authorId: revision.authorId ?? null,
+          reason: revision.reason || null,
+          content,
+        });
+      }
+      return updated;
+    });
+  }
+
+  async getSoapNoteRevisions(consultationId: number, clinicId: number): Promise<SoapNoteRevisionWithAuthor[]> {
+    const rows = await db
+      .select({ revision: soapNoteRevisions, authorName: userDisplayName })
+      .from(soapNoteRevisions)
+      .leftJoin(users, eq(soapNoteRevisions.authorId, users.id))
+      .where(and(eq(soapNoteRevisions.consultationId, consultationId), eq(soapNoteRevisions.clinicId, clinicId)))
+      .orderBy(asc(soapNoteRevisions.createdAt), asc(soapNoteRevisions.id));
+    return rows.map(({ revision, authorName }) => ({ ...revision, authorName }));
   }
 
-  // Customer operations
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const [newCustomer] = await db
-      .insert(customers)
-      .values(customer)
+  // Signature and addendum operations
+  async signConsultation(
+    id: number,
+    clinicId: number,
+    note: SoapNote,
+    signature: Pick<InsertConsultation, "signedById" | "signedByName" | "signedAt" | "signatureHash">,
+  ): Promise<Consultation | undefined> {
+    const [signed] = await db
+      .update(consultations)
+      .set({ ...signature, isFinalized: true })
+      .where(
+        and(
+          eq(consultations.id, id),
+          eq(consultations.clinicId, clinicId),
+          eq(consultations.isFinalized, false),
+          eq(consultations.finalSoapNote, note),
+        ),
+      )
       .returning();
-    return newCustomer;
+    return signed;
   }
 
-  async getCustomer(id: number, userId: string): Promise<Customer | undefined> {
-    const [customer] = await db
+  async createConsultationAddendum(addendum: InsertConsultationAddendum): Promise<ConsultationAddendum> {
+    const [newAddendum] = await db
+      .insert(consultationAddenda)
+      .values(addendum)
+      .returning();
+    return newAddendum;
+  }
+
+  async getConsultationAddenda(consultationId: number, clinicId: number): Promise<AddendumWithAuthor[]> {
+    const rows = await db
+      .select({ addendum: consultationAddenda, authorName: userDisplayName })
+      .from(consultationAddenda)
+      .leftJoin(users, eq(consultationAddenda.authorId, users.id))
+      .where(and(eq(consultationAddenda.consultationId, consultationId), eq(consultationAddenda.clinicId, clinicId)))
+      .orderBy(asc(consultationAddenda.createdAt), asc(consultationAddenda.id));
+    return rows.map(({ addendum, authorName }) => ({ ...addendum, authorName }));
+  }
+
+  async getPatientAddenda(patientRecordId: number, clinicId: number): Promise<AddendumWithAuthor[]> {
+    const rows = await db
+      .select({ addendum: consultationAddenda, authorName: userDisplayName })
+      .from(consultationAddenda)
+      .innerJoin(consultations, eq(consultationAddenda.consultationId, consultations.id))
+      .leftJoin(users, eq(consultationAddenda.authorId, users.id))
+      .where(and(eq(consultations.patientRecordId, patientRecordId), eq(consultationAddenda.clinicId, clinicId)))
+      .orderBy(asc(consultationAddenda.createdAt), asc(consultationAddenda.id));
+    return rows.map(({ addendum, authorName }) => ({ ...addendum, authorName }));
+  }
+
+  // Owner operations
+  async createOwner(owner: InsertOwner): Promise<Owner> {
+    const [newOwner] = await db
+      .insert(owners)
+      .values(owner)
+      .returning();
+    return newOwner;
+  }
+
+  async getOwner(id: number, clinicId: number): Promise<OwnerWithPatients | undefined> {
+    const [owner] = await db
+      .select()
+      .from(owners)
+      .where(and(eq(owners.id, id), eq(owners.clinicId, clinicId)));
+    if (!owner) return undefined;
+
+    const ownerPatients = await db
       .select()
-      .from(customers)
-      .where(and(eq(customers.id, id), eq(customers.userId, userId)));
-    return customer;
+      .from(patients)
+      .where(and(eq(patients.ownerId, id), eq(patients.clinicId, clinicId)))
+      .orderBy(patients.name);
+    return { ...owner, patients: ownerPatients };
   }
 
-  async getUserCustomers(userId: string): Promise<Customer[]> {
-    return await db
+  async getClinicOwners(clinicId: number): Promise<OwnerWithPatients[]> {
+    const clinicOwners = await db
+      .select()
+      .from(owners)
+      .where(eq(owners.clinicId, clinicId))
+      .orderBy(desc(owners.createdAt));
+    const clinicPatients = await db
       .select()
-      .from(customers)
-      .where(eq(customers.userId, userId))
-      .orderBy(desc(customers.createdAt));
+      .from(patients)
+      .where(eq(patients.clinicId, clinicId))
+      .orderBy(patients.name);
+
+    return clinicOwners.map((owner) => ({
+      ...owner,
+      patients: clinicPatients.filter((patient) => patient.ownerId === owner.id),
+    }));
   }
 
-  async updateCustomer(id: number, updates: Partial<InsertCustomer>): Promise<Customer> {
-    const [updatedCustomer] = await db
-      .update(customers)
+  async updateOwner(id: number, clinicId: number, updates: Partial<InsertOwner>): Promise<Owner | undefined> {
+    const [updatedOwner] = await db
+      .update(owners)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(customers.id, id))
+      .where(and(eq(owners.id, id), eq(owners.clinicId, clinicId)))
       .returning();
-    return updatedCustomer;
+    return updatedOwner;
   }
 
-  async deleteCustomer(id: number, userId: string): Promise<void> {
-    await db.delete(customers)
-      .where(and(eq(customers.id, id), eq(customers.userId, userId)));
+  async deleteOwner(id: number, clinicId: number): Promise<void> {
+    await db.delete(owners)
+      .where(and(eq(owners.id, id), eq(owners.clinicId, clinicId)));
   }
 
-  async getCustomerConsultations(customerId: number, userId: string): Promise<Consultation[]> {
+  // Patient operations
+  async createPatient(patient: InsertPatient): Promise<Patient> {
+    const [newPatient] = await db
+      .insert(patients)
+      .values(patient)
+      .returning();
+    return newPatient;
+  }
+
+  async getPatient(id: number, clinicId: number): Promise<PatientWithOwner | undefined> {
+    const [result] = await db
+      .select({ patient: patients, owner: owners })
+      .from(patients)
+      .innerJoin(owners, eq(patients.ownerId, owners.id))
+      .where(and(eq(patients.id, id), eq(patients.clinicId, clinicId)));
+    return result ? { ...result.patient, owner: result.owner } : undefined;
+  }
+
+  async getClinicPatients(clinicId: number): Promise<PatientWithOwner[]> {
+    const rows = await db
+      .select({ patient: patients, owner: owners })
+      .from(patients)
+      .innerJoin(owners, eq(patients.ownerId, owners.id))
+      .where(eq(patients.clinicId, clinicId))
+      .orderBy(desc(patients.createdAt));
+    return rows.map(({ patient, owner }) => ({ ...patient, owner }));
+  }
+
+  async updatePatient(id: number, clinicId: number, updates: Partial<InsertPatient>): Promise<Patient | undefined> {
+    const [updatedPatient] = await db
+      .update(patients)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(patients.id, id), eq(patients.clinicId, clinicId)))
+      .returning();
+    return updatedPatient;
+  }
+
+  async deletePatient(id: number, clinicId: number): Promise<void> {
+    await db.delete(patients)
+      .where(and(eq(patients.id, id), eq(patients.clinicId, clinicId)));
+  }
+
+  async getPatientConsultations(patientRecordId: number, clinicId: number): Promise<Consultation[]> {
     return await db
       .select()
       .from(consultations)
-      .where(and(eq(consultations.customerId, customerId), eq(consultations.userId, userId)))
+      .where(and(eq(consultations.patientRecordId, patientRecordId), eq(consultations.clinicId, clinicId)))
       .orderBy(desc(consultations.recordedAt));
   }
+
+  // Vitals operations
+  async createPatientVitals(vitals: InsertPatientVitals): Promise<PatientVitals> {
+    const [newVitals] = await db
+      .insert(patientVitals)
+      .values(vitals)
+      .returning();
+    return newVitals;
+  }
+
+  // Oldest first, ready for charting.
+  async getPatientVitals(patientRecordId: number, clinicId: number): Promise<PatientVitals[]> {
+    return await db
+      .select()
+      .from(patientVitals)
+      .where(and(eq(patientVitals.patientRecordId, patientRecordId), eq(patientVitals.clinicId, clinicId)))
+      .orderBy(asc(patientVitals.measuredAt));
+  }
+
+  async getConsultationVitals(consultationId: number, clinicId: number): Promise<PatientVitals[]> {
+    return await db
+      .select()
+      .from(patientVitals)
+      .where(and(eq(patientVitals.consultationId, consultationId), eq(patientVitals.clinicId, clinicId)))
+      .orderBy(asc(patientVitals.measuredAt));
+  }
+
+  async deletePatientVitals(id: number, clinicId: number): Promise<void> {
+    await db
+      .delete(patientVitals)
+      .where(and(eq(patientVitals.id, id), eq(patientVitals.clinicId, clinicId)));
+  }
+
+  // Allergy and problem list operations
+  async createPatientAllergy(allergy: InsertPatientAllergy): Promise<PatientAllergy> {
+    const [newAllergy] = await db
+      .insert(patientAllergies)
+      .values(allergy)
+      .returning();
+    return newAllergy;
+  }
+
+  async getPatientAllergies(patientRecordId: number, clinicId: number): Promise<PatientAllergy[]> {
+    return await db
+      .select()
+      .from(patientAllergies)
+      .where(and(eq(patientAllergies.patientRecordId, patientRecordId), eq(patientAllergies.clinicId, clinicId)))
+      .orderBy(asc(patientAllergies.allergen));
+  }
+
+  async updatePatientAllergy(id: number, clinicId: number, updates: Partial<InsertPatientAllergy>): Promise<PatientAllergy | undefined> {
+    const [updatedAllergy] = await db
+      .update(patientAllergies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(patientAllergies.id, id), eq(patientAllergies.clinicId, clinicId)))
+      .returning();
+    return updatedAllergy;
+  }
+
+  async deletePatientAllergy(id: number, clinicId: number): Promise<void> {
+    await db
+      .delete(patientAllergies)
+      .where(and(eq(patientAllergies.id, id), eq(patientAllergies.clinicId, clinicId)));
+  }
+
+  async createPatientProblem(problem: InsertPatientProblem): Promise<PatientProblem> {
+    const [newProblem] = await db
+      .insert(patientProblems)
+      .values(problem)
+      .returning();
+    return newProblem;
+  }
+
+  // Active problems first, then most recent onset.
+  async getPatientProblems(patientRecordId: number, clinicId: number): Promise<PatientProblem[]> {
+    return await db
+      .select()
+      .from(patientProblems)
+      .where(and(eq(patientProblems.patientRecordId, patientRecordId), eq(patientProblems.clinicId, clinicId)))
+      .orderBy(asc(patientProblems.status), sql`${patientProblems.onsetDate} DESC NULLS LAST`);
+  }
+
+  async updatePatientProblem(id: number, clinicId: number, updates: Partial<InsertPatientProblem>): Promise<PatientProblem | undefined> {
+    const [updatedProblem] = await db
+      .update(patientProblems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(patientProblems.id, id), eq(patientProblems.clinicId, clinicId)))
+      .returning();
+    return updatedProblem;
+  }
+
+  async deletePatientProblem(id: number, clinicId: number): Promise<void> {
+    await db
+      .delete(patientProblems)
+      .where(and(eq(patientProblems.id, id), eq(patientProblems.clinicId, clinicId)));
+  }
+
+  // Vaccination operations
+  private async selectVaccinations(where: SQL | undefined): Promise<VaccinationWithAdministrator[]> {
+    const rows = await db
+      .select({ vaccination: patientVaccinations, administeredByName: userDisplayName })
+      .from(patientVaccinations)
+      .leftJoin(users, eq(patientVaccinations.administeredById, users.id))
+      .where(where)
+      .orderBy(desc(patientVaccinations.administeredAt), desc(patientVaccinations.id));
+    return rows.map(({ vaccination, administeredByName }) => ({ ...vaccination, administeredByName }));
+  }
+
+  async createPatientVaccination(vaccination: InsertPatientVaccination): Promise<VaccinationWithAdministrator> {
+    const [newVaccination] = await db
+      .insert(patientVaccinations)
+      .values(vaccination)
+      .returning();
+    const [withAdministrator] = await this.selectVaccinations(eq(patientVaccinations.id, newVaccination.id));
+    return withAdministrator;
+  }
+
+  async getPatientVaccinations(patientRecordId: number, clinicId: number): Promise<VaccinationWithAdministrator[]> {
+    return await this.selectVaccinations(
+      and(eq(patientVaccinations.patientRecordId, patientRecordId), eq(patientVaccinations.clinicId, clinicId)),
+    );
+  }
+
+  async getConsultationVaccinations(consultationId: number, clinicId: number): Promise<VaccinationWithAdministrator[]> {
+    return await this.selectVaccinations(
+      and(eq(patientVaccinations.consultationId, consultationId), eq(patientVaccinations.clinicId, clinicId)),
+    );
+  }
+
+  async getDueVaccinations(clinicId: number, dueBy: string): Promise<DueVaccination[]> {
+    const rows = await db
+      .select({ vaccination: patientVaccinations, administeredByName: userDisplayName, patient: patients, owner: owners })
+      .from(patientVaccinations)
+      .innerJoin(patients, eq(patientVaccinations.patientRecordId, patients.id))
+      .innerJoin(owners, eq(patients.ownerId, owners.id))
+      .leftJoin(users, eq(patientVaccinations.administeredById, users.id))
+      .where(eq(patientVaccinations.clinicId, clinicId))
+      .orderBy(desc(patientVaccinations.administeredAt), desc(patientVaccinations.id));
+
+    // Rows are newest first, so the first row seen for a patient and vaccine is its latest dose.
+    const seen = new Set<string>();
+    const due: DueVaccination[] = [];
+    for (const { vaccination, administeredByName, patient, owner } of rows) {
+      const key = `${vaccination.patientRecordId}:${vaccination.vaccine.trim().toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (vaccination.nextDueDate && vaccination.nextDueDate <= dueBy) {
+        due.push({ ...vaccination, administeredByName, patient: { ...patient, owner } });
+      }
+    }
+    return due.sort((a, b) => a.nextDueDate!.localeCompare(b.nextDueDate!));
+  }
+
+  async deletePatientVaccination(id: number, clinicId: number): Promise<void> {
+    await db
+      .delete(patientVaccinations)
+      .where(and(eq(patientVaccinations.id, id), eq(patientVaccinations.clinicId, clinicId)));
+  }
+
+  // Prescription operations
+  private async selectPrescriptions(where: SQL | undefined): Promise<PrescriptionWithHistory[]> {
+    const rows = await db
+      .select({ prescription: patientPrescriptions, prescriberName: userDisplayName })
+      .from(patientPrescriptions)
+      .leftJoin(users, eq(patientPrescriptions.prescriberId, users.id))
+      .where(where)
+      .orderBy(desc(patientPrescriptions.startDate), desc(patientPrescriptions.id));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const dispensings = await db
+      .select({ dispensing: prescriptionDispensings, dispensedByName: userDisplayName })
+      .from(prescriptionDispensings)
+      .leftJoin(users, eq(prescriptionDispensings.dispensedById, users.id))
+      .where(inArray(prescriptionDispensings.prescriptionId, rows.map(({ prescription }) => prescription.id)))
+      .orderBy(asc(prescriptionDispensings.dispensedAt));
+
+    return rows.map(({ prescription, prescriberName }) => {
+      const history = dispensings
+        .filter(({ dispensing }) => dispensing.prescriptionId === prescription.id)
+        .map(({ dispensing, dispensedByName }) => ({ ...dispensing, dispensedByName }));
+      return {
+        ...prescription,
+        prescriberName,
+        dispensings: history,
+        refillsRemaining: getRefillsRemaining(prescription.refills, history.length),
+      };
+    });
+  }
+
+  async createPatientPrescription(prescription: InsertPatientPrescription, dispensedById: string): Promise<PrescriptionWithHistory> {
+    const newPrescription = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(patientPrescriptions)
+        .values(prescription)
+        .returning();
+      await tx.insert(prescriptionDispensings).values({
+        clinicId: created.clinicId,
+        prescriptionId: created.id,
+        dispensedById,
+        quantity: created.quantity,
+      });
+      return created;
+    });
+    const [withHistory] = await this.selectPrescriptions(eq(patientPrescriptions.id, newPrescription.id));
+    return withHistory;
+  }
+
+  async getPrescription(id: number, clinicId: number): Promise<PrescriptionWithHistory | undefined> {
+    const [prescription] = await this.selectPrescriptions(
+      and(eq(patientPrescriptions.id, id), eq(patientPrescriptions.clinicId, clinicId)),
+    );
+    return prescription;
+  }
+
+  async getPatientPrescriptions(patientRecordId: number, clinicId: number): Promise<PrescriptionWithHistory[]> {
+    return await this.selectPrescriptions(
+      and(eq(patientPrescriptions.patientRecordId, patientRecordId), eq(patientPrescriptions.clinicId, clinicId)),
+    );
+  }
+
+  async getConsultationPrescriptions(consultationId: number, clinicId: number): Promise<PrescriptionWithHistory[]> {
+    return await this.selectPrescriptions(
+      and(eq(patientPrescriptions.consultationId, consultationId), eq(patientPrescriptions.clinicId, clinicId)),
+    );
+  }
+
+  async stopPrescription(id: number, clinicId: number, stoppedAt: string | null): Promise<PatientPrescription | undefined> {
+    const [updatedPrescription] = await db
+      .update(patientPrescriptions)
+      .set({ stoppedAt, updatedAt: new Date() })
+      .where(and(eq(patientPrescriptions.id, id), eq(patientPrescriptions.clinicId, clinicId)))
+      .returning();
+    return updatedPrescription;
+  }
+
+  async deletePatientPrescription(id: number, clinicId: number): Promise<void> {
+    await db
+      .delete(patientPrescriptions)
+      .where(and(eq(patientPrescriptions.id, id), eq(patientPrescriptions.clinicId, clinicId)));
+  }
+
+  async createPrescriptionDispensing(dispensing: InsertPrescriptionDispensing): Promise<PrescriptionDispensing> {
+    const [newDispensing] = await db
+      .insert(prescriptionDispensings)
+      .values(dispensing)
+      .returning();
+    return newDispensing;
+  }
+
+  // Background job operations
+  async createJob(job: InsertJob): Promise<Job> {
+    const [newJob] = await db
+      .insert(jobs)
+      .values(job)
+      .returning();
+    return newJob;
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    const nextJob = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, sql`now()`)))
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(jobs.id, nextJob))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, updates: Partial<InsertJob>): Promise<Job | undefined> {
+    const [updatedJob] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updatedJob;
+  }
+
+  async getActiveConsultationJob(consultationId: number): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.consultationId, consultationId), inArray(jobs.status, ["queued", "running"])))
+      .orderBy(desc(jobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async requeueInterruptedJobs(): Promise<Job[]> {
+    return await db
+      .update(jobs)
+      .set({ status: "queued", runAt: new Date(), updatedAt: new Date() })
+      .where(eq(jobs.status, "running"))
+      .returning();
+  }
+
+  // Transcript operations
+  async saveTranscript(
+    consultationId: number,
+    clinicId: number,
+    fullTranscription: string,
+    segments: Omit<InsertTranscriptSegment, "clinicId" | "consultationId" | "position">[],
+  ): Promise<Consultation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [consultation] = await tx
+        .update(consultations)
+        .set({
+          fullTranscription,
+          originalTranscription: null,
+          transcriptEditedById: null,
+          transcriptEditedAt: null,
+          speakerNames: null,
+        })
+        .where(and(eq(consultations.id, consultationId), eq(consultations.clinicId, clinicId)))
+        .returning();
+      if (!consultation) return undefined;
+
+      await tx.delete(transcriptSegments).where(eq(transcriptSegments.consultationId, consultationId));
+      if (segments.length > 0) {
+        await tx.insert(transcriptSegments).values(
+          segments.map((segment, position) => ({ ...segment, clinicId, consultationId, position })),
+        );
+      }
+      return consultation;
+    });
+  }
+
+  async getTranscriptSegments(consultationId: number, clinicId: number): Promise<TranscriptSegment[]> {
+    return await db
+      .select()
+      .from(transcriptSegments)
+      .where(and(eq(transcriptSegments.consultationId, consultationId), eq(transcriptSegments.clinicId, clinicId)))
+      .orderBy(asc(transcriptSegments.position));
+  }
+
+  async correctTranscript(
+    consultation: Consultation,
+    correction: { segments?: { id: number; text: string }[]; fullTranscription?: string },
+    editedById: string,
+  ): Promise<Consultation> {
+    return await db.transaction(async (tx) => {
+      let fullTranscription = correction.fullTranscription ?? consultation.fullTranscription ?? "";
+      if (correction.segments) {
+        const segments = await tx
+          .select()
+          .from(transcriptSegments)
+          .where(eq(transcriptSegments.consultationId, consultation.id))
+          .orderBy(asc(transcriptSegments.position));
+        const corrections = new Map(correction.segments.map((segment) => [segment.id, segment.text]));
+        for (const segment of segments) {
+          const text = corrections.get(segment.id);
+          if (text === undefined || text === segment.text) continue;
+          const originalText = segment.originalText ?? segment.text;
+          await tx
+            .update(transcriptSegments)
+            .set({ text, originalText: text === originalText ? null : originalText })
+            .where(eq(transcriptSegments.id, segment.id));
+          segment.text = text;
+        }
+        fullTranscription = segments.map((segment) => segment.text).join(" ");
+      }
+
+      const originalTranscription = consultation.originalTranscription ?? consultation.fullTranscription;
+      const [updated] = await tx
+        .update(consultations)
+        .set({
+          fullTranscription,
+          originalTranscription: fullTranscription === originalTranscription ? null : originalTranscription,
+          transcriptEditedById: editedById,
+          transcriptEditedAt: new Date(),
+        })
+        .where(eq(consultations.id, consultation.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async setSegmentSpeakers(consultationId: number, speakers: Map<number, string | null>): Promise<void> {
+    // One update per speaker rather than per segment.
+    const idsBySpeaker = new Map<string | null, number[]>();
+    for (const [id, speaker] of Array.from(speakers)) {
+      idsBySpeaker.set(speaker, [...(idsBySpeaker.get(speaker) ?? []), id]);
+    }
+    await db.transaction(async (tx) => {
+      for (const [speaker, ids] of Array.from(idsBySpeaker)) {
+        await tx
+          .update(transcriptSegments)
+          .set({ speaker })
+          .where(and(inArray(transcriptSegments.id, ids), eq(transcriptSegments.consultationId, consultationId)));
+      }
+    });
+  }
+
+  // Glossary operations
+  async getGlossaryTerms(clinicId: number): Promise<GlossaryTerm[]> {
+    return await db
+      .select()
+      .from(glossaryTerms)
+      .where(eq(glossaryTerms.clinicId, clinicId))
+      .orderBy(asc(sql`lower(${glossaryTerms.term})`));
+  }
+
+  async getGlossaryTerm(id: number, clinicId: number): Promise<GlossaryTerm | undefined> {
+    const [term] = await db
+      .select()
+      .from(glossaryTerms)
+      .where(and(eq(glossaryTerms.id, id), eq(glossaryTerms.clinicId, clinicId)));
+    return term;
+  }
+
+  async findGlossaryTerm(clinicId: number, term: string): Promise<GlossaryTerm | undefined> {
+    const [existing] = await db
+      .select()
+      .from(glossaryTerms)
+      .where(and(eq(glossaryTerms.clinicId, clinicId), sql`lower(${glossaryTerms.term}) = lower(${term})`));
+    return existing;
+  }
+
+  async createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const [newTerm] = await db.insert(glossaryTerms).values(term).returning();
+    return newTerm;
+  }
+
+  async updateGlossaryTerm(id: number, clinicId: number, updates: Partial<GlossaryTermInput>): Promise<GlossaryTerm | undefined> {
+    const [term] = await db
+      .update(glossaryTerms)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(glossaryTerms.id, id), eq(glossaryTerms.clinicId, clinicId)))
+      .returning();
+    return term;
+  }
+
+  async deleteGlossaryTerm(id: number, clinicId: number): Promise<void> {
+    await db.delete(glossaryTerms).where(and(eq(glossaryTerms.id, id), eq(glossaryTerms.clinicId, clinicId)));
+  }
+
+  // Chunked upload operations
+  async createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload> {
+    const [newUpload] = await db.insert(audioUploads).values(upload).returning();
+    return newUpload;
+  }
+
+  async getAudioUpload(id: number, clinicId: number): Promise<AudioUpload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(audioUploads)
+      .where(and(eq(audioUploads.id, id), eq(audioUploads.clinicId, clinicId)));
+    return upload;
+  }
+
+  async touchAudioUpload(id: number): Promise<void> {
+    await db.update(audioUploads).set({ updatedAt: new Date() }).where(eq(audioUploads.id, id));
+  }
+
+  async completeAudioUpload(id: number, consultationId: number): Promise<AudioUpload | undefined> {
+    const [upload] = await db
+      .update(audioUploads)
+      .set({ consultationId, updatedAt: new Date() })
+      .where(eq(audioUploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  async getStaleAudioUploads(updatedBefore: Date): Promise<AudioUpload[]> {
+    return await db.select().from(audioUploads).where(lte(audioUploads.updatedAt, updatedBefore));
+  }
+
+  async deleteAudioUpload(id: number): Promise<void> {
+    await db.delete(audioUploads).where(eq(audioUploads.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,136 @@
+import { storage } from "./storage";
+import { formatDirections } from "@shared/prescriptions";
+import { toDateString } from "@shared/vaccinations";
+import { VITAL_SIGNS, formatVital } from "@shared/vitals";
+import { formatSoapNote } from "@shared/soap";
+import type { TimelineEvent, TimelineEventType } from "@shared/timeline";
+
+export type TimelineFilters = {
+  types: readonly TimelineEventType[];
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+};
+
+function timestampEvent(date: Date | null, fallback: Date = new Date()) {
+  const occurred = date ?? fallback;
+  return { occurredAt: occurred.toISOString(), date: toDateString(occurred) };
+}
+
+// Newest first. Only the record types asked for are loaded.
+export async function buildPatientTimeline(
+  patientRecordId: number,
+  clinicId: number,
+  { types, from, to }: TimelineFilters,
+): Promise<TimelineEvent[]> {
+  const wants = (type: TimelineEventType) => types.includes(type);
+  const events: TimelineEvent[] = [];
+
+  const [consultations, addenda, vitals, vaccinations, prescriptions] = await Promise.all([
+    wants("consultation") || wants("soap-note") ? storage.getPatientConsultations(patientRecordId, clinicId) : [],
+    wants("addendum") ? storage.getPatientAddenda(patientRecordId, clinicId) : [],
+    wants("vitals") ? storage.getPatientVitals(patientRecordId, clinicId) : [],
+    wants("vaccination") ? storage.getPatientVaccinations(patientRecordId, clinicId) : [],
+    wants("prescription") ? storage.getPatientPrescriptions(patientRecordId, clinicId) : [],
+  ]);
+
+  for (const consultation of consultations) {
+    const when = timestampEvent(consultation.recordedAt);
+    if (wants("consultation")) {
+      events.push({
+        id: `consultation-${consultation.id}`,
+        type: "consultation",
+        ...when,
+        title: "Consultation recorded",
+        details: [
+          consultation.status === "completed" ? null : `Status: ${consultation.status}`,
+          consultation.duration ? `${Math.round(consultation.duration / 60)} min recording` : null,
+        ].filter((detail): detail is string => Boolean(detail)),
+        consultationId: consultation.id,
+      });
+    }
+    if (wants("soap-note") && consultation.isFinalized) {
+      events.push({
+        id: `soap-note-${consultation.id}`,
+        type: "soap-note",
+        ...when,
+        title: "SOAP note finalized",
+        details: consultation.signedByName && consultation.signedAt
+          ? [`Signed by ${consultation.signedByName} on ${toDateString(consultation.signedAt)}`]
+          : [],
+        body: formatSoapNote(consultation.finalSoapNote || consultation.aiSoapNote),
+        consultationId: consultation.id,
+      });
+    }
+  }
+
+  for (const addendum of addenda) {
+    events.push({
+      id: `addendum-${addendum.id}`,
+      type: "addendum",
+      ...timestampEvent(addendum.createdAt),
+      title: "Addendum to SOAP note",
+      details: [`By ${addendum.authorName || "Unknown user"}`],
+      body: addendum.text,
+      consultationId: addendum.consultationId,
+    });
+  }
+
+  for (const entry of vitals) {
+    events.push({
+      id: `vitals-${entry.id}`,
+      type: "vitals",
+      ...timestampEvent(entry.measuredAt),
+      title: entry.weightKg !== null ? `Weight ${formatVital("weightKg", entry.weightKg)}` : "Vitals recorded",
+      details: [
+        VITAL_SIGNS.filter((sign) => sign !== "weightKg")
+          .map((sign) => formatVital(sign, entry[sign]))
+          .filter(Boolean)
+          .join(" · "),
+      ].filter(Boolean),
+      consultationId: entry.consultationId,
+    });
+  }
+
+  for (const vaccination of vaccinations) {
+    events.push({
+      id: `vaccination-${vaccination.id}`,
+      type: "vaccination",
+      occurredAt: vaccination.administeredAt,
+      date: vaccination.administeredAt,
+      title: `${vaccination.vaccine} vaccination`,
+      details: [
+        [
+          vaccination.administeredByName && `Given by ${vaccination.administeredByName}`,
+          vaccination.site,
+          vaccination.batchNumber && `Batch ${vaccination.batchNumber}`,
+        ].filter(Boolean).join(" · "),
+        vaccination.nextDueDate ? `Next due ${vaccination.nextDueDate}` : "",
+      ].filter(Boolean),
+      consultationId: vaccination.consultationId,
+    });
+  }
+
+  for (const prescription of prescriptions) {
+    events.push({
+      id: `prescription-${prescription.id}`,
+      type: "prescription",
+      occurredAt: prescription.startDate,
+      date: prescription.startDate,
+      title: `Prescribed ${[prescription.drug, prescription.strength].filter(Boolean).join(" ")}`,
+      details: [
+        formatDirections(prescription),
+        [
+          `Qty ${prescription.quantity}`,
+          `dispensed ${prescription.dispensings.length} time${prescription.dispensings.length === 1 ? "" : "s"}`,
+          prescription.prescriberName && `by ${prescription.prescriberName}`,
+        ].filter(Boolean).join(" · "),
+        prescription.stoppedAt ? `Stopped ${prescription.stoppedAt}` : "",
+      ].filter(Boolean),
+      consultationId: prescription.consultationId,
+    });
+  }
+
+  return events
+    .filter((event) => (!from || event.date >= from) && (!to || event.date <= to))
+    .sort((a, b) => b.date.localeCompare(a.date) || b.occurredAt.localeCompare(a.occurredAt));
+}
@@ -0,0 +1,306 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { openai } from "./openai";
+import type { GlossaryTerm } from "@shared/schema";
+import { isTranscriptionProviderName, type TranscriptionProviderName } from "@shared/transcription";
+import { applyGlossary, buildGlossaryPrompt } from "@shared/glossary";
+
+// Speech-to-text behind a common interface. Every provider gets audio that has
+// already been normalised to 16 kHz mono by ffmpeg, so a provider only has to
+// turn a file into text and, where it can, timed segments of that text.
+
+const execFileAsync = promisify(execFile);
+
+type AudioFormat = "mp3" | "wav";
+
+export type TranscriptionSegment = {
+  startMs: number;
+  endMs: number;
+  text: string;
+};
+
+export type TranscriptionResult = {
+  text: string;
+  // Empty when the provider doesn't report timings.
+  segments: TranscriptionSegment[];
+};
+
+export type TranscriptionOptions = {
+  // Vocabulary hint, e.g. "Glossary: Apoquel, Cytopoint."
+  prompt?: string;
+};
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  // Format the provider wants its input in.
+  audioFormat: AudioFormat;
+  // Longer recordings are sent in parts of at most this many seconds.
+  maxPartSeconds?: number;
+  transcribe(audioFilePath: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// ffmpeg converts far faster than real time; allow a tenth of the recording's
+// length on top of a fixed margin for start-up.
+const FFMPEG_BASE_TIMEOUT_MS = 60 * 1000;
+const FFMPEG_TIMEOUT_MS_PER_AUDIO_SECOND = 100;
+// Browser recordings are Opus at 32 kbps or more. When ffprobe can't read a
+// recording's length, assuming 16 kbps errs towards a longer timeout.
+const FALLBACK_BYTES_PER_SECOND = 2000;
+// Normalised audio is constant bitrate: 64 kbps MP3, or 16-bit 16 kHz mono WAV.
+const NORMALIZED_BYTES_PER_SECOND: Record<AudioFormat, number> = { mp3: 8000, wav: 32000 };
+const LOCAL_WHISPER_TIMEOUT_MS = Number(process.env.LOCAL_WHISPER_TIMEOUT_MS) || 10 * 60 * 1000;
+
+const openaiProvider: TranscriptionProvider = {
+  name: "openai",
+  // whisper-1 rejects uploads over 25 MB, which 64 kbps MP3 reaches after about
+  // 54 minutes; longer recordings go in 40-minute parts of around 19 MB.
+  audioFormat: "mp3",
+  maxPartSeconds: 40 * 60,
+  async transcribe(audioFilePath, { prompt }) {
+    const transcription = await openai.audio.transcriptions.create({
+      file: fs.createReadStream(audioFilePath),
+      model: "whisper-1",
+      prompt,
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment"],
+    });
+    return {
+      text: transcription.text,
+      segments: (transcription.segments ?? []).map((segment) => ({
+        startMs: Math.round(segment.start * 1000),
+        endMs: Math.round(segment.end * 1000),
+        text: segment.text.trim(),
+      })),
+    };
+  },
+};
+
+// "[00:00:01.240 --> 00:00:04.880]  text" as printed by whisper.cpp, or
+// "[00:01.240 --> 00:04.880] text" as printed by faster-whisper.
+const TIMED_LINE = /^\[((?:\d+:)?\d+:\d+(?:[.,]\d+)?)\s*-->\s*((?:\d+:)?\d+:\d+(?:[.,]\d+)?)\]\s*(.*)$/;
+
+function parseTimestamp(value: string): number {
+  const seconds = value
+    .replace(",", ".")
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+  return Math.round(seconds * 1000);
+}
+
+// Reads timed lines from whisper output; untimed output becomes plain text.
+function parseWhisperOutput(output: string): TranscriptionResult {
+  const segments: TranscriptionSegment[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = TIMED_LINE.exec(line.trim());
+    if (match && match[3].trim()) {
+      segments.push({ startMs: parseTimestamp(match[1]), endMs: parseTimestamp(match[2]), text: match[3].trim() });
+    }
+  }
+  const text = segments.length > 0
+    ? segments.map((segment) => segment.text).join(" ")
+    : output.replace(/\s+/g, " ").trim();
+  return { text, segments };
+}
+
+// Runs a whisper.cpp or faster-whisper command line installed on this server and
+// reads the transcript from its standard output. LOCAL_WHISPER_COMMAND is the
+// command with {input} where the audio path goes and, optionally, {prompt} where
+// the glossary hint goes, e.g.
+// "whisper-cli -m /opt/whisper/ggml-base.en.bin -np --prompt {prompt} -f {input}".
+// Leave timestamps on so the transcript can be played back segment by segment.
+const localWhisperProvider: TranscriptionProvider = {
+  name: "local-whisper",
+  // whisper.cpp only reads 16 kHz WAV.
+  audioFormat: "wav",
+  async transcribe(audioFilePath, { prompt }) {
+    const command = process.env.LOCAL_WHISPER_COMMAND;
+    if (!command) {
+      throw new Error("LOCAL_WHISPER_COMMAND is not configured");
+    }
+    const [executable, ...args] = command.trim().split(/\s+/);
+    // Without a prompt, "--prompt {prompt}" is dropped as a pair.
+    const promptIndex = args.indexOf("{prompt}");
+    if (!prompt && promptIndex > 0) {
+      args.splice(promptIndex - 1, 2);
+    }
+    const hasInput = args.some((arg) => arg.includes("{input}"));
+    const resolvedArgs = (hasInput ? args : [...args, "{input}"]).map((arg) =>
+      arg.replace("{input}", audioFilePath).replace("{prompt}", prompt ?? ""),
+    );
+
+    const { stdout } = await execFileAsync(executable, resolvedArgs, {
+      timeout: LOCAL_WHISPER_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    const result = parseWhisperOutput(stdout);
+    if (!result.text) {
+      throw new Error("Local Whisper returned an empty transcript");
+    }
+    return result;
+  },
+};
+
+// Returns the same text for the same audio without calling out anywhere, for
+// development and automated tests.
+const fakeProvider: TranscriptionProvider = {
+  name: "fake",
+  audioFormat: "wav",
+  async transcribe(audioFilePath) {
+    const audio = fs.readFileSync(audioFilePath);
+    const fingerprint = createHash("sha256").update(audio).digest("hex").slice(0, 12);
+    const sentences = [
+      `Fake transcript for audio ${fingerprint}.`,
+      "The owner reports the patient has been eating well.",
+      "Temperature 38.5, heart rate 100.",
+      "Plan to recheck in two weeks.",
+    ];
+    return {
+      text: sentences.join(" "),
+      segments: sentences.map((text, index) => ({ startMs: index * 4000, endMs: (index + 1) * 4000, text })),
+    };
+  },
+};
+
+const providers: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  openai: openaiProvider,
+  "local-whisper": localWhisperProvider,
+  fake: fakeProvider,
+};
+
+function getDefaultProviderName(): TranscriptionProviderName {
+  const configured = process.env.TRANSCRIPTION_PROVIDER;
+  if (!configured) return "openai";
+  if (!isTranscriptionProviderName(configured)) {
+    throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${configured}"`);
+  }
+  return configured;
+}
+
+// The clinic's chosen provider, or the server default when it hasn't chosen one.
+export function getTranscriptionProvider(clinicProvider?: string | null): TranscriptionProvider {
+  if (clinicProvider && isTranscriptionProviderName(clinicProvider)) {
+    return providers[clinicProvider];
+  }
+  return providers[getDefaultProviderName()];
+}
+
+// The recording's length according to ffprobe, if it can tell.
+async function probeDurationSeconds(audioFilePath: string): Promise<number | undefined> {
+  try {
+    const { stdout } = await execFileAsync(
+      "ffprobe",
+      ["-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", audioFilePath],
+      { timeout: FFMPEG_BASE_TIMEOUT_MS },
+    );
+    const seconds = Number.parseFloat(stdout.trim());
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getFfmpegTimeoutMs(durationSeconds: number) {
+  return FFMPEG_BASE_TIMEOUT_MS + Math.ceil(durationSeconds * FFMPEG_TIMEOUT_MS_PER_AUDIO_SECOND);
+}
+
+function getNormalizedDurationSeconds(audioFilePath: string, format: AudioFormat) {
+  return fs.statSync(audioFilePath).size / NORMALIZED_BYTES_PER_SECOND[format];
+}
+
+// Converts a recording to 16 kHz mono in the given format. Browser recordings
+// are often WebM without a duration header, so a second pass forces the demuxer.
+export async function normalizeAudio(audioFilePath: string, format: AudioFormat): Promise<string> {
+  const outputPath = `${audioFilePath}.16k.${format}`;
+  const durationSeconds =
+    (await probeDurationSeconds(audioFilePath)) ?? fs.statSync(audioFilePath).size / FALLBACK_BYTES_PER_SECOND;
+  const encoding = format === "mp3" ? ["-c:a", "libmp3lame", "-b:a", "64k"] : ["-c:a", "pcm_s16le"];
+  const attempts = [
+    ["-y", "-i", audioFilePath, "-ar", "16000", "-ac", "1", ...encoding, outputPath],
+    ["-y", "-f", "webm", "-i", audioFilePath, "-ar", "16000", "-ac", "1", ...encoding, outputPath],
+  ];
+
+  for (const args of attempts) {
+    try {
+      await execFileAsync("ffmpeg", args, { timeout: getFfmpegTimeoutMs(durationSeconds) });
+      if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0) {
+        return outputPath;
+      }
+    } catch (error) {
+      console.log(`FFmpeg conversion of ${path.basename(audioFilePath)} failed:`, (error as Error).message);
+    }
+  }
+  throw new Error("Audio could not be converted; the recording may be empty or corrupted");
+}
+
+// Cuts normalised audio into consecutive parts of at most maxSeconds each,
+// returned in order.
+async function splitAudio(audioFilePath: string, format: AudioFormat, maxSeconds: number): Promise<string[]> {
+  const directory = path.dirname(audioFilePath);
+  const prefix = `${path.basename(audioFilePath)}.part`;
+  await execFileAsync(
+    "ffmpeg",
+    ["-y", "-i", audioFilePath, "-f", "segment", "-segment_time", String(maxSeconds), "-c", "copy", path.join(directory, `${prefix}%03d.${format}`)],
+    { timeout: getFfmpegTimeoutMs(getNormalizedDurationSeconds(audioFilePath, format)) },
+  );
+  return fs
+    .readdirSync(directory)
+    .filter((name) => name.startsWith(prefix))
+    .sort()
+    .map((name) => path.join(directory, name));
+}
+
+// Transcribes a recording with the clinic's glossary as a hint, then replaces
+// any mishearings the glossary lists. Recordings longer than the provider takes
+// are transcribed in parts, with segment timings carried on from part to part.
+export async function transcribeRecording(
+  audioFilePath: string,
+  provider: TranscriptionProvider,
+  glossary: GlossaryTerm[] = [],
+): Promise<TranscriptionResult> {
+  if (!fs.existsSync(audioFilePath) || fs.statSync(audioFilePath).size === 0) {
+    throw new Error("Audio file is empty or missing");
+  }
+
+  const format = provider.audioFormat;
+  const normalizedPath = await normalizeAudio(audioFilePath, format);
+  let parts: string[] = [];
+  try {
+    const { maxPartSeconds } = provider;
+    parts = maxPartSeconds && getNormalizedDurationSeconds(normalizedPath, format) > maxPartSeconds
+      ? await splitAudio(normalizedPath, format, maxPartSeconds)
+      : [normalizedPath];
+    const prompt = buildGlossaryPrompt(glossary);
+
+    const texts: string[] = [];
+    const segments: TranscriptionSegment[] = [];
+    let offsetMs = 0;
+    for (let index = 0; index < parts.length; index++) {
+      const part = parts[index];
+      console.log(
+        `Transcribing ${part} with ${provider.name} (${fs.statSync(part).size} bytes, part ${index + 1} of ${parts.length})`,
+      );
+      const result = await provider.transcribe(part, { prompt });
+      texts.push(result.text.trim());
+      for (const segment of result.segments) {
+        segments.push({ ...segment, startMs: segment.startMs + offsetMs, endMs: segment.endMs + offsetMs });
+      }
+      offsetMs += Math.round(getNormalizedDurationSeconds(part, format) * 1000);
+    }
+
+    return {
+      text: applyGlossary(texts.filter(Boolean).join(" "), glossary),
+      segments: segments.map((segment) => ({ ...segment, text: applyGlossary(segment.text, glossary) })),
+    };
+  } catch (error) {
+    console.error(`Error transcribing audio with ${provider.name}:`, error);
+    throw new Error("Failed to transcribe audio: " + (error as Error).message);
+  } finally {
+    for (const part of parts) {
+      fs.rmSync(part, { force: true });
+    }
+    fs.rmSync(normalizedPath, { force: true });
+  }
+}
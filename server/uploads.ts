@@ -0,0 +1,93 @@
+import fs from "fs";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { AudioUpload, AudioUploadStatus } from "@shared/schema";
+import { getChunkCount } from "@shared/uploads";
+
+// Disk side of chunked uploads. Each chunk is written to a temporary file and
+// renamed into place, so a chunk file that exists is always complete and the
+// directory listing is the record of what has arrived.
+
+const UPLOAD_DIR = "uploads";
+const CHUNK_DIR = path.join(UPLOAD_DIR, "chunks");
+// Uploads untouched for this long are abandoned and their chunks deleted.
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+function getChunkDir(uploadId: number) {
+  return path.join(CHUNK_DIR, String(uploadId));
+}
+
+export async function getUploadStatus(upload: AudioUpload): Promise<AudioUploadStatus> {
+  const chunkCount = getChunkCount(upload.size, upload.chunkSize);
+  const files = await fs.promises.readdir(getChunkDir(upload.id)).catch(() => [] as string[]);
+  const receivedChunks = files
+    .filter((file) => /^\d+$/.test(file))
+    .map(Number)
+    .filter((index) => index < chunkCount)
+    .sort((a, b) => a - b);
+  return {
+    id: upload.id,
+    size: upload.size,
+    chunkSize: upload.chunkSize,
+    chunkCount,
+    receivedChunks,
+    consultationId: upload.consultationId,
+  };
+}
+
+// Overwrites any earlier copy, so resending a chunk is harmless.
+export async function writeChunk(uploadId: number, index: number, data: Buffer) {
+  const dir = getChunkDir(uploadId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const partialPath = path.join(dir, `${index}.${randomBytes(4).toString("hex")}.part`);
+  await fs.promises.writeFile(partialPath, data);
+  await fs.promises.rename(partialPath, path.join(dir, String(index)));
+}
+
+// Joins the chunks into one recording under uploads/ and returns its path with
+// the SHA-256 of what was written.
+export async function assembleChunks(upload: AudioUpload): Promise<{ path: string; sha256: string }> {
+  const extension = path.extname(upload.fileName).toLowerCase();
+  const outputPath = path.join(
+    UPLOAD_DIR,
+    randomBytes(16).toString("hex") + (/^\.[a-z0-9]{1,5}$/.test(extension) ? extension : ".webm"),
+  );
+  const hash = createHash("sha256");
+  const output = await fs.promises.open(outputPath, "w");
+  try {
+    for (let index = 0; index < getChunkCount(upload.size, upload.chunkSize); index++) {
+      const data = await fs.promises.readFile(path.join(getChunkDir(upload.id), String(index)));
+      hash.update(data);
+      await output.write(data);
+    }
+  } catch (error) {
+    await output.close();
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+  await output.close();
+  return { path: outputPath, sha256: hash.digest("hex") };
+}
+
+export function removeChunks(uploadId: number) {
+  fs.rmSync(getChunkDir(uploadId), { recursive: true, force: true });
+}
+
+async function removeStaleUploads() {
+  const stale = await storage.getStaleAudioUploads(new Date(Date.now() - UPLOAD_EXPIRY_MS));
+  for (const upload of stale) {
+    removeChunks(upload.id);
+    await storage.deleteAudioUpload(upload.id);
+  }
+  if (stale.length > 0) {
+    console.log(`Removed ${stale.length} expired audio upload(s)`);
+  }
+}
+
+export function startUploadCleanup() {
+  const sweep = () => removeStaleUploads().catch((error) => console.error("Error removing expired uploads:", error));
+  setInterval(sweep, CLEANUP_INTERVAL_MS).unref();
+  void sweep();
+}
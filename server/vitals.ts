@@ -0,0 +1,88 @@
+import type { VitalsSuggestion } from "@shared/schema";
+import { isVitalInRange, type VitalSign } from "@shared/vitals";
+
+// Finds vital signs spoken during a consultation, e.g. "she weighs 12.4 kilos"
+// or "temp is 101.5". Only the first mention of each sign is used and values
+// outside the plausible range are dropped; the vet confirms before saving.
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+// Allows a few filler words between the measurement name and its value.
+const GAP = String.raw`(?:\s+(?:is|was|of|at|today|about|around|roughly|approximately|now|reading)|[\s:,=-])*\s*`;
+
+const WEIGHT = new RegExp(
+  String.raw`\b(?:weigh(?:s|t|ed|ing)?|bodyweight)${GAP}${NUMBER}\s*(kg|kgs|kilos?|kilograms?|lbs?|pounds?|g|grams?)\b`,
+  "i",
+);
+const TEMPERATURE = new RegExp(
+  String.raw`\b(?:temp(?:erature)?)${GAP}${NUMBER}\s*(?:degrees?|°)?\s*(c|celsius|centigrade|f|fahrenheit)?\b`,
+  "i",
+);
+const HEART_RATE = new RegExp(String.raw`\b(?:heart\s*rate|hr|pulse)${GAP}(\d{2,3})\b`, "i");
+const RESPIRATORY_RATE = new RegExp(
+  String.raw`\b(?:resp(?:iratory|iration)?(?:\s*rate)?|rr|breathing\s*rate)${GAP}(\d{1,3})\b`,
+  "i",
+);
+const BODY_CONDITION = new RegExp(
+  String.raw`\b(?:body\s*condition(?:\s*score)?|bcs)${GAP}(\d(?:\.5)?)(?:\s*(?:out\s*of|over|/)\s*(5|9))?`,
+  "i",
+);
+
+const POUNDS_TO_KG = 0.45359237;
+
+function round(value: number, places: number) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function extractWeight(text: string): number | undefined {
+  const match = WEIGHT.exec(text);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith("lb") || unit.startsWith("pound")) return round(value * POUNDS_TO_KG, 2);
+  if (unit === "g" || unit.startsWith("gram")) return round(value / 1000, 3);
+  return value;
+}
+
+function extractTemperature(text: string): number | undefined {
+  const match = TEMPERATURE.exec(text);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const unit = match[2]?.toLowerCase();
+  // Without a unit, anything above the Celsius range must be Fahrenheit.
+  const isFahrenheit = unit ? unit.startsWith("f") : value > 45;
+  return isFahrenheit ? round(((value - 32) * 5) / 9, 1) : value;
+}
+
+function extractBodyConditionScore(text: string): number | undefined {
+  const match = BODY_CONDITION.exec(text);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  // Scores on the 5-point scale are converted to the 9-point scale we store.
+  return Math.round(match[2] === "5" ? value * 2 - 1 : value);
+}
+
+function extractInteger(pattern: RegExp, text: string): number | undefined {
+  const match = pattern.exec(text);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function extractVitalsFromTranscript(text: string | null | undefined): VitalsSuggestion {
+  if (!text) return {};
+
+  const candidates: Record<VitalSign, number | undefined> = {
+    weightKg: extractWeight(text),
+    temperatureC: extractTemperature(text),
+    heartRate: extractInteger(HEART_RATE, text),
+    respiratoryRate: extractInteger(RESPIRATORY_RATE, text),
+    bodyConditionScore: extractBodyConditionScore(text),
+  };
+
+  const suggestion: VitalsSuggestion = {};
+  for (const [sign, value] of Object.entries(candidates) as [VitalSign, number | undefined][]) {
+    if (value !== undefined && isVitalInRange(sign, value)) {
+      suggestion[sign] = value;
+    }
+  }
+  return suggestion;
+}
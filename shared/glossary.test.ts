@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyGlossary, findCorrectedPhrase } from "./glossary";
+
+test("replaces whole-word mishearings regardless of case", () => {
+  const glossary = [{ term: "Apoquel", mishearings: ["a poke well", "apple kwell"] }];
+  assert.equal(applyGlossary("Start A Poke  Well daily", glossary), "Start Apoquel daily");
+  assert.equal(applyGlossary("apple kwell twice", glossary), "Apoquel twice");
+  assert.equal(applyGlossary("a poke wellness check", glossary), "a poke wellness check");
+});
+
+test("prefers the longest mishearing", () => {
+  const glossary = [
+    { term: "Cytopoint", mishearings: ["poke"] },
+    { term: "Apoquel", mishearings: ["a poke well"] },
+  ];
+  assert.equal(applyGlossary("a poke well, then a poke", glossary), "Apoquel, then a Cytopoint");
+});
+
+test("doesn't replace inside a replacement or a correctly heard term", () => {
+  const glossary = [{ term: "Dr Okafor", mishearings: ["Okafor", "Oak a four"] }];
+  assert.equal(applyGlossary("Dr Okafor examined", glossary), "Dr Okafor examined");
+  assert.equal(applyGlossary("oak a four examined", glossary), "Dr Okafor examined");
+  assert.equal(applyGlossary("seen by Okafor", glossary), "seen by Dr Okafor");
+});
+
+test("inserts terms literally", () => {
+  const glossary = [{ term: "$& (1$1)", mishearings: ["special"] }];
+  assert.equal(applyGlossary("a special case", glossary), "a $& (1$1) case");
+});
+
+test("leaves text alone without mishearings", () => {
+  assert.equal(applyGlossary("unchanged", []), "unchanged");
+  assert.equal(applyGlossary("unchanged", [{ term: "Apoquel", mishearings: ["  "] }]), "unchanged");
+});
+
+test("finds the phrase a correction replaced", () => {
+  assert.deepEqual(findCorrectedPhrase("given a poke well daily", "given Apoquel daily"), {
+    heard: "a poke well",
+    term: "Apoquel",
+  });
+  assert.deepEqual(findCorrectedPhrase("Seen by oak a four.", "Seen by Dr Okafor."), {
+    heard: "oak a four",
+    term: "Dr Okafor",
+  });
+});
+
+test("ignores corrections that only change case or punctuation", () => {
+  assert.equal(findCorrectedPhrase("given apoquel daily", "Given Apoquel daily."), undefined);
+  assert.equal(findCorrectedPhrase("no change", "no change"), undefined);
+  assert.equal(findCorrectedPhrase("remove this word", "remove word"), undefined);
+});
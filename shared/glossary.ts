@@ -0,0 +1,90 @@
+// A clinic glossary lists terms speech-to-text tends to get wrong (drug
+// brands, local place names, staff names) with the ways they are misheard.
+// Terms are given to the transcription provider as a hint, and mishearings
+// are replaced with the term after transcription.
+
+export const MAX_GLOSSARY_TERM_LENGTH = 100;
+export const MAX_MISHEARINGS_PER_TERM = 20;
+// Whisper only reads the last 224 tokens of its prompt; keep the hint well under that.
+const MAX_PROMPT_LENGTH = 800;
+
+type GlossaryEntry = {
+  term: string;
+  mishearings: string[];
+};
+
+// Anything that isn't a letter or digit, in any script.
+const NON_WORD = new RegExp("[^\\p{L}\\p{N}]+", "gu");
+const EDGE_PUNCTUATION = new RegExp("^[^\\p{L}\\p{N}]+|[^\\p{L}\\p{N}]+$", "gu");
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "Glossary: Apoquel, Cytopoint, Dr Okafor." for the transcription prompt.
+export function buildGlossaryPrompt(entries: GlossaryEntry[]): string | undefined {
+  const terms: string[] = [];
+  let length = "Glossary: .".length;
+  for (const { term } of entries) {
+    if (length + term.length + 2 > MAX_PROMPT_LENGTH) break;
+    terms.push(term);
+    length += term.length + 2;
+  }
+  return terms.length > 0 ? `Glossary: ${terms.join(", ")}.` : undefined;
+}
+
+function phraseKey(phrase: string) {
+  return phrase.toLowerCase().replace(/\s+/g, " ");
+}
+
+// Replaces whole-word, case-insensitive mishearings with the glossary term, in
+// a single pass so a replacement is never matched again. Terms match
+// themselves, so "Dr Okafor" is left alone even when "Okafor" is a mishearing,
+// and longer phrases go first so "a poke well" wins over "poke".
+export function applyGlossary(text: string, entries: GlossaryEntry[]): string {
+  const termsByPhrase = new Map<string, string>();
+  for (const { term, mishearings } of entries) {
+    for (const heard of mishearings) {
+      const key = phraseKey(heard.trim());
+      if (key && !termsByPhrase.has(key)) termsByPhrase.set(key, term);
+    }
+  }
+  for (const { term } of entries) {
+    const key = phraseKey(term.trim());
+    if (key && !termsByPhrase.has(key)) termsByPhrase.set(key, term);
+  }
+  if (termsByPhrase.size === 0) return text;
+
+  const alternatives = Array.from(termsByPhrase.keys())
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => escapeRegExp(phrase).replace(/ /g, "\\s+"));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+  return text.replace(pattern, (match) => termsByPhrase.get(phraseKey(match)) ?? match);
+}
+
+// The words that changed between a machine transcript line and its correction,
+// e.g. "given a poke well daily" → "given Apoquel daily" is { heard: "a poke well", term: "Apoquel" }.
+export function findCorrectedPhrase(original: string, corrected: string): { heard: string; term: string } | undefined {
+  const before = original.trim().split(/\s+/);
+  const after = corrected.trim().split(/\s+/);
+  const normalize = (word: string) => word.toLowerCase().replace(NON_WORD, "");
+
+  let start = 0;
+  while (start < before.length && start < after.length && normalize(before[start]) === normalize(after[start])) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && normalize(before[endBefore - 1]) === normalize(after[endAfter - 1])) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const strip = (words: string[]) => words.join(" ").replace(EDGE_PUNCTUATION, "");
+  const heard = strip(before.slice(start, endBefore));
+  const term = strip(after.slice(start, endAfter));
+  if (!heard || !term || heard.toLowerCase() === term.toLowerCase() || term.length > MAX_GLOSSARY_TERM_LENGTH) {
+    return undefined;
+  }
+  return { heard, term };
+}
@@ -0,0 +1,52 @@
+// Background jobs run for a consultation after upload. Each job queues the
+// next once its output is saved (transcription, then diarization when it is
+// configured, then the SOAP note), so a retry only repeats the step that failed.
+
+export const JOB_TYPES = ["transcription", "diarization", "soap-note"] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  transcription: "Transcription",
+  diarization: "Speaker identification",
+  "soap-note": "SOAP note generation",
+};
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  succeeded: "Succeeded",
+  failed: "Failed",
+};
+
+// Where a consultation is in processing, as shown to users. Stored on the
+// consultation while it is processing and pushed to clients as it changes.
+export const PROCESSING_STAGES = [
+  "uploaded",
+  "transcribing",
+  "identifying-speakers",
+  "generating-soap",
+  "completed",
+  "failed",
+] as const;
+export type ProcessingStage = (typeof PROCESSING_STAGES)[number];
+
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  uploaded: "Waiting to process",
+  transcribing: "Transcribing audio",
+  "identifying-speakers": "Identifying speakers",
+  "generating-soap": "Generating SOAP note",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+export function getProcessingStage(consultation: { status: string; processingStage: string | null }): ProcessingStage {
+  if (consultation.status === "completed" || consultation.status === "failed") {
+    return consultation.status;
+  }
+  return (PROCESSING_STAGES as readonly string[]).includes(consultation.processingStage ?? "")
+    ? (consultation.processingStage as ProcessingStage)
+    : "uploaded";
+}
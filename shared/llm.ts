@@ -0,0 +1,23 @@
+// Tasks the app sends to a language model. Each task can use its own model,
+// set with LLM_MODEL_<TASK> (e.g. LLM_MODEL_SOAP_NOTE).
+
+export const LLM_TASKS = ["soap-note"] as const;
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+// Recorded with each generated note so output can be compared across providers and models.
+export type LlmGenerationMetadata = {
+  provider: string;
+  model: string;
+  latencyMs: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  generatedAt: string;
+};
+
+export function describeGeneration(metadata: LlmGenerationMetadata): string {
+  const parts = [`${metadata.model} via ${metadata.provider}`, `${(metadata.latencyMs / 1000).toFixed(1)}s`];
+  if (metadata.promptTokens !== null || metadata.completionTokens !== null) {
+    parts.push(`${metadata.promptTokens ?? "?"} prompt / ${metadata.completionTokens ?? "?"} completion tokens`);
+  }
+  return parts.join(" · ");
+}
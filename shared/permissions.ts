@@ -0,0 +1,49 @@
+// Clinic roles and what each of them is allowed to do.
+// Shared so the server can enforce permissions and the client can hide
+// actions the current user can't perform.
+
+export const ROLES = ["admin", "vet", "nurse", "receptionist"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrator",
+  vet: "Veterinarian",
+  nurse: "Nurse",
+  receptionist: "Receptionist",
+};
+
+export type Permission =
+  | "customers:manage"
+  | "consultations:read"
+  | "consultations:record"
+  | "consultations:edit"
+  | "consultations:finalize"
+  | "consultations:delete"
+  | "prescriptions:prescribe"
+  | "users:manage";
+
+const VET_PERMISSIONS: Permission[] = [
+  "customers:manage",
+  "consultations:read",
+  "consultations:record",
+  "consultations:edit",
+  "consultations:finalize",
+  "consultations:delete",
+  "prescriptions:prescribe",
+];
+
+// Administrators are practice owners: everything a vet can do plus user management.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...VET_PERMISSIONS, "users:manage"],
+  vet: VET_PERMISSIONS,
+  nurse: ["customers:manage", "consultations:read", "consultations:record", "consultations:edit"],
+  receptionist: ["customers:manage"],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
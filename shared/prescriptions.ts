@@ -0,0 +1,83 @@
+// Prescriptions written for a patient. A prescription is current until its
+// course runs out or it is stopped; one without a duration is long-term.
+
+import { addDays, toDateString } from "./vaccinations";
+
+export const MEDICATION_ROUTES = [
+  "oral",
+  "topical",
+  "subcutaneous",
+  "intramuscular",
+  "intravenous",
+  "ophthalmic",
+  "otic",
+  "inhaled",
+  "rectal",
+  "other",
+] as const;
+export type MedicationRoute = (typeof MEDICATION_ROUTES)[number];
+
+export const MEDICATION_ROUTE_LABELS: Record<MedicationRoute, string> = {
+  oral: "Oral (PO)",
+  topical: "Topical",
+  subcutaneous: "Subcutaneous (SC)",
+  intramuscular: "Intramuscular (IM)",
+  intravenous: "Intravenous (IV)",
+  ophthalmic: "Ophthalmic",
+  otic: "Otic",
+  inhaled: "Inhaled",
+  rectal: "Rectal",
+  other: "Other",
+};
+
+// How each route reads in the directions printed for the owner.
+const ROUTE_DIRECTIONS: Record<MedicationRoute, string> = {
+  oral: "by mouth",
+  topical: "to the skin",
+  subcutaneous: "by injection under the skin",
+  intramuscular: "by injection into the muscle",
+  intravenous: "intravenously",
+  ophthalmic: "in the eye",
+  otic: "in the ear",
+  inhaled: "by inhalation",
+  rectal: "rectally",
+  other: "",
+};
+
+type PrescriptionCourse = {
+  startDate: string;
+  durationDays: number | null;
+  stoppedAt: string | null;
+};
+
+// Last day of the course, or null for long-term medication.
+export function getPrescriptionEndDate({ startDate, durationDays }: PrescriptionCourse): string | null {
+  if (!durationDays) return null;
+  const [year, month, day] = startDate.split("-").map(Number);
+  return toDateString(addDays(new Date(year, month - 1, day), durationDays - 1));
+}
+
+export function isCurrentPrescription(prescription: PrescriptionCourse, today: Date = new Date()): boolean {
+  if (prescription.stoppedAt) return false;
+  const endDate = getPrescriptionEndDate(prescription);
+  return !endDate || endDate >= toDateString(today);
+}
+
+// Refills left after the original fill and any refills already dispensed.
+export function getRefillsRemaining(refills: number, dispenseCount: number): number {
+  return Math.max(0, refills - Math.max(0, dispenseCount - 1));
+}
+
+// Directions as printed on the label, e.g. "Give 1 tablet by mouth twice daily for 7 days".
+export function formatDirections(prescription: {
+  dose: string;
+  route: string;
+  frequency: string;
+  durationDays: number | null;
+}): string {
+  const route = ROUTE_DIRECTIONS[prescription.route as MedicationRoute] ?? prescription.route;
+  const duration = prescription.durationDays
+    ? `for ${prescription.durationDays} day${prescription.durationDays === 1 ? "" : "s"}`
+    : "";
+  return ["Give", prescription.dose, route, prescription.frequency, duration].filter(Boolean).join(" ");
+}
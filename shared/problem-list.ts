@@ -0,0 +1,20 @@
+// Allergies and the problem list kept on a patient record. Chronic conditions
+// are problems flagged as chronic rather than a separate list.
+
+export const ALLERGY_SEVERITIES = ["mild", "moderate", "severe", "unknown"] as const;
+export type AllergySeverity = (typeof ALLERGY_SEVERITIES)[number];
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: "Mild",
+  moderate: "Moderate",
+  severe: "Severe",
+  unknown: "Unknown severity",
+};
+
+export const PROBLEM_STATUSES = ["active", "resolved"] as const;
+export type ProblemStatus = (typeof PROBLEM_STATUSES)[number];
+
+export const PROBLEM_STATUS_LABELS: Record<ProblemStatus, string> = {
+  active: "Active",
+  resolved: "Resolved",
+};
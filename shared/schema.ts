@@ -8,10 +8,23 @@ import {
   serial,
   integer,
   boolean,
+  date,
+  real,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { ROLES, type Role } from "./permissions";
+import { SPECIES, SEXES, isValidMicrochip, normalizeMicrochip } from "./signalment";
+import { VITAL_SIGNS, VITAL_SIGN_INFO, type VitalSign } from "./vitals";
+import { ALLERGY_SEVERITIES, PROBLEM_STATUSES } from "./problem-list";
+import { MEDICATION_ROUTES } from "./prescriptions";
+import type { ProcessingStage } from "./jobs";
+import { TRANSCRIPTION_PROVIDERS, type SpeakerNames } from "./transcription";
+import { MAX_GLOSSARY_TERM_LENGTH, MAX_MISHEARINGS_PER_TERM } from "./glossary";
+import type { LlmGenerationMetadata } from "./llm";
+import { MAX_UPLOAD_SIZE } from "./uploads";
+import type { SoapNote } from "./soap";
 
 // Session storage table.
 // This table is required for server-side session storage.
@@ -30,26 +43,87 @@ export const sessions = pgTable(
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().notNull(),
   email: varchar("email").unique(),
+  passwordHash: varchar("password_hash"),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  clinicName: varchar("clinic_name"),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Customer storage table for tracking pet owners
-export const customers = pgTable("customers", {
+// Clinic (tenant) table. Patients and consultations belong to a clinic
+// so every member of the practice can work with them.
+export const clinics = pgTable("clinics", {
   id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  patientId: varchar("patient_id").notNull(),
+  name: varchar("name").notNull(),
+  transcriptionProvider: varchar("transcription_provider"), // openai, local-whisper, fake; null uses the server default
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Clinic membership. A user belongs to exactly one clinic and has one role there.
+export const clinicMembers = pgTable("clinic_members", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  role: varchar("role").notNull().default("vet"), // admin, vet, nurse, receptionist
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Pending invitations for colleagues to join a clinic.
+// Only a hash of the invite token is stored.
+export const userInvites = pgTable("user_invites", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id, { onDelete: "cascade" }),
+  email: varchar("email").notNull(),
+  role: varchar("role").notNull().default("vet"),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  invitedBy: varchar("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time password reset tokens. Only a hash of the token is stored.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Owner (client) table. An owner can have any number of patients.
+export const owners = pgTable("owners", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  userId: varchar("user_id").notNull().references(() => users.id), // Created by
   name: varchar("name").notNull(),
   email: varchar("email"),
   phone: varchar("phone"),
   address: text("address"),
-  petName: varchar("pet_name"),
-  petBreed: varchar("pet_breed"),
-  petAge: varchar("pet_age"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Patient (animal) table. Each patient belongs to one owner.
+export const patients = pgTable("patients", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  ownerId: integer("owner_id").notNull().references(() => owners.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id), // Created by
+  patientId: varchar("patient_id").notNull(), // Clinic-assigned patient ID
+  name: varchar("name").notNull(),
+  species: varchar("species"), // See SPECIES in signalment.ts
+  breed: varchar("breed"),
+  sex: varchar("sex"), // male, female, unknown
+  neutered: boolean("neutered"), // Null when not known
+  dateOfBirth: date("date_of_birth"), // Age is computed from this
+  colour: varchar("colour"), // Colour and markings
+  microchipNumber: varchar("microchip_number"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -57,57 +131,663 @@ export const customers = pgTable("customers", {
 
 export const consultations = pgTable("consultations", {
   id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  customerId: integer("customer_id").references(() => customers.id), // Make nullable for migration
-  customerName: varchar("customer_name").notNull(), // Keep for backwards compatibility
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  userId: varchar("user_id").notNull().references(() => users.id), // Recorded by
+  patientRecordId: integer("patient_record_id").references(() => patients.id, { onDelete: "set null" }),
+  // Snapshot of the owner and patient at recording time; kept if the patient is deleted.
+  customerName: varchar("customer_name").notNull(),
   patientId: varchar("patient_id"),
   petName: varchar("pet_name"),
   fileName: varchar("file_name").notNull(),
   audioUrl: text("audio_url"),
-  fullTranscription: text("full_transcription"),
-  aiSoapNote: text("ai_soap_note"),
-  finalSoapNote: text("final_soap_note"),
+  fullTranscription: text("full_transcription"), // Corrected transcript, if it has been edited
+  originalTranscription: text("original_transcription"), // Machine transcript; set only once it has been corrected
+  transcriptEditedById: varchar("transcript_edited_by_id").references(() => users.id),
+  transcriptEditedAt: timestamp("transcript_edited_at"),
+  aiSoapNote: jsonb("ai_soap_note").$type<SoapNote>(), // Sections as drafted by the model
+  soapNoteMetadata: jsonb("soap_note_metadata").$type<LlmGenerationMetadata>(), // Provider, model, latency and tokens for aiSoapNote
+  speakerNames: jsonb("speaker_names").$type<SpeakerNames>(), // Display names for transcript speakers, e.g. { "Speaker 1": "Vet" }
+  finalSoapNote: jsonb("final_soap_note").$type<SoapNote>(), // Sections as edited by the vet
   isFinalized: boolean("is_finalized").notNull().default(false),
+  // Electronic signature, set once when a vet finalizes the note (see signatures.ts).
+  signedById: varchar("signed_by_id").references(() => users.id),
+  signedByName: varchar("signed_by_name"), // Name as signed
+  signedAt: timestamp("signed_at"),
+  signatureHash: varchar("signature_hash"), // SHA-256 of the signed note, signer and time
   duration: integer("duration"), // in seconds
   recordedAt: timestamp("recorded_at").defaultNow(),
   status: varchar("status").notNull().default("processing"), // processing, completed, failed
+  processingStage: varchar("processing_stage"), // uploaded, transcribing, generating-soap while processing
+  failureReason: text("failure_reason"), // Last processing error when status is failed
+});
+
+// Durable background work for a consultation; run by the worker in server/jobs.ts.
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: serial("id").primaryKey(),
+    clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+    consultationId: integer("consultation_id").notNull().references(() => consultations.id, { onDelete: "cascade" }),
+    type: varchar("type").notNull(), // transcription, soap-note
+    status: varchar("status").notNull().default("queued"), // queued, running, succeeded, failed
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    lastError: text("last_error"),
+    runAt: timestamp("run_at").notNull().defaultNow(), // Not picked up before this; pushed back between retries
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_jobs_status_run_at").on(table.status, table.runAt)],
+);
+
+// Timed pieces of a consultation transcript, in playback order. Replaced
+// whenever the audio is transcribed again.
+export const transcriptSegments = pgTable("transcript_segments", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  consultationId: integer("consultation_id").notNull().references(() => consultations.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  startMs: integer("start_ms").notNull(),
+  endMs: integer("end_ms").notNull(),
+  speaker: varchar("speaker"), // "Speaker 1", "Speaker 2"… once diarized
+  text: text("text").notNull(),
+  originalText: text("original_text"), // Machine text; set only while the segment is corrected
+});
+
+// Append-only history of the final SOAP note: one row for each version saved,
+// by a vet or by the model when a draft is written. Never updated or deleted.
+export const soapNoteRevisions = pgTable("soap_note_revisions", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  consultationId: integer("consultation_id").notNull().references(() => consultations.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").references(() => users.id), // Null when written by the model
+  content: jsonb("content").$type<SoapNote>().notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Dated, attributed notes added to a consultation after its SOAP note was
+// signed, which is otherwise locked. Never updated or deleted.
+export const consultationAddenda = pgTable("consultation_addenda", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  consultationId: integer("consultation_id").notNull().references(() => consultations.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A recording being uploaded in chunks (see uploads.ts). Chunks are kept on disk
+// until the upload completes and becomes a consultation, or expires.
+export const audioUploads = pgTable("audio_uploads", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id), // Uploader; only they may add chunks
+  patientRecordId: integer("patient_record_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  fileName: varchar("file_name").notNull(), // Browser file name, for the extension
+  size: integer("size").notNull(), // Bytes
+  chunkSize: integer("chunk_size").notNull(),
+  consultationId: integer("consultation_id").references(() => consultations.id, { onDelete: "set null" }), // Set once completed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Clinic glossary: terms speech-to-text gets wrong and how they are misheard (see glossary.ts).
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id, { onDelete: "cascade" }),
+  term: varchar("term").notNull(),
+  mishearings: text("mishearings").array().notNull().default([]),
+  userId: varchar("user_id").notNull().references(() => users.id), // Added by
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Weight and vital signs over time. Stored in metric units (see vitals.ts).
+export const patientVitals = pgTable("patient_vitals", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  patientRecordId: integer("patient_record_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  consultationId: integer("consultation_id").references(() => consultations.id, { onDelete: "set null" }), // Source consultation
+  userId: varchar("user_id").notNull().references(() => users.id), // Recorded by
+  weightKg: real("weight_kg"),
+  temperatureC: real("temperature_c"),
+  heartRate: integer("heart_rate"),
+  respiratoryRate: integer("respiratory_rate"),
+  bodyConditionScore: integer("body_condition_score"), // 1-9 scale
+  measuredAt: timestamp("measured_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const patientAllergies = pgTable("patient_allergies", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  patientRecordId: integer("patient_record_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id), // Recorded by
+  allergen: varchar("allergen").notNull(), // Drug, food or environmental trigger
+  reaction: text("reaction"),
+  severity: varchar("severity").notNull().default("unknown"), // See ALLERGY_SEVERITIES
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Vaccines given. The most recent dose of a vaccine drives its due date.
+export const patientVaccinations = pgTable("patient_vaccinations", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  patientRecordId: integer("patient_record_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  consultationId: integer("consultation_id").references(() => consultations.id, { onDelete: "set null" }), // Given during
+  userId: varchar("user_id").notNull().references(() => users.id), // Recorded by
+  administeredById: varchar("administered_by_id").references(() => users.id),
+  vaccine: varchar("vaccine").notNull(),
+  batchNumber: varchar("batch_number"), // Batch or lot number
+  expiryDate: date("expiry_date"), // Expiry of the batch
+  site: varchar("site"),
+  administeredAt: date("administered_at").notNull(),
+  nextDueDate: date("next_due_date"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const customerRelations = relations(customers, ({ one, many }) => ({
+export const patientPrescriptions = pgTable("patient_prescriptions", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  patientRecordId: integer("patient_record_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  consultationId: integer("consultation_id").references(() => consultations.id, { onDelete: "set null" }), // Prescribed during
+  prescriberId: varchar("prescriber_id").notNull().references(() => users.id),
+  drug: varchar("drug").notNull(),
+  strength: varchar("strength"), // e.g. "50 mg" or "10 mg/ml"
+  dose: varchar("dose").notNull(), // Amount per administration, e.g. "1 tablet"
+  route: varchar("route").notNull(), // oral, topical, subcutaneous, ...
+  frequency: varchar("frequency").notNull(), // e.g. "twice daily"
+  durationDays: integer("duration_days"), // Null for long-term medication
+  quantity: varchar("quantity").notNull(), // Amount dispensed per fill, e.g. "14 tablets"
+  refills: integer("refills").notNull().default(0),
+  instructions: text("instructions"),
+  startDate: date("start_date").notNull(),
+  stoppedAt: date("stopped_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Each fill of a prescription: the original supply and any refills.
+export const prescriptionDispensings = pgTable("prescription_dispensings", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  prescriptionId: integer("prescription_id").notNull().references(() => patientPrescriptions.id, { onDelete: "cascade" }),
+  dispensedById: varchar("dispensed_by_id").notNull().references(() => users.id),
+  quantity: varchar("quantity").notNull(),
+  notes: text("notes"),
+  dispensedAt: timestamp("dispensed_at").notNull().defaultNow(),
+});
+
+// Problem list entries. Chronic conditions are problems with isChronic set.
+export const patientProblems = pgTable("patient_problems", {
+  id: serial("id").primaryKey(),
+  clinicId: integer("clinic_id").notNull().references(() => clinics.id),
+  patientRecordId: integer("patient_record_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id), // Recorded by
+  name: varchar("name").notNull(),
+  status: varchar("status").notNull().default("active"), // active, resolved
+  isChronic: boolean("is_chronic").notNull().default(false),
+  onsetDate: date("onset_date"),
+  resolvedDate: date("resolved_date"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const clinicRelations = relations(clinics, ({ many }) => ({
+  members: many(clinicMembers),
+  owners: many(owners),
+  patients: many(patients),
+  consultations: many(consultations),
+  vitals: many(patientVitals),
+  glossaryTerms: many(glossaryTerms),
+}));
+
+export const clinicMemberRelations = relations(clinicMembers, ({ one }) => ({
+  clinic: one(clinics, {
+    fields: [clinicMembers.clinicId],
+    references: [clinics.id],
+  }),
+  user: one(users, {
+    fields: [clinicMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ownerRelations = relations(owners, ({ one, many }) => ({
+  clinic: one(clinics, {
+    fields: [owners.clinicId],
+    references: [clinics.id],
+  }),
   user: one(users, {
-    fields: [customers.userId],
+    fields: [owners.userId],
+    references: [users.id],
+  }),
+  patients: many(patients),
+}));
+
+export const patientRelations = relations(patients, ({ one, many }) => ({
+  clinic: one(clinics, {
+    fields: [patients.clinicId],
+    references: [clinics.id],
+  }),
+  owner: one(owners, {
+    fields: [patients.ownerId],
+    references: [owners.id],
+  }),
+  user: one(users, {
+    fields: [patients.userId],
     references: [users.id],
   }),
   consultations: many(consultations),
+  vitals: many(patientVitals),
+  allergies: many(patientAllergies),
+  problems: many(patientProblems),
+  vaccinations: many(patientVaccinations),
+  prescriptions: many(patientPrescriptions),
 }));
 
-export const consultationRelations = relations(consultations, ({ one }) => ({
+export const consultationRelations = relations(consultations, ({ one, many }) => ({
+  clinic: one(clinics, {
+    fields: [consultations.clinicId],
+    references: [clinics.id],
+  }),
   user: one(users, {
     fields: [consultations.userId],
     references: [users.id],
   }),
-  customer: one(customers, {
-    fields: [consultations.customerId],
-    references: [customers.id],
+  patient: one(patients, {
+    fields: [consultations.patientRecordId],
+    references: [patients.id],
+  }),
+  vitals: many(patientVitals),
+  vaccinations: many(patientVaccinations),
+  prescriptions: many(patientPrescriptions),
+  jobs: many(jobs),
+  transcriptSegments: many(transcriptSegments),
+  soapNoteRevisions: many(soapNoteRevisions),
+  addenda: many(consultationAddenda),
+}));
+
+export const consultationAddendumRelations = relations(consultationAddenda, ({ one }) => ({
+  consultation: one(consultations, {
+    fields: [consultationAddenda.consultationId],
+    references: [consultations.id],
+  }),
+  author: one(users, {
+    fields: [consultationAddenda.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const soapNoteRevisionRelations = relations(soapNoteRevisions, ({ one }) => ({
+  consultation: one(consultations, {
+    fields: [soapNoteRevisions.consultationId],
+    references: [consultations.id],
+  }),
+  author: one(users, {
+    fields: [soapNoteRevisions.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const transcriptSegmentRelations = relations(transcriptSegments, ({ one }) => ({
+  consultation: one(consultations, {
+    fields: [transcriptSegments.consultationId],
+    references: [consultations.id],
+  }),
+}));
+
+export const jobRelations = relations(jobs, ({ one }) => ({
+  consultation: one(consultations, {
+    fields: [jobs.consultationId],
+    references: [consultations.id],
+  }),
+}));
+
+export const patientVitalsRelations = relations(patientVitals, ({ one }) => ({
+  clinic: one(clinics, {
+    fields: [patientVitals.clinicId],
+    references: [clinics.id],
+  }),
+  patient: one(patients, {
+    fields: [patientVitals.patientRecordId],
+    references: [patients.id],
+  }),
+  consultation: one(consultations, {
+    fields: [patientVitals.consultationId],
+    references: [consultations.id],
+  }),
+  user: one(users, {
+    fields: [patientVitals.userId],
+    references: [users.id],
+  }),
+}));
+
+export const patientAllergyRelations = relations(patientAllergies, ({ one }) => ({
+  patient: one(patients, {
+    fields: [patientAllergies.patientRecordId],
+    references: [patients.id],
+  }),
+  user: one(users, {
+    fields: [patientAllergies.userId],
+    references: [users.id],
+  }),
+}));
+
+export const patientVaccinationRelations = relations(patientVaccinations, ({ one }) => ({
+  patient: one(patients, {
+    fields: [patientVaccinations.patientRecordId],
+    references: [patients.id],
+  }),
+  consultation: one(consultations, {
+    fields: [patientVaccinations.consultationId],
+    references: [consultations.id],
+  }),
+  administeredBy: one(users, {
+    fields: [patientVaccinations.administeredById],
+    references: [users.id],
+  }),
+}));
+
+export const patientPrescriptionRelations = relations(patientPrescriptions, ({ one, many }) => ({
+  patient: one(patients, {
+    fields: [patientPrescriptions.patientRecordId],
+    references: [patients.id],
+  }),
+  consultation: one(consultations, {
+    fields: [patientPrescriptions.consultationId],
+    references: [consultations.id],
+  }),
+  prescriber: one(users, {
+    fields: [patientPrescriptions.prescriberId],
+    references: [users.id],
+  }),
+  dispensings: many(prescriptionDispensings),
+}));
+
+export const prescriptionDispensingRelations = relations(prescriptionDispensings, ({ one }) => ({
+  prescription: one(patientPrescriptions, {
+    fields: [prescriptionDispensings.prescriptionId],
+    references: [patientPrescriptions.id],
+  }),
+  dispensedBy: one(users, {
+    fields: [prescriptionDispensings.dispensedById],
+    references: [users.id],
+  }),
+}));
+
+export const glossaryTermRelations = relations(glossaryTerms, ({ one }) => ({
+  clinic: one(clinics, {
+    fields: [glossaryTerms.clinicId],
+    references: [clinics.id],
+  }),
+  user: one(users, {
+    fields: [glossaryTerms.userId],
+    references: [users.id],
+  }),
+}));
+
+export const patientProblemRelations = relations(patientProblems, ({ one }) => ({
+  patient: one(patients, {
+    fields: [patientProblems.patientRecordId],
+    references: [patients.id],
+  }),
+  user: one(users, {
+    fields: [patientProblems.userId],
+    references: [users.id],
   }),
 }));
 
-export const userRelations = relations(users, ({ many }) => ({
+export const userRelations = relations(users, ({ one, many }) => ({
+  membership: one(clinicMembers),
   consultations: many(consultations),
-  customers: many(customers),
+  owners: many(owners),
+  patients: many(patients),
 }));
 
-export const insertCustomerSchema = createInsertSchema(customers).omit({
+export const insertOwnerSchema = createInsertSchema(owners).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Client name is required"),
 });
 
-export const insertConsultationSchema = createInsertSchema(consultations).omit({
+export const insertPatientSchema = createInsertSchema(patients).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  patientId: z.string().trim().min(1, "Patient ID is required"),
+  name: z.string().trim().min(1, "Pet name is required"),
+  species: z.enum(SPECIES, { errorMap: () => ({ message: "Species is required" }) }),
+  sex: z.enum(SEXES).nullish(),
+  dateOfBirth: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be a date")
+    .refine((value) => new Date(value) <= new Date(), "Date of birth can't be in the future")
+    .nullish(),
+  microchipNumber: z
+    .string()
+    .trim()
+    .transform((value) => (value ? normalizeMicrochip(value) : null))
+    .refine((value) => value === null || isValidMicrochip(value), {
+      message: "Microchip number must be 15 digits (ISO), 9 digits or 10 hexadecimal characters",
+    })
+    .nullish(),
+});
+
+// Ownership columns are set by the server and can't be changed by updates.
+export const updateOwnerSchema = insertOwnerSchema
+  .omit({ clinicId: true, userId: true })
+  .partial();
+
+export const updatePatientSchema = insertPatientSchema
+  .omit({ clinicId: true, userId: true })
+  .partial();
+
+// Fields a client submits for an owner or patient; the server fills in ownership.
+export const ownerInputSchema = insertOwnerSchema.omit({ clinicId: true, userId: true });
+
+// A patient is created either for an existing owner or together with a new one.
+export const createPatientSchema = insertPatientSchema
+  .omit({ clinicId: true, userId: true, ownerId: true })
+  .extend({
+    ownerId: z.number().int().optional(),
+    owner: ownerInputSchema.optional(),
+  })
+  .refine((data) => data.ownerId !== undefined || data.owner !== undefined, {
+    message: "An existing owner or new owner details are required",
+    path: ["ownerId"],
+  });
+
+const llmGenerationMetadataSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  latencyMs: z.number(),
+  promptTokens: z.number().nullable(),
+  completionTokens: z.number().nullable(),
+  generatedAt: z.string(),
+});
+
+const soapNoteSchema = z.object({
+  subjective: z.string(),
+  objective: z.string(),
+  assessment: z.string(),
+  plan: z.string(),
+});
+
+const speakerNamesSchema = z.record(z.string().trim().max(50, "Speaker names must be 50 characters or fewer"));
+
+export const insertConsultationSchema = createInsertSchema(consultations, {
+  aiSoapNote: soapNoteSchema.nullable().optional(),
+  finalSoapNote: soapNoteSchema.nullable().optional(),
+  soapNoteMetadata: llmGenerationMetadataSchema.nullable().optional(),
+  speakerNames: speakerNamesSchema.nullable().optional(),
+}).omit({
   id: true,
   recordedAt: true,
+});
+
+function vitalSignSchema(sign: VitalSign, integer = false) {
+  const { label, unit, min, max } = VITAL_SIGN_INFO[sign];
+  const base = z.number({ invalid_type_error: `${label} must be a number` });
+  return (integer ? base.int(`${label} must be a whole number`) : base)
+    .min(min, `${label} must be at least ${min}${unit}`)
+    .max(max, `${label} must be at most ${max}${unit}`)
+    .nullish();
+}
+
+export const insertPatientVitalsSchema = createInsertSchema(patientVitals).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  weightKg: vitalSignSchema("weightKg"),
+  temperatureC: vitalSignSchema("temperatureC"),
+  heartRate: vitalSignSchema("heartRate", true),
+  respiratoryRate: vitalSignSchema("respiratoryRate", true),
+  bodyConditionScore: vitalSignSchema("bodyConditionScore", true),
+  measuredAt: z.coerce.date().optional(),
+});
+
+// Vitals as submitted by a client; the server fills in the clinic, patient and recorder.
+export const vitalsInputSchema = insertPatientVitalsSchema
+  .omit({ clinicId: true, patientRecordId: true, userId: true })
+  .refine((data) => VITAL_SIGNS.some((sign) => data[sign] !== null && data[sign] !== undefined), {
+    message: "Enter at least one measurement",
+  });
+
+const dateStringSchema = (label: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be a date`);
+
+export const insertPatientAllergySchema = createInsertSchema(patientAllergies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  allergen: z.string().trim().min(1, "Allergen is required"),
+  severity: z.enum(ALLERGY_SEVERITIES).default("unknown"),
+});
+
+export const insertPatientProblemSchema = createInsertSchema(patientProblems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Problem name is required"),
+  status: z.enum(PROBLEM_STATUSES).default("active"),
+  onsetDate: dateStringSchema("Onset date").nullish(),
+  resolvedDate: dateStringSchema("Resolved date").nullish(),
+});
+
+// Allergy and problem fields a client submits; the server fills in the clinic, patient and recorder.
+export const allergyInputSchema = insertPatientAllergySchema.omit({
+  clinicId: true,
+  patientRecordId: true,
+  userId: true,
+});
+export const updateAllergySchema = allergyInputSchema.partial();
+export const problemInputSchema = insertPatientProblemSchema.omit({
+  clinicId: true,
+  patientRecordId: true,
+  userId: true,
+});
+export const updateProblemSchema = problemInputSchema.partial();
+
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  term: z.string().trim().min(1, "Term is required").max(MAX_GLOSSARY_TERM_LENGTH, `Terms must be ${MAX_GLOSSARY_TERM_LENGTH} characters or fewer`),
+  mishearings: z
+    .array(z.string().trim().min(1).max(MAX_GLOSSARY_TERM_LENGTH))
+    .max(MAX_MISHEARINGS_PER_TERM, `At most ${MAX_MISHEARINGS_PER_TERM} mishearings per term`)
+    .transform((mishearings) => Array.from(new Set(mishearings)))
+    .default([]),
+});
+
+// Glossary fields a client submits; the server fills in the clinic and author.
+export const glossaryTermInputSchema = insertGlossaryTermSchema.omit({
+  clinicId: true,
+  userId: true,
+});
+export const updateGlossaryTermSchema = glossaryTermInputSchema.partial();
+
+export const insertPatientVaccinationSchema = createInsertSchema(patientVaccinations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  vaccine: z.string().trim().min(1, "Vaccine is required"),
+  administeredAt: dateStringSchema("Date given"),
+  expiryDate: dateStringSchema("Batch expiry date").nullish(),
+  nextDueDate: dateStringSchema("Next due date").nullish(),
+});
+
+// Vaccination fields a client submits; the server fills in the clinic, patient and recorder.
+export const vaccinationInputSchema = insertPatientVaccinationSchema
+  .omit({ clinicId: true, patientRecordId: true, userId: true })
+  .refine((data) => !data.nextDueDate || data.nextDueDate > data.administeredAt, {
+    message: "Next due date must be after the date given",
+    path: ["nextDueDate"],
+  });
+
+export const insertPatientPrescriptionSchema = createInsertSchema(patientPrescriptions).omit({
+  id: true,
+  stoppedAt: true,
+  createdAt: true,
+  updatedAt: true,
 }).extend({
-  customerId: z.number().optional(), // Make optional for backwards compatibility
+  drug: z.string().trim().min(1, "Drug is required"),
+  dose: z.string().trim().min(1, "Dose is required"),
+  route: z.enum(MEDICATION_ROUTES),
+  frequency: z.string().trim().min(1, "Frequency is required"),
+  durationDays: z.number().int().min(1, "Duration must be at least one day").nullish(),
+  quantity: z.string().trim().min(1, "Quantity is required"),
+  refills: z.number().int().min(0).max(12, "No more than 12 refills").default(0),
+  startDate: dateStringSchema("Start date"),
+});
+
+// Prescription fields a client submits; the server fills in the clinic, patient and prescriber.
+export const prescriptionInputSchema = insertPatientPrescriptionSchema.omit({
+  clinicId: true,
+  patientRecordId: true,
+  prescriberId: true,
+});
+
+export const insertAudioUploadSchema = createInsertSchema(audioUploads).omit({
+  id: true,
+  consultationId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  fileName: z.string().trim().min(1).max(255),
+  size: z.number().int().positive("Recording is empty").max(MAX_UPLOAD_SIZE, "Recording is too large to upload"),
+});
+
+// Upload fields a client submits; the server fills in the clinic, uploader and chunk size.
+export const audioUploadInputSchema = insertAudioUploadSchema.omit({
+  clinicId: true,
+  userId: true,
+  chunkSize: true,
+});
+
+export const completeAudioUploadSchema = z.object({
+  sha256: z
+    .string()
+    .regex(/^[0-9a-fA-F]{64}$/, "Checksum must be a SHA-256 hex digest")
+    .transform((sha256) => sha256.toLowerCase()),
+});
+
+export const dispenseInputSchema = z.object({
+  quantity: z.string().trim().min(1, "Quantity is required").optional(),
+  notes: z.string().nullish(),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -115,9 +795,158 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(200, "Password is too long");
+
+export const registerUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: passwordSchema,
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().optional(),
+  // Required when creating the first account, which also creates the clinic.
+  clinicName: z.string().trim().optional(),
+  inviteToken: z.string().optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+export const createInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum(ROLES).default("vet"),
+});
+
+export const updateClinicMemberSchema = z.object({
+  role: z.enum(ROLES).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// A transcript correction: segment texts when the transcript has segments,
+// otherwise the whole text.
+export const transcriptUpdateSchema = z
+  .object({
+    segments: z
+      .array(z.object({ id: z.number().int(), text: z.string().trim().min(1, "Transcript lines can't be empty") }))
+      .optional(),
+    fullTranscription: z.string().trim().min(1, "Transcript can't be empty").optional(),
+    regenerateSoap: z.boolean().optional(),
+  })
+  .refine((update) => update.segments !== undefined || update.fullTranscription !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const insertSoapNoteRevisionSchema = createInsertSchema(soapNoteRevisions, {
+  content: soapNoteSchema,
+  reason: z.string().trim().max(500, "Reasons must be 500 characters or fewer").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertConsultationAddendumSchema = createInsertSchema(consultationAddenda).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  text: z.string().trim().min(1, "Addendum can't be empty").max(5000, "Addenda must be 5000 characters or fewer"),
+});
+
+// Addendum fields a client submits; the server fills in the clinic, consultation and author.
+export const addendumInputSchema = insertConsultationAddendumSchema.pick({ text: true });
+
+export const updateClinicSchema = z.object({
+  name: z.string().trim().min(1, "Clinic name is required"),
+  transcriptionProvider: z.enum(TRANSCRIPTION_PROVIDERS).nullable().optional(),
+});
+
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
-export type Customer = typeof customers.$inferSelect;
-export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type PublicUser = Omit<User, "passwordHash">;
+export type Clinic = typeof clinics.$inferSelect;
+export type UpdateClinic = z.infer<typeof updateClinicSchema>;
+export type TranscriptUpdate = z.infer<typeof transcriptUpdateSchema>;
+export type ClinicMember = typeof clinicMembers.$inferSelect;
+export type CurrentUser = PublicUser & { clinic: Clinic; role: Role };
+export type ClinicMemberWithUser = PublicUser & { role: Role; joinedAt: Date | null };
+// Colleague as visible to every clinic member, e.g. for "administered by" pickers.
+export type ClinicStaffMember = { id: string; name: string; role: Role };
+export type UserInvite = typeof userInvites.$inferSelect;
+export type InsertUserInvite = typeof userInvites.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type Owner = typeof owners.$inferSelect;
+export type InsertOwner = z.infer<typeof insertOwnerSchema>;
+export type OwnerInput = z.infer<typeof ownerInputSchema>;
+export type Patient = typeof patients.$inferSelect;
+export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type CreatePatient = z.infer<typeof createPatientSchema>;
+export type PatientWithOwner = Patient & { owner: Owner };
+export type OwnerWithPatients = Owner & { patients: Patient[] };
 export type Consultation = typeof consultations.$inferSelect;
 export type InsertConsultation = z.infer<typeof insertConsultationSchema>;
+export type PatientVitals = typeof patientVitals.$inferSelect;
+export type InsertPatientVitals = z.infer<typeof insertPatientVitalsSchema>;
+export type VitalsInput = z.infer<typeof vitalsInputSchema>;
+export type PatientAllergy = typeof patientAllergies.$inferSelect;
+export type InsertPatientAllergy = z.infer<typeof insertPatientAllergySchema>;
+export type AllergyInput = z.infer<typeof allergyInputSchema>;
+export type PatientProblem = typeof patientProblems.$inferSelect;
+export type InsertPatientProblem = z.infer<typeof insertPatientProblemSchema>;
+export type ProblemInput = z.infer<typeof problemInputSchema>;
+export type PatientVaccination = typeof patientVaccinations.$inferSelect;
+export type InsertPatientVaccination = z.infer<typeof insertPatientVaccinationSchema>;
+export type VaccinationInput = z.infer<typeof vaccinationInputSchema>;
+export type VaccinationWithAdministrator = PatientVaccination & { administeredByName: string | null };
+export type DueVaccination = VaccinationWithAdministrator & { patient: PatientWithOwner };
+export type PatientPrescription = typeof patientPrescriptions.$inferSelect;
+export type InsertPatientPrescription = z.infer<typeof insertPatientPrescriptionSchema>;
+export type PrescriptionInput = z.infer<typeof prescriptionInputSchema>;
+export type PrescriptionDispensing = typeof prescriptionDispensings.$inferSelect;
+export type InsertPrescriptionDispensing = typeof prescriptionDispensings.$inferInsert;
+export type DispensingWithUser = PrescriptionDispensing & { dispensedByName: string | null };
+export type PrescriptionWithHistory = PatientPrescription & {
+  prescriberName: string | null;
+  dispensings: DispensingWithUser[];
+  refillsRemaining: number;
+};
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+export type GlossaryTermInput = z.infer<typeof glossaryTermInputSchema>;
+export type AudioUpload = typeof audioUploads.$inferSelect;
+export type InsertAudioUpload = z.infer<typeof insertAudioUploadSchema>;
+export type AudioUploadInput = z.infer<typeof audioUploadInputSchema>;
+// Where an upload has got to, for resuming it.
+export type AudioUploadStatus = {
+  id: number;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  receivedChunks: number[];
+  consultationId: number | null;
+};
+export type SoapNoteRevision = typeof soapNoteRevisions.$inferSelect;
+export type InsertSoapNoteRevision = z.infer<typeof insertSoapNoteRevisionSchema>;
+export type SoapNoteRevisionWithAuthor = SoapNoteRevision & { authorName: string | null };
+export type ConsultationAddendum = typeof consultationAddenda.$inferSelect;
+export type InsertConsultationAddendum = z.infer<typeof insertConsultationAddendumSchema>;
+export type AddendumInput = z.infer<typeof addendumInputSchema>;
+export type AddendumWithAuthor = ConsultationAddendum & { authorName: string | null };
+export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
+export type InsertTranscriptSegment = typeof transcriptSegments.$inferInsert;
+// Pushed over GET /api/events to every member of the consultation's clinic.
+export type ConsultationEvent =
+  | { type: "consultation.updated"; stage: ProcessingStage; consultation: Consultation }
+  | { type: "consultation.deleted"; consultationId: number };
+export type PatientProblemList = { allergies: PatientAllergy[]; problems: PatientProblem[] };
+// Measurements found in a consultation transcript, offered for confirmation.
+export type VitalsSuggestion = Partial<Record<VitalSign, number>>;
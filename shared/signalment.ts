@@ -0,0 +1,115 @@
+// Structured signalment for a patient: species, sex, neuter status, age,
+// colour and microchip. Shared so the server validates and exports it the
+// same way the client displays it.
+
+export const SPECIES = [
+  "canine",
+  "feline",
+  "equine",
+  "bovine",
+  "ovine",
+  "caprine",
+  "porcine",
+  "lagomorph",
+  "rodent",
+  "avian",
+  "reptile",
+  "other",
+] as const;
+export type Species = (typeof SPECIES)[number];
+
+export const SPECIES_LABELS: Record<Species, string> = {
+  canine: "Dog",
+  feline: "Cat",
+  equine: "Horse",
+  bovine: "Cattle",
+  ovine: "Sheep",
+  caprine: "Goat",
+  porcine: "Pig",
+  lagomorph: "Rabbit",
+  rodent: "Rodent",
+  avian: "Bird",
+  reptile: "Reptile",
+  other: "Other",
+};
+
+export const SEXES = ["male", "female", "unknown"] as const;
+export type Sex = (typeof SEXES)[number];
+
+export const SEX_LABELS: Record<Sex, string> = {
+  male: "Male",
+  female: "Female",
+  unknown: "Unknown",
+};
+
+// ISO 11784/11785 chips are 15 digits; older AVID chips are 9 digits and
+// FDX-A chips are 10 hexadecimal characters.
+const MICROCHIP_PATTERN = /^(\d{15}|\d{9}|[0-9A-F]{10})$/;
+
+export function normalizeMicrochip(value: string): string {
+  return value.replace(/[\s.-]/g, "").toUpperCase();
+}
+
+export function isValidMicrochip(value: string): boolean {
+  return MICROCHIP_PATTERN.test(normalizeMicrochip(value));
+}
+
+type SignalmentFields = {
+  species?: string | null;
+  breed?: string | null;
+  sex?: string | null;
+  neutered?: boolean | null;
+  dateOfBirth?: string | null;
+  colour?: string | null;
+  microchipNumber?: string | null;
+};
+
+// Parses a `YYYY-MM-DD` date of birth as a local date.
+function parseDateOfBirth(dateOfBirth: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateOfBirth);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+// Age computed from date of birth, e.g. "3 years 2 months" or "5 weeks".
+export function formatAge(dateOfBirth: string | null | undefined, now: Date = new Date()): string | null {
+  const birth = dateOfBirth ? parseDateOfBirth(dateOfBirth) : null;
+  if (!birth || birth > now) return null;
+
+  let months = (now.getFullYear() - birth.getFullYear()) * 12 + (now.getMonth() - birth.getMonth());
+  if (now.getDate() < birth.getDate()) months -= 1;
+
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+  if (months < 3) {
+    const weeks = Math.floor((now.getTime() - birth.getTime()) / (7 * 24 * 60 * 60 * 1000));
+    return weeks < 1 ? "Under 1 week" : plural(weeks, "week");
+  }
+  const years = Math.floor(months / 12);
+  const remainingMonths = months % 12;
+  if (years === 0) return plural(remainingMonths, "month");
+  return remainingMonths ? `${plural(years, "year")} ${plural(remainingMonths, "month")}` : plural(years, "year");
+}
+
+export function formatSpecies(species: string | null | undefined): string | null {
+  return species && species in SPECIES_LABELS ? SPECIES_LABELS[species as Species] : null;
+}
+
+// Sex with neuter status, e.g. "Female (neutered)" or "Male (entire)".
+export function formatSex(sex: string | null | undefined, neutered: boolean | null | undefined): string | null {
+  const label = sex && sex in SEX_LABELS ? SEX_LABELS[sex as Sex] : null;
+  const status = neutered === true ? "neutered" : neutered === false ? "entire" : null;
+  if (label && status) return `${label} (${status})`;
+  return label || (status && status[0].toUpperCase() + status.slice(1));
+}
+
+// One-line summary, e.g. "Dog · Labrador · Female (neutered) · 3 years".
+export function describeSignalment(patient: SignalmentFields, now: Date = new Date()): string {
+  return [
+    formatSpecies(patient.species),
+    patient.breed,
+    formatSex(patient.sex, patient.neutered),
+    formatAge(patient.dateOfBirth, now),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
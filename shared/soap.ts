@@ -0,0 +1,40 @@
+// SOAP notes are stored as their four sections, both as drafted by the model
+// (aiSoapNote) and as edited by the vet (finalSoapNote).
+
+export const SOAP_SECTIONS = ["subjective", "objective", "assessment", "plan"] as const;
+export type SoapSection = (typeof SOAP_SECTIONS)[number];
+
+export type SoapNote = Record<SoapSection, string>;
+
+export const SOAP_SECTION_LABELS: Record<SoapSection, string> = {
+  subjective: "Subjective",
+  objective: "Objective",
+  assessment: "Assessment",
+  plan: "Plan",
+};
+
+export const SOAP_SECTION_DESCRIPTIONS: Record<SoapSection, string> = {
+  subjective: "History, owner-reported concerns, symptoms, timeline",
+  objective: "Physical exam findings, vitals, diagnostics, measurable observations",
+  assessment: "Differential diagnoses or assessment",
+  plan: "Treatment plan, medications, follow-up, client instructions",
+};
+
+export const EMPTY_SOAP_NOTE: SoapNote = { subjective: "", objective: "", assessment: "", plan: "" };
+
+export function isSoapNoteEqual(a: SoapNote | null | undefined, b: SoapNote | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return SOAP_SECTIONS.every((section) => a[section] === b[section]);
+}
+
+export function isSoapNoteEmpty(note: SoapNote | null | undefined): boolean {
+  return !note || SOAP_SECTIONS.every((section) => !note[section].trim());
+}
+
+// "Subjective:\n…" blocks for previews, the patient timeline and plain-text copies.
+export function formatSoapNote(note: SoapNote | null | undefined): string {
+  if (!note) return "";
+  return SOAP_SECTIONS
+    .map((section) => `${SOAP_SECTION_LABELS[section]}:\n${note[section].trim()}`)
+    .join("\n\n");
+}
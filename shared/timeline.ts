@@ -0,0 +1,45 @@
+// Chronological clinical timeline for a patient, merged from the records kept
+// against it. Events are built on the server so every client shows the same text.
+
+export const TIMELINE_EVENT_TYPES = [
+  "consultation",
+  "soap-note",
+  "addendum",
+  "vitals",
+  "vaccination",
+  "prescription",
+] as const;
+export type TimelineEventType = (typeof TIMELINE_EVENT_TYPES)[number];
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+  consultation: "Consultations",
+  "soap-note": "Finalized SOAP notes",
+  addendum: "Addenda",
+  vitals: "Weight & vitals",
+  vaccination: "Vaccinations",
+  prescription: "Prescriptions",
+};
+
+// Only included for roles that can read consultations, matching the routes that
+// serve these records on their own.
+export const CLINICAL_EVENT_TYPES: readonly TimelineEventType[] = ["consultation", "soap-note", "addendum", "vitals"];
+
+export type TimelineEvent = {
+  id: string; // Unique across types, e.g. "vitals-12"
+  type: TimelineEventType;
+  // ISO timestamp, or a bare YYYY-MM-DD for records that only carry a date.
+  occurredAt: string;
+  date: string; // YYYY-MM-DD, used for date range filters
+  title: string;
+  details: string[];
+  body?: string; // Longer text shown on demand, e.g. the SOAP note
+  consultationId: number | null;
+};
+
+export function isTimelineEventType(value: unknown): value is TimelineEventType {
+  return typeof value === "string" && (TIMELINE_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function isDateOnly(occurredAt: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(occurredAt);
+}
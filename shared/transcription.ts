@@ -0,0 +1,53 @@
+// Speech-to-text backends a clinic can choose between. Clinics that haven't
+// chosen one use the server's TRANSCRIPTION_PROVIDER.
+
+export const TRANSCRIPTION_PROVIDERS = ["openai", "local-whisper", "fake"] as const;
+export type TranscriptionProviderName = (typeof TRANSCRIPTION_PROVIDERS)[number];
+
+export const TRANSCRIPTION_PROVIDER_LABELS: Record<TranscriptionProviderName, string> = {
+  openai: "OpenAI Whisper (cloud)",
+  "local-whisper": "Local Whisper (on this server)",
+  fake: "Fake transcript (testing only)",
+};
+
+export function isTranscriptionProviderName(value: unknown): value is TranscriptionProviderName {
+  return typeof value === "string" && (TRANSCRIPTION_PROVIDERS as readonly string[]).includes(value);
+}
+
+// Speaker labels as stored on transcript segments are "Speaker 1", "Speaker 2"…
+// in order of first appearance; a consultation can give each a display name.
+export type SpeakerNames = Record<string, string>;
+
+export const SUGGESTED_SPEAKER_NAMES = ["Vet", "Owner", "Nurse"] as const;
+
+export function getSpeakerName(speaker: string, speakerNames: SpeakerNames | null | undefined): string {
+  return speakerNames?.[speaker]?.trim() || speaker;
+}
+
+// Distinct speakers in order of first appearance.
+export function listSpeakers(segments: { speaker: string | null }[]): string[] {
+  const speakers: string[] = [];
+  for (const { speaker } of segments) {
+    if (speaker && !speakers.includes(speaker)) speakers.push(speaker);
+  }
+  return speakers;
+}
+
+// "Vet: …" lines, one per change of speaker, for the SOAP note prompt and exports.
+export function formatSpeakerTranscript(
+  segments: { speaker: string | null; text: string }[],
+  speakerNames: SpeakerNames | null | undefined,
+): string {
+  const turns: { speaker: string | null; text: string }[] = [];
+  for (const segment of segments) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, text: segment.text });
+    }
+  }
+  return turns
+    .map((turn) => (turn.speaker ? `${getSpeakerName(turn.speaker, speakerNames)}: ${turn.text}` : turn.text))
+    .join("\n");
+}
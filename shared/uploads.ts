@@ -0,0 +1,16 @@
+// Recordings are uploaded in numbered chunks so a dropped connection only costs
+// the chunk in flight: the recorder asks which chunks arrived and sends the
+// rest, then completes the upload with a SHA-256 of the whole file.
+
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+// Around nine hours of 16 kHz WAV; compressed browser recordings are far smaller.
+export const MAX_UPLOAD_SIZE = 1024 * 1024 * 1024;
+
+export function getChunkCount(size: number, chunkSize: number): number {
+  return Math.ceil(size / chunkSize);
+}
+
+// Every chunk is chunkSize bytes except the last, which holds the remainder.
+export function getChunkLength(index: number, size: number, chunkSize: number): number {
+  return Math.min(chunkSize, size - index * chunkSize);
+}
@@ -0,0 +1,48 @@
+// Due-date tracking for vaccinations. A vaccination stops counting as due
+// once the same vaccine has been given to the patient again.
+
+export const DUE_SOON_DAYS = 30;
+
+export const VACCINATION_SITES = [
+  "Subcutaneous, scruff",
+  "Subcutaneous, right forelimb",
+  "Subcutaneous, left forelimb",
+  "Subcutaneous, right hindlimb",
+  "Subcutaneous, left hindlimb",
+  "Intramuscular, right hindlimb",
+  "Intramuscular, left hindlimb",
+  "Intranasal",
+  "Oral",
+] as const;
+
+export type VaccinationDueStatus = "overdue" | "due-soon" | "current";
+
+export const VACCINATION_DUE_LABELS: Record<VaccinationDueStatus, string> = {
+  overdue: "Overdue",
+  "due-soon": "Due soon",
+  current: "Up to date",
+};
+
+// `YYYY-MM-DD` for a local date, matching how date columns are returned.
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function getVaccinationDueStatus(
+  nextDueDate: string | null | undefined,
+  today: Date = new Date(),
+  dueSoonDays: number = DUE_SOON_DAYS,
+): VaccinationDueStatus | null {
+  if (!nextDueDate) return null;
+  if (nextDueDate < toDateString(today)) return "overdue";
+  if (nextDueDate <= toDateString(addDays(today, dueSoonDays))) return "due-soon";
+  return "current";
+}
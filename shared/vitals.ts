@@ -0,0 +1,30 @@
+// Vital signs recorded against a patient. Values are stored in metric units;
+// the limits reject obvious typos (e.g. a weight entered in grams).
+
+export const VITAL_SIGNS = [
+  "weightKg",
+  "temperatureC",
+  "heartRate",
+  "respiratoryRate",
+  "bodyConditionScore",
+] as const;
+export type VitalSign = (typeof VITAL_SIGNS)[number];
+
+export const VITAL_SIGN_INFO: Record<VitalSign, { label: string; unit: string; min: number; max: number }> = {
+  weightKg: { label: "Weight", unit: "kg", min: 0.01, max: 2000 },
+  temperatureC: { label: "Temperature", unit: "°C", min: 25, max: 45 },
+  heartRate: { label: "Heart Rate", unit: "bpm", min: 10, max: 400 },
+  respiratoryRate: { label: "Respiratory Rate", unit: "/min", min: 2, max: 200 },
+  bodyConditionScore: { label: "Body Condition Score", unit: "/9", min: 1, max: 9 },
+};
+
+export function isVitalInRange(sign: VitalSign, value: number): boolean {
+  const { min, max } = VITAL_SIGN_INFO[sign];
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+export function formatVital(sign: VitalSign, value: number | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const { unit } = VITAL_SIGN_INFO[sign];
+  return unit.startsWith("/") || unit.startsWith("°") ? `${value}${unit}` : `${value} ${unit}`;
+}
@@ -1,11 +1,35 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import fs from "fs";
 import path from "path";
+import { createHash } from "crypto";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
 
+// Emits client/sw.js as /sw.js with the build's hashed assets to precache and
+// a version derived from them.
+function serviceWorker(): Plugin {
+  return {
+    name: "vetrecord-service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith("assets/"))
+        .sort()
+        .map((fileName) => `/${fileName}`);
+      const version = createHash("sha256").update(assets.join("\n")).digest("hex").slice(0, 12);
+      const source = fs
+        .readFileSync(path.resolve(import.meta.dirname, "client", "sw.js"), "utf8")
+        .replace("__BUILD_VERSION__", JSON.stringify(version))
+        .replace("__BUILD_ASSETS__", JSON.stringify(assets));
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
+    serviceWorker(),
     runtimeErrorOverlay(),
     ...(process.env.NODE_ENV !== "production" &&
     process.env.REPL_ID !== undefined